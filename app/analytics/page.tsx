@@ -0,0 +1,58 @@
+import Link from 'next/link'
+import { getDynamicQRCodes } from '@/lib/cosmic'
+import { getScanStore } from '@/lib/scan-store'
+import { getScanRangeStart, parseScanRange, summarizeScans } from '@/lib/qr-analytics'
+import { getIdentity } from '@/lib/identity'
+import ScanAnalytics from '@/components/ScanAnalytics'
+import SignInNotice from '@/components/SignInNotice'
+
+// Scans arrive all the time, so the page is rendered per request
+export const dynamic = 'force-dynamic'
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{ days?: string; code?: string }>;
+}
+
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const { days: daysParam, code } = await searchParams
+  const days = parseScanRange(daysParam)
+  const since = getScanRangeStart(days)
+
+  const identity = await getIdentity()
+  const store = getScanStore()
+  const [scans, codes] = identity
+    ? await Promise.all([
+        store.getScans({ owner_id: identity.ownerId, code_slug: code, since: since.toISOString() }),
+        getDynamicQRCodes(identity.ownerId)
+      ])
+    : [[], []]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gradient mb-4">
+            Scan Analytics
+          </h1>
+          <p className="text-xl text-gray-600">
+            See when, where and on what your dynamic codes are scanned
+          </p>
+          <Link href="/dynamic" className="inline-block mt-4 text-primary hover:text-primary-700 font-medium">
+            Manage dynamic codes →
+          </Link>
+        </div>
+
+        {identity ? (
+          <ScanAnalytics
+            summary={summarizeScans(scans, since)}
+            codes={codes}
+            days={days}
+            codeSlug={code}
+          />
+        ) : (
+          <SignInNotice what="scan analytics" />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScanStore } from '@/lib/scan-store';
+import { getScanRangeStart, parseScanRange, scansToCSV } from '@/lib/qr-analytics';
+import { errorResponse } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+
+// Scans of the signed-in user's dynamic codes as CSV, for the same range the analytics page shows.
+//   GET /api/analytics/export?days=30
+//   GET /api/analytics/export?days=90&code=abcd2345
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const { searchParams } = request.nextUrl;
+  const days = parseScanRange(searchParams.get('days'));
+  const code = searchParams.get('code') || undefined;
+  // Slugs end up in the file name, so they are held to Cosmic's slug characters
+  if (code && !/^[a-z0-9-]+$/i.test(code)) {
+    return errorResponse(400, 'invalid_code', 'code must be a dynamic code slug');
+  }
+
+  try {
+    const store = getScanStore();
+    const scans = await store.getScans({ owner_id: identity.ownerId, code_slug: code, since: getScanRangeStart(days).toISOString() });
+    const filename = `qr-scans-${code ? `${code}-` : ''}${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(scansToCSV(scans), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting QR scans:', error);
+    return errorResponse(502, 'scans_unavailable', 'Failed to fetch QR scans');
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDynamicQRCode, updateDynamicQRCode } from '@/lib/cosmic';
+import { validateDynamicQRCodeData } from '@/lib/qr-validation';
+import { errorResponse, requireJSON } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+
+// Read or retarget one of the signed-in user's dynamic QR codes. The printed code never changes; the
+// redirect route picks up the new target on the next scan.
+//   GET   /api/dynamic-codes/abcd2345
+//   PATCH /api/dynamic-codes/abcd2345  { "target_url": "https://example.com/summer" }
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const { slug } = await params;
+  try {
+    const code = await getDynamicQRCode(identity.ownerId, slug);
+    if (!code) {
+      return errorResponse(404, 'dynamic_code_not_found', `Dynamic QR code "${slug}" was not found`);
+    }
+    return NextResponse.json({ code });
+  } catch (error) {
+    console.error('Error fetching dynamic QR code:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to fetch dynamic QR code');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const limited = rateLimit(request, 'dynamic-codes');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const { slug } = await params;
+
+  const unsupported = requireJSON(request);
+  if (unsupported) return unsupported;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = validateDynamicQRCodeData(input, true);
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_dynamic_code', 'Dynamic QR code is invalid', result.issues);
+  }
+
+  try {
+    const code = await updateDynamicQRCode(identity.ownerId, slug, result.data);
+    if (!code) {
+      return errorResponse(404, 'dynamic_code_not_found', `Dynamic QR code "${slug}" was not found`);
+    }
+    return NextResponse.json({ code });
+  } catch (error) {
+    console.error('Error updating dynamic QR code:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to update dynamic QR code');
+  }
+}
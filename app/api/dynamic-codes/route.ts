@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DynamicQRCodeData } from '@/types';
+import { getDynamicQRCodes, getDynamicQRCodeBySlug, saveDynamicQRCode } from '@/lib/cosmic';
+import { validateDynamicQRCodeData } from '@/lib/qr-validation';
+import { createDynamicSlug } from '@/lib/qr-dynamic';
+import { errorResponse, requireJSON } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+
+// The signed-in user's dynamic QR codes: short links on this app whose destination can be edited.
+//   GET  /api/dynamic-codes
+//   POST /api/dynamic-codes  { "target_url": "https://example.com", "description": "Spring flyer" }
+
+export const runtime = 'nodejs';
+
+// Random slugs practically never collide, but a taken slug would hijack a printed code
+const MAX_SLUG_ATTEMPTS = 5;
+
+export async function GET() {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  try {
+    return NextResponse.json({ codes: await getDynamicQRCodes(identity.ownerId) });
+  } catch (error) {
+    console.error('Error fetching dynamic QR codes:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to fetch dynamic QR codes');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, 'dynamic-codes');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const unsupported = requireJSON(request);
+  if (unsupported) return unsupported;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = validateDynamicQRCodeData(input);
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_dynamic_code', 'Dynamic QR code is invalid', result.issues);
+  }
+
+  try {
+    for (let attempt = 0; attempt < MAX_SLUG_ATTEMPTS; attempt++) {
+      const slug = createDynamicSlug();
+      // Short links are shared by every owner, so the slug must be free across all of them
+      if (await getDynamicQRCodeBySlug(slug)) continue;
+
+      const code = await saveDynamicQRCode(identity.ownerId, slug, result.data as DynamicQRCodeData);
+      return NextResponse.json({ code }, { status: 201 });
+    }
+    return errorResponse(503, 'slug_unavailable', 'Could not find a free short link, please try again');
+  } catch (error) {
+    console.error('Error creating dynamic QR code:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to save dynamic QR code');
+  }
+}
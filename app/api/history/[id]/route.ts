@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQRHistoryEntry, deleteQRHistory } from '@/lib/cosmic';
+import { errorResponse } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+import { isHistoryId } from '@/lib/qr-history';
+
+// Read or delete one of the signed-in user's history entries. Other users'
+// entries are reported as not found.
+//   GET    /api/history/65a1f0c2e4b0a1b2c3d4e5f6
+//   DELETE /api/history/65a1f0c2e4b0a1b2c3d4e5f6
+
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return errorResponse(404, 'history_not_found', `History entry "${id}" was not found`);
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const { id } = await params;
+  if (!isHistoryId(id)) return notFound(id);
+
+  try {
+    const history = await getQRHistoryEntry(identity.ownerId, id);
+    if (!history) return notFound(id);
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Error fetching QR history entry:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to fetch QR history entry');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const limited = rateLimit(request, 'history');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const { id } = await params;
+  if (!isHistoryId(id)) return notFound(id);
+
+  try {
+    const deleted = await deleteQRHistory(identity.ownerId, id);
+    if (!deleted) return notFound(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting QR history:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to delete QR history');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQRHistory, saveQRHistory } from '@/lib/cosmic';
+import { validateHistoryData } from '@/lib/qr-validation';
+import { parseHistoryQuery } from '@/lib/qr-history';
+import { errorResponse, requireJSON } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+
+// Lists and records the signed-in user's generated codes. The list is one page
+// of a CosmicResponse, newest first, filtered like the history page. The body's
+// config takes the same fields as /api/qr.
+//   GET  /api/history?q=example&style=rounded&format=svg&from=2024-01-01&to=2024-01-31&page=2
+//   POST /api/history  { "config": { "text": "https://example.com", "style": "rounded" },
+//                        "export_format": "png", "template_slug": "ocean-blue" }
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const query = parseHistoryQuery(Object.fromEntries(request.nextUrl.searchParams));
+  try {
+    return NextResponse.json(await getQRHistory(identity.ownerId, query));
+  } catch (error) {
+    console.error('Error fetching QR history:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to fetch QR history');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, 'history');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const unsupported = requireJSON(request);
+  if (unsupported) return unsupported;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = validateHistoryData(input);
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_history', 'History entry is invalid', result.issues);
+  }
+
+  try {
+    const history = await saveQRHistory(identity.ownerId, result.data);
+    return NextResponse.json({ history }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving QR history:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to save QR history');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserPreferences, saveUserPreferences } from '@/lib/cosmic';
+import { validatePreferencesData } from '@/lib/qr-validation';
+import { errorResponse, requireJSON } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+
+// Reads and saves the signed-in user's wizard preferences.
+//   GET  /api/preferences
+//   POST /api/preferences  { "default_style": "rounded", "export_format": "svg", "auto_download": true }
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  try {
+    return NextResponse.json({ preferences: await getUserPreferences(identity.ownerId) });
+  } catch (error) {
+    console.error('Error fetching user preferences:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to fetch user preferences');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, 'preferences');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const unsupported = requireJSON(request);
+  if (unsupported) return unsupported;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = validatePreferencesData(input);
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_preferences', 'Preferences are invalid', result.issues);
+  }
+
+  try {
+    const preferences = await saveUserPreferences(identity.ownerId, result.data);
+    return NextResponse.json({ preferences }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving user preferences:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to save user preferences');
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ExportFormat } from '@/types';
+import { getQRTemplate } from '@/lib/cosmic';
+import { getTemplateConfig, getTemplateStyle } from '@/lib/qr-templates';
+import { validateQRConfig, validatePDFOptions, validateDPI, validateQuality, parseConfigSearchParams, isExportFormat, EXPORT_FORMATS } from '@/lib/qr-validation';
+import { renderQRCode, resolveServerLogoUrl } from '@/lib/qr-server';
+import { errorResponse } from '@/lib/api-errors';
+import { rateLimit } from '@/lib/rate-limit';
+import { getIdentity } from '@/lib/identity';
+
+// Renders styled QR codes for other services.
+//   GET  /api/qr?text=https://example.com&style=rounded&format=svg&template=my-template
+//   POST /api/qr  { "text": "https://example.com", "style": "rounded", "format": "png" }
+//   GET  /api/qr?text=https://example.com&format=pdf&pageSize=letter&orientation=landscape&codeSize=50
+//   GET  /api/qr?text=https://example.com&size=1200&dpi=300
+//   GET  /api/qr?text=https://example.com&format=jpeg&quality=80
+// Config fields follow QRCodeConfig; `format`, `template`, the PDF layout
+// fields (`pageSize`, `orientation`, `codeSize` in mm), the PNG `dpi` and the
+// JPEG `quality` are reserved parameters. `template` finds the shared templates
+// and, for a signed-in caller, their own; renders of an owned template are
+// only cached privately.
+
+export const runtime = 'nodejs';
+
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+const PRIVATE_CACHE_CONTROL = 'private, max-age=86400';
+
+async function handleQRRequest(request: NextRequest, input: Record<string, unknown>) {
+  const { format = 'png', template: templateSlug, pageSize, orientation, codeSize, dpi, quality, ...configInput } = input;
+
+  if (!isExportFormat(format)) {
+    return errorResponse(400, 'invalid_format', `Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const pdfResult = validatePDFOptions({ pageSize, orientation, codeSize });
+  if (!pdfResult.valid) {
+    return errorResponse(400, 'invalid_pdf_options', 'PDF layout options are invalid', pdfResult.issues);
+  }
+  const pdfOptions = format === 'pdf' ? pdfResult.options : undefined;
+
+  const dpiIssues = validateDPI(dpi);
+  if (dpiIssues.length > 0) {
+    return errorResponse(400, 'invalid_dpi', 'PNG resolution is invalid', dpiIssues);
+  }
+  const pngDpi = format === 'png' ? (dpi as number | undefined) : undefined;
+
+  const qualityIssues = validateQuality(quality);
+  if (qualityIssues.length > 0) {
+    return errorResponse(400, 'invalid_quality', 'JPEG quality is invalid', qualityIssues);
+  }
+  const jpegQuality = format === 'jpeg' ? (quality as number | undefined) : undefined;
+
+  // Template settings sit between the defaults and the explicit request fields
+  let templateConfig: Record<string, unknown> = {};
+  let cacheControl = CACHE_CONTROL;
+  if (templateSlug !== undefined) {
+    if (typeof templateSlug !== 'string' || templateSlug.trim().length === 0) {
+      return errorResponse(400, 'invalid_template', 'Template must be a template slug');
+    }
+
+    try {
+      const identity = await getIdentity();
+      const template = await getQRTemplate(templateSlug, identity?.ownerId ?? null);
+      if (!template) {
+        return errorResponse(404, 'template_not_found', `Template "${templateSlug}" was not found`);
+      }
+      if (template.metadata.owner_id) cacheControl = PRIVATE_CACHE_CONTROL;
+      templateConfig = { style: getTemplateStyle(template), ...getTemplateConfig(template) };
+    } catch (error) {
+      console.error('Error fetching QR template:', error);
+      return errorResponse(502, 'template_unavailable', 'Failed to fetch QR template');
+    }
+  }
+
+  const definedTemplateConfig = Object.fromEntries(
+    Object.entries(templateConfig).filter(([, value]) => value !== undefined)
+  );
+  const result = validateQRConfig({ ...definedTemplateConfig, ...configInput });
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_config', 'QR code config is invalid', result.issues);
+  }
+
+  // Logos are inlined and checked up front, so a bad one is the caller's 400 rather than a failed render
+  let logoUrl: string | undefined;
+  try {
+    logoUrl = await resolveServerLogoUrl(result.config.logoUrl);
+  } catch (error) {
+    return errorResponse(400, 'invalid_config', 'QR code config is invalid', [
+      { field: 'logoUrl', message: error instanceof Error ? error.message : 'Logo could not be loaded' },
+    ]);
+  }
+
+  // Identical configs render identical output, so the hash doubles as the ETag
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ format, config: result.config, pdfOptions, dpi: pngDpi, quality: jpegQuality }))
+    .digest('hex');
+  const etag = `"${hash}"`;
+  const cacheHeaders = { 'Cache-Control': cacheControl, ETag: etag };
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders });
+  }
+
+  try {
+    const { body, contentType } = await renderQRCode({ ...result.config, logoUrl }, format as ExportFormat, pdfOptions, pngDpi, jpegQuality);
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': contentType,
+        'Content-Length': String(body.byteLength),
+        'Content-Disposition': `inline; filename="qr-code.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering QR code:', error);
+    return errorResponse(500, 'render_failed', error instanceof Error ? error.message : 'Failed to render QR code');
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const limited = rateLimit(request, 'qr');
+  if (limited) return limited;
+
+  const { searchParams } = request.nextUrl;
+  const input: Record<string, unknown> = parseConfigSearchParams(searchParams, ['format', 'template']);
+
+  const format = searchParams.get('format');
+  const template = searchParams.get('template');
+  if (format !== null) input.format = format;
+  if (template !== null) input.template = template;
+
+  return handleQRRequest(request, input);
+}
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, 'qr');
+  if (limited) return limited;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return errorResponse(400, 'invalid_config', 'Request body must be a JSON object');
+  }
+
+  return handleQRRequest(request, input as Record<string, unknown>);
+}
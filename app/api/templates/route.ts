@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveQRTemplate } from '@/lib/cosmic';
+import { validateTemplateData } from '@/lib/qr-validation';
+import { errorResponse, requireJSON } from '@/lib/api-errors';
+import { getIdentity, unauthenticatedResponse } from '@/lib/identity';
+import { rateLimit } from '@/lib/rate-limit';
+
+// Saves the current design as a reusable template owned by the signed-in user.
+//   POST /api/templates  { "title": "Sunset", "style": "rounded",
+//                          "colors": { "foreground": "#ff6b6b", "background": "#ffffff" } }
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, 'templates');
+  if (limited) return limited;
+  const identity = await getIdentity();
+  if (!identity) return unauthenticatedResponse();
+
+  const unsupported = requireJSON(request);
+  if (unsupported) return unsupported;
+
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = validateTemplateData(input);
+  if (!result.valid) {
+    return errorResponse(400, 'invalid_template', 'Template is invalid', result.issues);
+  }
+
+  try {
+    const template = await saveQRTemplate(identity.ownerId, result.data);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving QR template:', error);
+    return errorResponse(502, 'cosmic_unavailable', 'Failed to save QR template');
+  }
+}
@@ -0,0 +1,46 @@
+import Link from 'next/link'
+import { getDynamicQRCodes } from '@/lib/cosmic'
+import { getIdentity } from '@/lib/identity'
+import DynamicCodeEditor from '@/components/DynamicCodeEditor'
+import SignInNotice from '@/components/SignInNotice'
+
+// Targets change from this page, so always read the current ones
+export const dynamic = 'force-dynamic'
+
+export default async function DynamicCodesPage() {
+  const identity = await getIdentity()
+  const codes = identity ? await getDynamicQRCodes(identity.ownerId) : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gradient mb-4">
+            Dynamic QR Codes
+          </h1>
+          <p className="text-xl text-gray-600">
+            Change where your printed codes point without reprinting them
+          </p>
+        </div>
+
+        {!identity ? (
+          <SignInNotice what="dynamic codes" />
+        ) : codes.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+            No dynamic codes yet.{' '}
+            <Link href="/" className="text-primary hover:text-primary-700">
+              Create one
+            </Link>{' '}
+            by ticking &quot;Make it a dynamic code&quot; when entering a URL.
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {codes.map((code) => (
+              <DynamicCodeEditor key={code.id} code={code} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
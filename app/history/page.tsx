@@ -0,0 +1,44 @@
+import Link from 'next/link'
+import { getQRHistory } from '@/lib/cosmic'
+import { parseHistoryQuery } from '@/lib/qr-history'
+import type { HistorySearchParams } from '@/lib/qr-history'
+import { getIdentity } from '@/lib/identity'
+import HistoryBrowser from '@/components/HistoryBrowser'
+import SignInNotice from '@/components/SignInNotice'
+
+// Every download adds an entry, so the page is rendered per request
+export const dynamic = 'force-dynamic'
+
+interface HistoryPageProps {
+  searchParams: Promise<HistorySearchParams>;
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const filters = await searchParams
+  const identity = await getIdentity()
+  const history = identity ? await getQRHistory(identity.ownerId, parseHistoryQuery(filters)) : null
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gradient mb-4">
+            QR Code History
+          </h1>
+          <p className="text-xl text-gray-600">
+            Find, download again or reopen the codes you have created
+          </p>
+          <Link href="/" className="inline-block mt-4 text-primary hover:text-primary-700 font-medium">
+            Create a new code →
+          </Link>
+        </div>
+
+        {history ? (
+          <HistoryBrowser history={history} filters={filters} />
+        ) : (
+          <SignInNotice what="history" />
+        )}
+      </div>
+    </div>
+  )
+}
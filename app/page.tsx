@@ -1,11 +1,26 @@
-import { getQRTemplates, getColorPalettes } from '@/lib/cosmic'
+import Link from 'next/link'
+import { getQRTemplates, getColorPalettes, getQRHistoryEntry, getUserPreferences } from '@/lib/cosmic'
+import { getHistoryConfig, isHistoryId } from '@/lib/qr-history'
+import { getIdentity } from '@/lib/identity'
 import QRGenerator from '@/components/QRGenerator'
 
-export default async function HomePage() {
-  // Fetch templates and color palettes on server
-  const [templates, colorPalettes] = await Promise.all([
-    getQRTemplates(),
-    getColorPalettes()
+interface HomePageProps {
+  searchParams: Promise<{ history?: string }>;
+}
+
+export default async function HomePage({ searchParams }: HomePageProps) {
+  const { history: historyId } = await searchParams
+  const identity = await getIdentity()
+  const ownerId = identity?.ownerId ?? null
+
+  // Fetch templates, color palettes, preferences and any history entry being reopened on server.
+  // Signed-out visitors get the shared templates and the default settings, and a
+  // malformed or unreadable history link opens an empty wizard instead of failing.
+  const [templates, colorPalettes, preferences, historyEntry] = await Promise.all([
+    getQRTemplates(ownerId),
+    getColorPalettes(),
+    ownerId ? getUserPreferences(ownerId) : null,
+    ownerId && isHistoryId(historyId) ? getQRHistoryEntry(ownerId, historyId).catch(() => null) : null
   ]);
 
   return (
@@ -19,10 +34,29 @@ export default async function HomePage() {
           <p className="text-xl text-gray-600 max-w-2xl mx-auto">
             Transform any URL into beautiful, artistic QR codes with customizable styling options
           </p>
+          <Link href="/dynamic" className="inline-block mt-4 text-primary hover:text-primary-700 font-medium">
+            Manage dynamic codes →
+          </Link>
+          <Link href="/analytics" className="inline-block mt-4 ml-6 text-primary hover:text-primary-700 font-medium">
+            Scan analytics →
+          </Link>
+          <Link href="/history" className="inline-block mt-4 ml-6 text-primary hover:text-primary-700 font-medium">
+            History →
+          </Link>
+          <Link href="/preferences" className="inline-block mt-4 ml-6 text-primary hover:text-primary-700 font-medium">
+            Preferences →
+          </Link>
         </div>
 
         {/* Main QR Generator Component */}
-        <QRGenerator templates={templates} colorPalettes={colorPalettes} />
+        <QRGenerator
+          key={historyEntry?.id}
+          templates={templates}
+          colorPalettes={colorPalettes}
+          preferences={preferences?.metadata}
+          initialConfig={historyEntry ? getHistoryConfig(historyEntry) : undefined}
+          initialTemplateSlug={historyEntry?.metadata.template_slug}
+        />
 
         {/* Features Section */}
         <div className="mt-20 grid md:grid-cols-3 gap-8">
@@ -0,0 +1,37 @@
+import Link from 'next/link'
+import { getUserPreferences } from '@/lib/cosmic'
+import { getIdentity } from '@/lib/identity'
+import PreferencesPanel from '@/components/PreferencesPanel'
+import SignInNotice from '@/components/SignInNotice'
+
+// Always show the saved values, not the ones from build time
+export const dynamic = 'force-dynamic'
+
+export default async function PreferencesPage() {
+  const identity = await getIdentity()
+  const preferences = identity ? await getUserPreferences(identity.ownerId) : null
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold text-gradient mb-4">
+            Preferences
+          </h1>
+          <p className="text-xl text-gray-600">
+            Choose what every new QR code starts from
+          </p>
+          <Link href="/" className="inline-block mt-4 text-primary hover:text-primary-700 font-medium">
+            Back to the generator →
+          </Link>
+        </div>
+
+        {identity ? (
+          <PreferencesPanel preferences={preferences?.metadata ?? {}} />
+        ) : (
+          <SignInNotice what="preferences" />
+        )}
+      </div>
+    </div>
+  )
+}
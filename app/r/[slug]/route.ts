@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getDynamicQRCodeBySlug } from '@/lib/cosmic';
+import { getScanStore } from '@/lib/scan-store';
+import { isRedirectTarget } from '@/lib/qr-validation';
+import { createScanEvent, parseUserAgent, getCoarseLocale } from '@/lib/qr-analytics';
+import { resolveRedirectTarget } from '@/lib/qr-routing';
+
+// Short link printed into dynamic QR codes. Looks up the current target on
+// every scan, so the redirect is temporary and never cached. The code's
+// routing rules pick the target from the scan's time, OS, language and scan
+// count. The scan is recorded after the response is sent, so storage never
+// slows the redirect. Scanners aren't signed in; the scan is filed under the
+// code's owner so it shows up in their analytics.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+
+  try {
+    const code = await getDynamicQRCodeBySlug(slug);
+    if (!code) {
+      return new NextResponse('This QR code link does not exist.', { status: 404, headers: NO_STORE });
+    }
+
+    const store = getScanStore();
+    const { target } = await resolveRedirectTarget(
+      code,
+      {
+        now: new Date(),
+        os: parseUserAgent(request.headers.get('user-agent') ?? '').os,
+        locale: getCoarseLocale(request.headers.get('accept-language')),
+      },
+      () => store.countScans(code.slug)
+    );
+    if (!isRedirectTarget(target)) {
+      return new NextResponse('This QR code link does not exist.', { status: 404, headers: NO_STORE });
+    }
+
+    const event = createScanEvent(code.slug, request.headers);
+    if (event) {
+      after(async () => {
+        try {
+          await store.recordScan({ ...event, owner_id: code.metadata.owner_id });
+        } catch (error) {
+          console.warn('Failed to record QR scan:', error);
+        }
+      });
+    }
+
+    return NextResponse.redirect(target, { status: 302, headers: NO_STORE });
+  } catch (error) {
+    console.error('Error resolving dynamic QR code:', error);
+    return new NextResponse('This QR code link is temporarily unavailable.', { status: 502, headers: NO_STORE });
+  }
+}
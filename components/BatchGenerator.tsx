@@ -0,0 +1,286 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import type { QRCodeConfig, QRTemplate, ExportFormat, PayloadType, ParsedCSV, BatchMapping, BatchProgress, BatchResult, PDFExportOptions } from '@/types'
+import { parseCSV, getPayloadFields, suggestBatchMapping, formatBatchFilename, generateBatchZip, generateBatchSheets, MAX_BATCH_ROWS } from '@/lib/qr-batch'
+import { DEFAULT_PDF_OPTIONS, DEFAULT_SHEET_LAYOUT } from '@/lib/qr-pdf'
+import { PAYLOAD_TYPE_NAMES } from '@/lib/qr-payloads'
+import { getTemplateConfig } from '@/lib/qr-templates'
+import { downloadBlob } from '@/lib/qr-generator'
+import PrintLayoutOptions from './PrintLayoutOptions'
+
+interface BatchGeneratorProps {
+  config: QRCodeConfig;
+  templates: QRTemplate[];
+}
+
+const batchFormats: ExportFormat[] = ['png', 'svg', 'pdf', 'webp', 'jpeg', 'eps']
+
+// "firstName" -> "First name"
+function formatFieldName(field: string): string {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export default function BatchGenerator({ config, templates }: BatchGeneratorProps) {
+  const [csv, setCsv] = useState<ParsedCSV | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [mapping, setMapping] = useState<BatchMapping | null>(null)
+  const [format, setFormat] = useState<ExportFormat>('png')
+  const [printSheets, setPrintSheets] = useState(false)
+  const [sheetOptions, setSheetOptions] = useState<PDFExportOptions>({
+    ...DEFAULT_PDF_OPTIONS,
+    codeSize: 40,
+    layout: { ...DEFAULT_SHEET_LAYOUT, columns: 3, rows: 4, caption: 'payload' }
+  })
+  const [templateId, setTemplateId] = useState('')
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [result, setResult] = useState<BatchResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const handleFileChange = async (file: File | undefined) => {
+    setResult(null)
+    setProgress(null)
+    setError(null)
+    if (!file) return
+
+    try {
+      const parsed = parseCSV(await file.text())
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The CSV file needs a header row and at least one data row')
+      }
+      setCsv(parsed)
+      setFileName(file.name.replace(/\.csv$/i, ''))
+      setMapping(suggestBatchMapping(parsed.headers, mapping?.payloadType ?? config.payload?.type ?? 'url'))
+    } catch (error) {
+      setCsv(null)
+      setMapping(null)
+      setError(error instanceof Error ? error.message : 'Failed to read CSV file')
+    }
+  }
+
+  const handlePayloadTypeChange = (payloadType: PayloadType) => {
+    if (csv) {
+      setMapping(suggestBatchMapping(csv.headers, payloadType))
+    }
+  }
+
+  const handleGenerate = async () => {
+    if (!csv || !mapping) return
+
+    const template = templates.find((t) => t.id === templateId)
+    const batchConfig = template ? { ...config, ...getTemplateConfig(template) } : config
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    setIsRunning(true)
+    setResult(null)
+    setError(null)
+    setProgress({ completed: 0, total: csv.rows.length, failed: 0 })
+    try {
+      const options = { csv, mapping, config: batchConfig, onProgress: setProgress, signal: controller.signal }
+      const asSheets = format === 'pdf' && printSheets
+      const batch = asSheets
+        ? await generateBatchSheets({ ...options, pdfOptions: sheetOptions })
+        : await generateBatchZip({ ...options, format })
+      setResult(batch)
+      if (batch.succeeded > 0) {
+        downloadBlob(batch.file, `${fileName || 'qr-codes'}.${asSheets ? 'pdf' : 'zip'}`)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to generate batch')
+    } finally {
+      setIsRunning(false)
+      abortRef.current = null
+    }
+  }
+
+  const mappedFieldCount = mapping ? Object.values(mapping.fields).filter(Boolean).length : 0
+  const exampleName = csv && mapping && csv.rows[0]
+    ? `${formatBatchFilename(mapping.filenamePattern, csv.headers, csv.rows[0], 1)}.${format}`
+    : ''
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Batch Generate from CSV</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a CSV with one row per code (up to {MAX_BATCH_ROWS}) and download them all as a ZIP, or as printable sheets, in this style.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => handleFileChange(e.target.files?.[0])}
+        disabled={isRunning}
+        className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
+      />
+
+      {csv && mapping && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            {csv.rows.length} rows, {csv.headers.length} columns
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Content Type</label>
+              <select
+                value={mapping.payloadType}
+                onChange={(e) => handlePayloadTypeChange(e.target.value as PayloadType)}
+                className="input-field py-2"
+              >
+                {(Object.keys(PAYLOAD_TYPE_NAMES) as PayloadType[]).map((type) => (
+                  <option key={type} value={type}>{PAYLOAD_TYPE_NAMES[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Style</label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="input-field py-2"
+              >
+                <option value="">Current design</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>{template.title}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Column Mapping */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Columns</label>
+            <div className="space-y-2">
+              {getPayloadFields(mapping.payloadType).map((field) => (
+                <div key={field} className="grid grid-cols-2 gap-2 items-center">
+                  <span className="text-sm text-gray-600">{formatFieldName(field)}</span>
+                  <select
+                    value={mapping.fields[field] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, fields: { ...mapping.fields, [field]: e.target.value } })}
+                    className="input-field py-1 text-sm"
+                  >
+                    <option value="">Not mapped</option>
+                    {csv.headers.map((header) => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="batch-filename" className="block text-sm font-medium text-gray-700 mb-1">
+              File Name Pattern
+            </label>
+            <input
+              id="batch-filename"
+              type="text"
+              value={mapping.filenamePattern}
+              onChange={(e) => setMapping({ ...mapping, filenamePattern: e.target.value })}
+              className="input-field"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use {'{column}'} for a CSV value and {'{row}'} for the row number
+              {exampleName && <>, e.g. <span className="font-mono">{exampleName}</span></>}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {batchFormats.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFormat(option)}
+                  className={`p-2 rounded-lg border text-sm uppercase transition-colors duration-200 ${
+                    format === option
+                      ? 'border-primary bg-primary-50 text-primary-700'
+                      : 'border-gray-200 hover:border-primary-300'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === 'pdf' && (
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={printSheets}
+                  onChange={(e) => setPrintSheets(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                Print sheets in one PDF instead of a ZIP
+              </label>
+              {printSheets && (
+                <PrintLayoutOptions options={sheetOptions} onChange={setSheetOptions} captionFields={csv.headers} />
+              )}
+            </div>
+          )}
+
+          {isRunning ? (
+            <button type="button" onClick={() => abortRef.current?.abort()} className="btn-secondary w-full">
+              Cancel
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={mappedFieldCount === 0}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Generate {csv.rows.length} QR Codes
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Progress */}
+      {progress && (
+        <div className="mt-4">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>{progress.completed} of {progress.total}</span>
+            {progress.failed > 0 && <span className="text-red-600">{progress.failed} failed</span>}
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-200"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+
+      {/* Row Errors */}
+      {result && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-700">
+            {result.succeeded} codes generated
+            {result.errors.length > 0 && `, ${result.errors.length} rows skipped`}
+            {result.errors.length > 0 && result.file.type === 'application/zip' && ' (listed in errors.csv in the ZIP)'}
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+              {result.errors.map((rowError) => (
+                <li key={rowError.row}>
+                  <span className="font-medium">Row {rowError.row}:</span> {rowError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
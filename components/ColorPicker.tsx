@@ -1,6 +1,8 @@
 'use client'
 
-import type { ColorPalette } from '@/types'
+import type { ColorPalette, QRGradient, ContrastGrade, UpdateQRConfigData } from '@/types'
+import { analyzeContrast, getNearestSafeColors } from '@/lib/color-contrast'
+import GradientEditor from './GradientEditor'
 
 interface ColorPickerProps {
   colorPalettes: ColorPalette[];
@@ -8,6 +10,18 @@ interface ColorPickerProps {
   selectedBackground: string;
   onForegroundChange: (color: string) => void;
   onBackgroundChange: (color: string) => void;
+  gradient?: QRGradient;
+  backgroundGradient?: QRGradient;
+  onGradientChange?: (gradient: QRGradient | undefined) => void;
+  onBackgroundGradientChange?: (gradient: QRGradient | undefined) => void;
+  gradientDisabledReason?: string;
+  onApplyContrastFix?: (changes: UpdateQRConfigData) => void;
+}
+
+const contrastStyles: Record<ContrastGrade, { label: string; className: string }> = {
+  safe: { label: 'Safe contrast', className: 'bg-green-50 border-green-200 text-green-800' },
+  risky: { label: 'Risky contrast', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  unscannable: { label: 'Likely unscannable', className: 'bg-red-50 border-red-200 text-red-800' }
 }
 
 export default function ColorPicker({
@@ -15,8 +29,24 @@ export default function ColorPicker({
   selectedForeground,
   selectedBackground,
   onForegroundChange,
-  onBackgroundChange
+  onBackgroundChange,
+  gradient,
+  backgroundGradient,
+  onGradientChange,
+  onBackgroundGradientChange,
+  gradientDisabledReason,
+  onApplyContrastFix
 }: ColorPickerProps) {
+  const contrastColors = {
+    foregroundColor: selectedForeground,
+    backgroundColor: selectedBackground,
+    gradient,
+    backgroundGradient
+  }
+  const contrast = analyzeContrast(contrastColors)
+  const contrastFix = getNearestSafeColors(contrastColors)
+  const hasGradients = Boolean(gradient || backgroundGradient)
+
   // Default colors if no palettes provided
   const defaultColors = [
     '#000000', '#ffffff', '#6366f1', '#ef4444', '#10b981', 
@@ -98,6 +128,30 @@ export default function ColorPicker({
         </div>
       </div>
       
+      {/* Gradient Editors */}
+      {(onGradientChange || onBackgroundGradientChange) && (
+        <div className="space-y-3 mb-6">
+          {onGradientChange && (gradientDisabledReason ? (
+            <p className="text-xs text-gray-500">{gradientDisabledReason}</p>
+          ) : (
+            <GradientEditor
+              label="Foreground"
+              gradient={gradient}
+              baseColor={selectedForeground}
+              onChange={onGradientChange}
+            />
+          ))}
+          {onBackgroundGradientChange && (
+            <GradientEditor
+              label="Background"
+              gradient={backgroundGradient}
+              baseColor={selectedBackground}
+              onChange={onBackgroundGradientChange}
+            />
+          )}
+        </div>
+      )}
+      
       {/* Color Palette Sections */}
       {colorPalettes.length > 0 && (
         <div className="space-y-4">
@@ -178,19 +232,37 @@ export default function ColorPicker({
         </div>
       </div>
       
-      {/* Contrast Warning */}
-      <div className="mt-4">
-        {selectedForeground === selectedBackground && (
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-            <div className="flex items-center">
-              <svg className="w-5 h-5 text-yellow-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
-              <p className="text-sm text-yellow-800">
-                Warning: Foreground and background colors are the same. QR code may not be scannable.
-              </p>
-            </div>
-          </div>
+      {/* Contrast Analysis */}
+      <div className={`mt-4 border rounded-lg p-3 ${contrastStyles[contrast.grade].className}`}>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">
+            {contrastStyles[contrast.grade].label}
+            <span className="font-normal ml-2">{contrast.worstPair.ratio.toFixed(1)}:1</span>
+          </p>
+          {contrastFix && onApplyContrastFix && (
+            <button
+              type="button"
+              onClick={() => onApplyContrastFix(contrastFix)}
+              className="text-xs bg-white border border-current px-2 py-1 rounded hover:bg-gray-50 transition-colors duration-200 whitespace-nowrap"
+            >
+              Use nearest safe colors
+            </button>
+          )}
+        </div>
+        {hasGradients && contrast.grade !== 'safe' && (
+          <p className="text-xs mt-1 flex items-center gap-1">
+            Weakest pair:
+            <span className="inline-block w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: contrast.worstPair.foreground }} />
+            <span className="font-mono">{contrast.worstPair.foreground}</span>
+            on
+            <span className="inline-block w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: contrast.worstPair.background }} />
+            <span className="font-mono">{contrast.worstPair.background}</span>
+          </p>
+        )}
+        {contrast.inverted && (
+          <p className="text-xs mt-1">
+            Light modules on a dark background are inverted, and some scanners will not read them.
+          </p>
         )}
       </div>
     </div>
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { DynamicQRCode, RedirectRule } from '@/types'
+import { getDynamicCodeUrl } from '@/lib/qr-dynamic'
+import { updateDynamicCode } from '@/lib/api-client'
+import { getRedirectRules } from '@/lib/qr-routing'
+import { isValidUrl, formatUrl } from '@/lib/qr-generator'
+import RedirectRulesEditor from './RedirectRulesEditor'
+
+interface DynamicCodeEditorProps {
+  code: DynamicQRCode;
+  onUpdated?: (code: DynamicQRCode) => void;
+}
+
+export default function DynamicCodeEditor({ code, onUpdated }: DynamicCodeEditorProps) {
+  // Last saved state, so the form knows when there is something to save
+  const [saved, setSaved] = useState(code)
+  const [target, setTarget] = useState(code.metadata.target_url)
+  const [description, setDescription] = useState(code.metadata.description ?? '')
+  const [rules, setRules] = useState<RedirectRule[]>(() => getRedirectRules(code))
+  const [shortUrl, setShortUrl] = useState(getDynamicCodeUrl(code.slug))
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // The page origin is only known in the browser
+  useEffect(() => {
+    setShortUrl(getDynamicCodeUrl(code.slug, window.location.origin))
+  }, [code.slug])
+
+  const trimmedTarget = target.trim()
+  const formattedRules = rules.map((rule) => ({ ...rule, target_url: formatUrl(rule.target_url.trim()) }))
+  const isTargetValid = trimmedTarget.length > 0 && isValidUrl(trimmedTarget)
+  const isValid =
+    isTargetValid &&
+    rules.every((rule) => rule.target_url.trim().length > 0 && isValidUrl(rule.target_url))
+  const isChanged =
+    formatUrl(trimmedTarget) !== saved.metadata.target_url ||
+    description !== (saved.metadata.description ?? '') ||
+    JSON.stringify(formattedRules) !== JSON.stringify(getRedirectRules(saved))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const updated = await updateDynamicCode(code.slug, {
+        target_url: formatUrl(trimmedTarget),
+        description,
+        rules: formattedRules
+      })
+      setSaved(updated)
+      setTarget(updated.metadata.target_url)
+      setRules(getRedirectRules(updated))
+      setMessage({ type: 'success', text: 'Saved. Printed codes follow the change on their next scan.' })
+      onUpdated?.(updated)
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update dynamic code' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Dynamic Code</h3>
+      <div className="space-y-3 text-sm">
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-gray-600">Short link:</span>
+          <a
+            href={shortUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-xs bg-gray-100 px-2 py-1 rounded truncate max-w-[240px] text-primary hover:text-primary-700"
+          >
+            {shortUrl}
+          </a>
+        </div>
+
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-gray-600">Scans:</span>
+          <Link href={`/analytics?code=${encodeURIComponent(code.slug)}`} className="text-primary hover:text-primary-700">
+            View analytics →
+          </Link>
+        </div>
+
+        <label className="block">
+          <span className="block text-gray-600 mb-1">{rules.length > 0 ? 'Fallback destination' : 'Destination'}</span>
+          <input
+            type="text"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className={`input-field py-2 ${trimmedTarget.length > 0 && !isTargetValid ? 'border-red-300' : ''}`}
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-gray-600 mb-1">Description</span>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g., Spring flyer"
+            maxLength={200}
+            className="input-field py-2"
+          />
+        </label>
+
+        <div>
+          <span className="block text-gray-600 mb-1">Routing rules</span>
+          <RedirectRulesEditor rules={rules} onChange={setRules} />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSaving || !isValid || !isChanged}
+          className="btn-primary text-sm w-full disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+
+        {message && (
+          <p className={message.type === 'success' ? 'text-green-600' : 'text-red-500'}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import type { ErrorCorrectionLevel, QRVersionMode, QRMaskPattern, UpdateQRConfigData } from '@/types'
+
+interface EncodingOptionsProps {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  versionMode: QRVersionMode;
+  version?: number;
+  maskPattern?: QRMaskPattern;
+  requiredLevel?: ErrorCorrectionLevel;
+  onChange: (changes: UpdateQRConfigData) => void;
+}
+
+const eccLevels: Array<{ level: ErrorCorrectionLevel; label: string; recovery: string }> = [
+  { level: 'L', label: 'Low', recovery: '~7%' },
+  { level: 'M', label: 'Medium', recovery: '~15%' },
+  { level: 'Q', label: 'Quartile', recovery: '~25%' },
+  { level: 'H', label: 'High', recovery: '~30%' }
+]
+
+const versionModes: Array<{ mode: QRVersionMode; label: string }> = [
+  { mode: 'auto', label: 'Auto' },
+  { mode: 'min', label: 'Minimum' },
+  { mode: 'fixed', label: 'Fixed' }
+]
+
+const maskPatterns: QRMaskPattern[] = [0, 1, 2, 3, 4, 5, 6, 7]
+
+export default function EncodingOptions({
+  errorCorrectionLevel,
+  versionMode,
+  version,
+  maskPattern,
+  requiredLevel,
+  onChange
+}: EncodingOptionsProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Encoding</h3>
+
+      {/* Error Correction Level */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Error Correction
+        </label>
+        <div className="grid grid-cols-4 gap-2">
+          {eccLevels.map(({ level, label, recovery }) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => onChange({ errorCorrectionLevel: level })}
+              disabled={requiredLevel !== undefined && requiredLevel !== level}
+              className={`p-2 rounded-lg border text-center transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                errorCorrectionLevel === level
+                  ? 'border-primary bg-primary-50 text-primary-700'
+                  : 'border-gray-200 hover:border-primary-300'
+              }`}
+              title={`${label}: recovers ${recovery} of damaged modules`}
+            >
+              <div className="font-semibold">{level}</div>
+              <div className="text-xs text-gray-500">{recovery}</div>
+            </button>
+          ))}
+        </div>
+        {requiredLevel && (
+          <p className="text-xs text-gray-500 mt-1">
+            This content type requires level {requiredLevel}
+          </p>
+        )}
+      </div>
+
+      {/* Symbol Version */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Symbol Version
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            value={versionMode}
+            onChange={(e) => {
+              const mode = e.target.value as QRVersionMode
+              onChange({ versionMode: mode, version: mode === 'auto' ? undefined : version ?? 1 })
+            }}
+            className="input-field py-2"
+          >
+            {versionModes.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+          {versionMode !== 'auto' && (
+            <input
+              type="number"
+              min={1}
+              max={40}
+              value={version ?? 1}
+              onChange={(e) => onChange({ version: Number(e.target.value) })}
+              className="input-field py-2 w-24"
+            />
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {versionMode === 'fixed'
+            ? 'Generation fails if the content does not fit this version'
+            : versionMode === 'min'
+              ? 'The symbol grows beyond this version when the content needs it'
+              : 'The smallest version that fits the content is used'}
+        </p>
+      </div>
+
+      {/* Mask Pattern */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Mask Pattern
+        </label>
+        <select
+          value={maskPattern ?? 'auto'}
+          onChange={(e) => onChange({
+            maskPattern: e.target.value === 'auto' ? undefined : Number(e.target.value) as QRMaskPattern
+          })}
+          className="input-field py-2"
+        >
+          <option value="auto">Auto (best penalty score)</option>
+          {maskPatterns.map((mask) => (
+            <option key={mask} value={mask}>Mask {mask}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -1,18 +1,55 @@
 'use client'
 
 import { useState } from 'react'
-import type { ExportFormat } from '@/types'
+import type { ExportFormat, QRVerificationResult, PDFExportOptions, ExportSizeOptions, LossyExportOptions } from '@/types'
+import { getExportPixels, MAX_LOSSY_EXPORT_PIXELS } from '@/lib/qr-size'
+import PrintLayoutOptions from './PrintLayoutOptions'
+import SizeOptions from './SizeOptions'
 
 interface ExportOptionsProps {
   onDownload: (format: ExportFormat) => void;
   disabled?: boolean;
+  verification?: QRVerificationResult | null;
+  blockUnscannable?: boolean;
+  onBlockUnscannableChange?: (block: boolean) => void;
+  pdfOptions?: PDFExportOptions;
+  onPdfOptionsChange?: (options: PDFExportOptions) => void;
+  sizeOptions?: ExportSizeOptions;
+  onSizeOptionsChange?: (options: ExportSizeOptions) => void;
+  moduleCount?: number;
+  margin?: number;
+  lossyOptions?: LossyExportOptions;
+  onLossyOptionsChange?: (options: LossyExportOptions) => void;
+  preferredFormat?: ExportFormat;
 }
 
-export default function ExportOptions({ onDownload, disabled = false }: ExportOptionsProps) {
+export default function ExportOptions({
+  onDownload,
+  disabled: notReady = false,
+  verification,
+  blockUnscannable = false,
+  onBlockUnscannableChange,
+  pdfOptions,
+  onPdfOptionsChange,
+  sizeOptions,
+  onSizeOptionsChange,
+  moduleCount,
+  margin = 0,
+  lossyOptions,
+  onLossyOptionsChange,
+  preferredFormat
+}: ExportOptionsProps) {
   const [isDownloading, setIsDownloading] = useState<ExportFormat | null>(null)
+  const failedCheck = verification != null && verification.status !== 'pass'
+  const disabled = notReady || (failedCheck && blockUnscannable)
+  // WebP and JPEG use the PNG size but the canvas encoders can't go as large
+  const exportPixels = sizeOptions ? getExportPixels(sizeOptions) : undefined
+  const lossyTooLarge = exportPixels !== undefined && exportPixels > MAX_LOSSY_EXPORT_PIXELS
+  const isFormatDisabled = (format: ExportFormat) =>
+    disabled || ((format === 'webp' || format === 'jpeg') && lossyTooLarge)
 
   const handleDownload = async (format: ExportFormat) => {
-    if (disabled) return
+    if (isFormatDisabled(format)) return
     
     setIsDownloading(format)
     try {
@@ -45,8 +82,26 @@ export default function ExportOptions({ onDownload, disabled = false }: ExportOp
     {
       format: 'pdf',
       label: 'PDF',
-      description: 'Print-ready document',
+      description: 'Vector document for print',
       icon: '📄'
+    },
+    {
+      format: 'webp',
+      label: 'WebP',
+      description: 'Small files for the web',
+      icon: '🌐'
+    },
+    {
+      format: 'jpeg',
+      label: 'JPEG',
+      description: 'Widely supported, no transparency',
+      icon: '📷'
+    },
+    {
+      format: 'eps',
+      label: 'EPS',
+      description: 'Vector file for print vendors',
+      icon: '🖨️'
     }
   ]
 
@@ -54,7 +109,7 @@ export default function ExportOptions({ onDownload, disabled = false }: ExportOp
     <div className="bg-white rounded-xl shadow-lg p-6">
       <h3 className="text-lg font-semibold mb-4">Export Options</h3>
       
-      {disabled && (
+      {notReady && (
         <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
           <div className="flex items-center">
             <svg className="w-5 h-5 text-yellow-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -67,22 +122,37 @@ export default function ExportOptions({ onDownload, disabled = false }: ExportOp
         </div>
       )}
       
+      {!notReady && failedCheck && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center">
+            <svg className="w-5 h-5 text-red-400 mr-2 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+            </svg>
+            <p className="text-sm text-red-800">
+              {blockUnscannable
+                ? 'Downloads are blocked because this code failed the scan check'
+                : 'This code failed the scan check and may not scan reliably'}
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="grid gap-3">
         {formats.map((formatInfo) => (
           <div
             key={formatInfo.format}
             className={`relative overflow-hidden ${
-              disabled ? 'opacity-50 cursor-not-allowed' : ''
+              isFormatDisabled(formatInfo.format) ? 'opacity-50 cursor-not-allowed' : ''
             }`}
           >
             <button
               onClick={() => handleDownload(formatInfo.format)}
-              disabled={disabled || isDownloading === formatInfo.format}
+              disabled={isFormatDisabled(formatInfo.format) || isDownloading === formatInfo.format}
               className={`w-full text-left p-4 border rounded-lg transition-all duration-200 ${
-                disabled
+                isFormatDisabled(formatInfo.format)
                   ? 'border-gray-200 bg-gray-50'
                   : 'border-gray-200 hover:border-primary hover:shadow-md bg-white'
-              } ${formatInfo.recommended ? 'ring-2 ring-primary-100' : ''}`}
+              } ${(preferredFormat ? formatInfo.format === preferredFormat : formatInfo.recommended) ? 'ring-2 ring-primary-100' : ''}`}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center">
@@ -92,7 +162,11 @@ export default function ExportOptions({ onDownload, disabled = false }: ExportOp
                       <h4 className="font-semibold text-gray-900">
                         {formatInfo.label}
                       </h4>
-                      {formatInfo.recommended && (
+                      {formatInfo.format === preferredFormat ? (
+                        <span className="ml-2 text-xs bg-primary text-white px-2 py-0.5 rounded-full">
+                          Preferred
+                        </span>
+                      ) : formatInfo.recommended && (
                         <span className="ml-2 text-xs bg-primary text-white px-2 py-0.5 rounded-full">
                           Recommended
                         </span>
@@ -128,17 +202,78 @@ export default function ExportOptions({ onDownload, disabled = false }: ExportOp
                 </div>
               </div>
             </button>
+
+            {formatInfo.format === 'png' && sizeOptions && onSizeOptionsChange && (
+              <div className="mt-2">
+                <SizeOptions options={sizeOptions} onChange={onSizeOptionsChange} moduleCount={moduleCount} margin={margin} />
+              </div>
+            )}
+
+            {(formatInfo.format === 'webp' || formatInfo.format === 'jpeg') && lossyOptions && onLossyOptionsChange && (
+              <div className="mt-2 space-y-2">
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  Quality
+                  <input
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={lossyOptions.quality}
+                    onChange={(e) => onLossyOptionsChange({ ...lossyOptions, quality: Number(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="w-8 text-right">{lossyOptions.quality}</span>
+                </label>
+                {formatInfo.format === 'jpeg' && (
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    Flatten transparency onto
+                    <input
+                      type="color"
+                      value={lossyOptions.flattenColor}
+                      onChange={(e) => onLossyOptionsChange({ ...lossyOptions, flattenColor: e.target.value })}
+                      className="h-6 w-10 border border-gray-200 rounded cursor-pointer"
+                    />
+                  </label>
+                )}
+                {lossyTooLarge ? (
+                  <p className="text-xs text-red-500">
+                    The PNG size is {exportPixels} px, but {formatInfo.label} goes up to {MAX_LOSSY_EXPORT_PIXELS} px. Lower the size or download a PNG.
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500">Uses the PNG size, up to {MAX_LOSSY_EXPORT_PIXELS} px</p>
+                )}
+              </div>
+            )}
+
+            {formatInfo.format === 'pdf' && pdfOptions && onPdfOptionsChange && (
+              <div className="mt-2">
+                <PrintLayoutOptions options={pdfOptions} onChange={onPdfOptionsChange} />
+              </div>
+            )}
           </div>
         ))}
       </div>
       
+      {onBlockUnscannableChange && (
+        <label className="flex items-center mt-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={blockUnscannable}
+            onChange={(e) => onBlockUnscannableChange(e.target.checked)}
+            className="mr-2 rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          Block downloads that fail the scan check
+        </label>
+      )}
+
       {/* Export Tips */}
       <div className="mt-6 p-4 bg-gray-50 rounded-lg">
         <h4 className="text-sm font-medium text-gray-900 mb-2">💡 Export Tips</h4>
         <ul className="text-xs text-gray-600 space-y-1">
-          <li>• <strong>PNG:</strong> Best for web use and social media</li>
+          <li>• <strong>PNG:</strong> Best for web use and social media; set millimetres or inches at 300/600 DPI for print</li>
           <li>• <strong>SVG:</strong> Perfect for scaling and web development</li>
-          <li>• <strong>PDF:</strong> Ideal for printing and document sharing</li>
+          <li>• <strong>PDF:</strong> Vector output for print, at an exact size in millimetres or as sheets of labels</li>
+          <li>• <strong>WebP / JPEG:</strong> Smaller files for websites; JPEG fills transparent areas with a solid color</li>
+          <li>• <strong>EPS:</strong> Vector output for print vendors, at the same printed size as the PNG</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,112 @@
+'use client'
+
+import type { EyeShape, QRStyle, UpdateQRConfigData } from '@/types'
+import { DEFAULT_EYE_SHAPES } from '@/lib/qr-renderer'
+
+interface EyeOptionsProps {
+  style: QRStyle;
+  foregroundColor: string;
+  eyeFrameShape?: EyeShape;
+  eyeBallShape?: EyeShape;
+  eyeFrameColor?: string;
+  eyeBallColor?: string;
+  onChange: (changes: UpdateQRConfigData) => void;
+}
+
+const eyeShapes: Array<{ shape: EyeShape; label: string; radius: string }> = [
+  { shape: 'square', label: 'Square', radius: '0' },
+  { shape: 'rounded', label: 'Rounded', radius: '30%' },
+  { shape: 'circle', label: 'Circle', radius: '50%' },
+  { shape: 'leaf', label: 'Leaf', radius: '50% 0' }
+]
+
+export default function EyeOptions({
+  style,
+  foregroundColor,
+  eyeFrameShape,
+  eyeBallShape,
+  eyeFrameColor,
+  eyeBallColor,
+  onChange
+}: EyeOptionsProps) {
+  const frameShape = eyeFrameShape ?? DEFAULT_EYE_SHAPES[style]
+  const ballShape = eyeBallShape ?? DEFAULT_EYE_SHAPES[style]
+  const frameColor = eyeFrameColor ?? foregroundColor
+  const ballColor = eyeBallColor ?? frameColor
+
+  const renderShapeButtons = (selected: EyeShape, onSelect: (shape: EyeShape) => void, color: string) => (
+    <div className="grid grid-cols-4 gap-2">
+      {eyeShapes.map(({ shape, label, radius }) => (
+        <button
+          key={shape}
+          type="button"
+          onClick={() => onSelect(shape)}
+          className={`p-2 rounded-lg border flex flex-col items-center gap-1 transition-colors duration-200 ${
+            selected === shape
+              ? 'border-primary bg-primary-50 text-primary-700'
+              : 'border-gray-200 hover:border-primary-300'
+          }`}
+        >
+          <div className="w-6 h-6" style={{ backgroundColor: color, borderRadius: radius }} />
+          <span className="text-xs">{label}</span>
+        </button>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Eyes</h3>
+
+      {/* Frame */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">Outer Frame</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={frameColor}
+              onChange={(e) => onChange({ eyeFrameColor: e.target.value })}
+              className="w-8 h-8 rounded border-2 border-gray-300 cursor-pointer"
+            />
+            {eyeFrameColor && (
+              <button
+                type="button"
+                onClick={() => onChange({ eyeFrameColor: undefined })}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        {renderShapeButtons(frameShape, (shape) => onChange({ eyeFrameShape: shape }), frameColor)}
+      </div>
+
+      {/* Ball */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">Inner Ball</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={ballColor}
+              onChange={(e) => onChange({ eyeBallColor: e.target.value })}
+              className="w-8 h-8 rounded border-2 border-gray-300 cursor-pointer"
+            />
+            {eyeBallColor && (
+              <button
+                type="button"
+                onClick={() => onChange({ eyeBallColor: undefined })}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        {renderShapeButtons(ballShape, (shape) => onChange({ eyeBallShape: shape }), ballColor)}
+      </div>
+    </div>
+  )
+}
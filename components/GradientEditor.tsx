@@ -0,0 +1,146 @@
+'use client'
+
+import type { QRGradient, GradientType } from '@/types'
+
+interface GradientEditorProps {
+  label: string;
+  gradient?: QRGradient;
+  baseColor: string;
+  onChange: (gradient: QRGradient | undefined) => void;
+}
+
+const MAX_STOPS = 6
+
+export default function GradientEditor({ label, gradient, baseColor, onChange }: GradientEditorProps) {
+  const enableGradient = () => {
+    onChange({
+      type: 'linear',
+      angle: 45,
+      stops: [
+        { offset: 0, color: baseColor },
+        { offset: 1, color: baseColor }
+      ]
+    })
+  }
+
+  if (!gradient) {
+    return (
+      <button
+        type="button"
+        onClick={enableGradient}
+        className="text-xs bg-gray-100 hover:bg-gray-200 px-2 py-1 rounded transition-colors duration-200"
+      >
+        + {label} gradient
+      </button>
+    )
+  }
+
+  const updateStop = (index: number, changes: { offset?: number; color?: string }) => {
+    onChange({
+      ...gradient,
+      stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop))
+    })
+  }
+
+  const addStop = () => {
+    const last = gradient.stops[gradient.stops.length - 1]
+    onChange({
+      ...gradient,
+      stops: [...gradient.stops, { offset: 1, color: last?.color ?? baseColor }]
+    })
+  }
+
+  const removeStop = (index: number) => {
+    onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) })
+  }
+
+  // CSS preview uses the same angle convention as the renderer (0deg = left to right)
+  const sortedStops = [...gradient.stops].sort((a, b) => a.offset - b.offset)
+  const cssStops = sortedStops.map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`).join(', ')
+  const previewBackground = gradient.type === 'radial'
+    ? `radial-gradient(circle, ${cssStops})`
+    : `linear-gradient(${gradient.angle + 90}deg, ${cssStops})`
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">{label} Gradient</span>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="text-xs text-red-500 hover:text-red-700"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="h-6 rounded border border-gray-300" style={{ background: previewBackground }} />
+
+      <div className="flex items-center gap-2">
+        <select
+          value={gradient.type}
+          onChange={(e) => onChange({ ...gradient, type: e.target.value as GradientType })}
+          className="input-field py-1 text-sm"
+        >
+          <option value="linear">Linear</option>
+          <option value="radial">Radial</option>
+        </select>
+        {gradient.type === 'linear' && (
+          <label className="flex items-center gap-2 text-xs text-gray-600 whitespace-nowrap">
+            <input
+              type="range"
+              min={0}
+              max={359}
+              value={gradient.angle}
+              onChange={(e) => onChange({ ...gradient, angle: Number(e.target.value) })}
+            />
+            {gradient.angle}°
+          </label>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {gradient.stops.map((stop, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={stop.color}
+              onChange={(e) => updateStop(index, { color: e.target.value })}
+              className="w-8 h-8 rounded border-2 border-gray-300 cursor-pointer"
+            />
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(stop.offset * 100)}
+              onChange={(e) => updateStop(index, { offset: Number(e.target.value) / 100 })}
+              className="flex-1"
+            />
+            <span className="text-xs font-mono text-gray-600 w-10 text-right">
+              {Math.round(stop.offset * 100)}%
+            </span>
+            <button
+              type="button"
+              onClick={() => removeStop(index)}
+              disabled={gradient.stops.length <= 2}
+              className="text-xs text-gray-400 hover:text-red-500 disabled:opacity-30"
+              title="Remove stop"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {gradient.stops.length < MAX_STOPS && (
+        <button
+          type="button"
+          onClick={addStop}
+          className="text-xs bg-gray-100 hover:bg-gray-200 px-2 py-1 rounded transition-colors duration-200"
+        >
+          + Add stop
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { CosmicResponse, ExportFormat, QRHistory } from '@/types'
+import { generateQRCode, generateQRCodeSVG, downloadQRCode } from '@/lib/qr-generator'
+import { deleteHistory } from '@/lib/api-client'
+import { getHistoryConfig, parseHistoryPage, hasFullConfig, isExactReproduction } from '@/lib/qr-history'
+import type { HistorySearchParams } from '@/lib/qr-history'
+import { QR_STYLES, ALL_EXPORT_FORMATS, EXPORT_FORMAT_NAMES } from '@/lib/qr-validation'
+
+interface HistoryBrowserProps {
+  history: CosmicResponse<QRHistory>;
+  filters: HistorySearchParams;
+}
+
+const THUMBNAIL_SIZE = 160
+
+// History page URL with some filters changed; any filter change starts again at page 1
+function buildHref(filters: HistorySearchParams, changes: HistorySearchParams): string {
+  const params = new URLSearchParams()
+  const next: HistorySearchParams = { ...filters, page: undefined, ...changes }
+  for (const [key, value] of Object.entries(next)) {
+    if (value) params.set(key, value)
+  }
+  const query = params.toString()
+  return query ? `/history?${query}` : '/history'
+}
+
+function HistoryCard({ entry, onDeleted }: { entry: QRHistory; onDeleted: () => void }) {
+  const config = useMemo(() => getHistoryConfig(entry), [entry])
+  const [thumbnail, setThumbnail] = useState('')
+  const [format, setFormat] = useState<ExportFormat>(entry.metadata.export_format)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Thumbnails are rendered from the stored config rather than saved as images
+  useEffect(() => {
+    let cancelled = false
+    generateQRCode({ ...config, size: THUMBNAIL_SIZE })
+      .then((dataUrl) => {
+        if (!cancelled) setThumbnail(dataUrl)
+      })
+      .catch((error) => console.warn('Failed to render history thumbnail:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [config])
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    setError(null)
+    try {
+      const dataUrl = await generateQRCode(config)
+      let downloadUrl = dataUrl
+      if (format === 'svg') {
+        const svg = await generateQRCodeSVG(config)
+        downloadUrl = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+      }
+
+      await downloadQRCode(downloadUrl, `qr-code-${Date.now()}`, format, config)
+
+      if (downloadUrl !== dataUrl) {
+        setTimeout(() => URL.revokeObjectURL(downloadUrl), 1000)
+      }
+    } catch (error) {
+      console.error('Error downloading QR code:', error)
+      setError(error instanceof Error ? error.message : 'Failed to download QR code')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this code from your history?')) return
+
+    setIsDeleting(true)
+    setError(null)
+    try {
+      await deleteHistory(entry.id)
+      onDeleted()
+    } catch (error) {
+      console.error('Error deleting QR history:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete history entry')
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-4 flex flex-col">
+      <div className="aspect-square bg-gray-50 rounded-lg flex items-center justify-center mb-3">
+        {thumbnail ? (
+          <img src={thumbnail} alt={`QR code for ${config.text}`} className="w-40 h-40" />
+        ) : (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        )}
+      </div>
+
+      <p className="font-mono text-xs bg-gray-100 px-2 py-1 rounded truncate" title={config.text}>
+        {config.text}
+      </p>
+      <div className="flex justify-between text-xs text-gray-500 mt-2">
+        <span className="capitalize">{config.style} · {EXPORT_FORMAT_NAMES[entry.metadata.export_format] ?? entry.metadata.export_format}</span>
+        <span>{new Date(entry.metadata.generated_at).toLocaleDateString()}</span>
+      </div>
+      {entry.metadata.template_slug && (
+        <p className="text-xs text-gray-500 mt-1 truncate">Template: {entry.metadata.template_slug}</p>
+      )}
+      {!hasFullConfig(entry) ? (
+        <p className="text-xs text-yellow-700 mt-1">
+          Saved before full settings were kept: only content, style and colors are restored
+        </p>
+      ) : !isExactReproduction(entry) && (
+        <p className="text-xs text-yellow-700 mt-1">
+          Made with an earlier renderer, so details may differ slightly
+        </p>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="input-field py-1 text-sm flex-1"
+        >
+          {ALL_EXPORT_FORMATS.map((option) => (
+            <option key={option} value={option}>
+              {EXPORT_FORMAT_NAMES[option]}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleDownload} disabled={isDownloading} className="btn-secondary text-sm">
+          {isDownloading ? 'Downloading...' : 'Download'}
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center mt-3 text-sm">
+        <Link href={`/?history=${entry.id}`} className="text-primary hover:text-primary-700 font-medium">
+          Open in wizard →
+        </Link>
+        <button
+          onClick={handleDelete}
+          disabled={isDeleting}
+          className="text-red-500 hover:text-red-700 disabled:opacity-40"
+        >
+          {isDeleting ? 'Deleting...' : 'Delete'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
+
+export default function HistoryBrowser({ history, filters }: HistoryBrowserProps) {
+  const router = useRouter()
+  const [search, setSearch] = useState(filters.q ?? '')
+  const page = parseHistoryPage(filters.page)
+  const pageCount = Math.max(1, Math.ceil(history.total / history.limit))
+  const hasFilters = Boolean(filters.q || filters.style || filters.format || filters.from || filters.to)
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          router.push(buildHref(filters, { q: search.trim() || undefined }))
+        }}
+        className="bg-white rounded-xl shadow-lg p-6 flex flex-wrap items-center gap-4"
+      >
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search content, e.g. example.com"
+          className="input-field py-1 text-sm flex-1 min-w-[200px]"
+        />
+
+        <select
+          value={filters.style ?? ''}
+          onChange={(e) => router.push(buildHref(filters, { style: e.target.value || undefined }))}
+          className="input-field py-1 text-sm w-auto capitalize"
+        >
+          <option value="">All styles</option>
+          {QR_STYLES.map((style) => (
+            <option key={style} value={style}>
+              {style}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.format ?? ''}
+          onChange={(e) => router.push(buildHref(filters, { format: e.target.value || undefined }))}
+          className="input-field py-1 text-sm w-auto"
+        >
+          <option value="">All formats</option>
+          {ALL_EXPORT_FORMATS.map((format) => (
+            <option key={format} value={format}>
+              {EXPORT_FORMAT_NAMES[format]}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => router.push(buildHref(filters, { from: e.target.value || undefined }))}
+            className="input-field py-1 text-sm w-auto"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => router.push(buildHref(filters, { to: e.target.value || undefined }))}
+            className="input-field py-1 text-sm w-auto"
+          />
+        </label>
+
+        {hasFilters && (
+          <Link href="/history" className="text-sm text-primary hover:text-primary-700 ml-auto">
+            Clear filters
+          </Link>
+        )}
+      </form>
+
+      {/* Entries */}
+      {history.objects.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+          {hasFilters ? (
+            'No codes match these filters.'
+          ) : (
+            <>
+              No codes yet.{' '}
+              <Link href="/" className="text-primary hover:text-primary-700">
+                Create one
+              </Link>{' '}
+              and it shows up here once downloaded.
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {history.objects.map((entry) => (
+            <HistoryCard key={entry.id} entry={entry} onDeleted={() => router.refresh()} />
+          ))}
+        </div>
+      )}
+
+      {/* Paging */}
+      {pageCount > 1 && (
+        <div className="flex justify-between items-center text-sm">
+          {page > 1 ? (
+            <Link href={buildHref(filters, { page: String(page - 1) })} className="text-primary hover:text-primary-700">
+              ← Newer
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-600">
+            Page {page} of {pageCount} · {history.total} codes
+          </span>
+          {page < pageCount ? (
+            <Link href={buildHref(filters, { page: String(page + 1) })} className="text-primary hover:text-primary-700">
+              Older →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
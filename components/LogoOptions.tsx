@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import type { ErrorCorrectionLevel, LogoShape, UpdateQRConfigData } from '@/types'
+import { MAX_LOGO_SIZE, DEFAULT_LOGO_PADDING, getLogoSize } from '@/lib/qr-renderer'
+
+interface LogoOptionsProps {
+  logoUrl?: string;
+  logoSize?: number;
+  logoPadding?: number;
+  logoShape?: LogoShape;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  onChange: (changes: UpdateQRConfigData) => void;
+}
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024
+
+const logoShapes: Array<{ shape: LogoShape; label: string }> = [
+  { shape: 'square', label: 'Square' },
+  { shape: 'circle', label: 'Circle' },
+  { shape: 'none', label: 'Overlay' }
+]
+
+export default function LogoOptions({
+  logoUrl,
+  logoSize,
+  logoPadding,
+  logoShape = 'square',
+  errorCorrectionLevel,
+  onChange
+}: LogoOptionsProps) {
+  const [urlInput, setUrlInput] = useState('')
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  const maxSize = MAX_LOGO_SIZE[errorCorrectionLevel]
+  const effectiveSize = getLogoSize({ logoSize, errorCorrectionLevel })
+
+  // Read an uploaded file as a data URL so every export can embed it
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    if (!file.type.startsWith('image/')) {
+      setUploadError('Please choose an image file')
+      return
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setUploadError('Logo must be smaller than 2 MB')
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      setUploadError(null)
+      onChange({ logoUrl: reader.result as string })
+    }
+    reader.onerror = () => setUploadError('Failed to read logo file')
+    reader.readAsDataURL(file)
+  }
+
+  const handleUrlApply = () => {
+    const trimmed = urlInput.trim()
+    if (trimmed) {
+      setUploadError(null)
+      onChange({ logoUrl: trimmed })
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Logo</h3>
+
+      {/* Logo Source */}
+      <div className="space-y-3 mb-6">
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/svg+xml,image/webp"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-600"
+        />
+        <div className="flex gap-2">
+          <input
+            type="url"
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            placeholder="or paste an image URL"
+            className="input-field py-2"
+          />
+          <button type="button" onClick={handleUrlApply} className="btn-secondary text-sm">
+            Apply
+          </button>
+        </div>
+        {uploadError && (
+          <p className="text-sm text-red-500">{uploadError}</p>
+        )}
+      </div>
+
+      {logoUrl && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <img src={logoUrl} alt="Logo" className="w-12 h-12 object-contain border rounded" />
+            <button
+              type="button"
+              onClick={() => onChange({ logoUrl: undefined })}
+              className="text-sm text-red-500 hover:text-red-700"
+            >
+              Remove logo
+            </button>
+          </div>
+
+          {/* Logo Size */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Size: {Math.round(effectiveSize * 100)}% of code
+            </label>
+            <input
+              type="range"
+              min={0.05}
+              max={maxSize}
+              step={0.01}
+              value={effectiveSize}
+              onChange={(e) => onChange({ logoSize: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Error correction {errorCorrectionLevel} allows up to {Math.round(maxSize * 100)}%. Use a higher level for a larger logo.
+            </p>
+          </div>
+
+          {/* Knock-out Shape */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Background
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {logoShapes.map(({ shape, label }) => (
+                <button
+                  key={shape}
+                  type="button"
+                  onClick={() => onChange({ logoShape: shape })}
+                  className={`p-2 rounded-lg border text-sm transition-colors duration-200 ${
+                    logoShape === shape
+                      ? 'border-primary bg-primary-50 text-primary-700'
+                      : 'border-gray-200 hover:border-primary-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Padding */}
+          {logoShape !== 'none' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Padding: {logoPadding ?? DEFAULT_LOGO_PADDING} modules
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={4}
+                step={0.5}
+                value={logoPadding ?? DEFAULT_LOGO_PADDING}
+                onChange={(e) => onChange({ logoPadding: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import type { QRPattern, PatternDirection, UpdateQRConfigData } from '@/types'
+
+interface PatternOptionsProps {
+  pattern: QRPattern;
+  patternColor?: string;
+  patternDirection?: PatternDirection;
+  foregroundColor: string;
+  onChange: (changes: UpdateQRConfigData) => void;
+}
+
+const patterns: Array<{ id: QRPattern; name: string; description: string }> = [
+  { id: 'solid', name: 'Solid', description: 'Plain foreground color' },
+  { id: 'gradient', name: 'Gradient', description: 'Blend into a second color' },
+  { id: 'dots', name: 'Dots', description: 'Dot texture inside modules' },
+  { id: 'lines', name: 'Lines', description: 'Join neighbouring modules' }
+]
+
+export default function PatternOptions({
+  pattern,
+  patternColor,
+  patternDirection = 'horizontal',
+  foregroundColor,
+  onChange
+}: PatternOptionsProps) {
+  const usesColor = pattern === 'gradient' || pattern === 'dots'
+  const usesDirection = pattern === 'gradient' || pattern === 'lines'
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Pattern</h3>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {patterns.map(({ id, name, description }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onChange({ pattern: id })}
+            className={`p-3 rounded-lg border text-left transition-colors duration-200 ${
+              pattern === id
+                ? 'border-primary bg-primary-50 text-primary-700'
+                : 'border-gray-200 hover:border-primary-300'
+            }`}
+          >
+            <div className="font-medium text-sm">{name}</div>
+            <div className="text-xs text-gray-500">{description}</div>
+          </button>
+        ))}
+      </div>
+
+      {usesColor && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {pattern === 'gradient' ? 'Gradient End Color' : 'Dot Color'}
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={patternColor ?? foregroundColor}
+              onChange={(e) => onChange({ patternColor: e.target.value })}
+              className="w-8 h-8 rounded border-2 border-gray-300 cursor-pointer"
+            />
+            {patternColor ? (
+              <button
+                type="button"
+                onClick={() => onChange({ patternColor: undefined })}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Use automatic color
+              </button>
+            ) : (
+              <span className="text-xs text-gray-500">Automatic</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {usesDirection && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Direction
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['horizontal', 'vertical'] as const).map((direction) => (
+              <button
+                key={direction}
+                type="button"
+                onClick={() => onChange({ patternDirection: direction })}
+                className={`p-2 rounded-lg border text-sm capitalize transition-colors duration-200 ${
+                  patternDirection === direction
+                    ? 'border-primary bg-primary-50 text-primary-700'
+                    : 'border-gray-200 hover:border-primary-300'
+                }`}
+              >
+                {direction}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import type { QRPayload, ValidationIssue, WifiSecurity } from '@/types'
+import { PAYLOAD_TYPE_NAMES } from '@/lib/qr-payloads'
+
+interface PayloadFormProps {
+  payload: Exclude<QRPayload, { type: 'url' }>;
+  issues: ValidationIssue[];
+  onChange: (payload: QRPayload) => void;
+  onSubmit: () => void;
+}
+
+interface FieldProps {
+  label: string;
+  name: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  type?: string;
+  placeholder?: string;
+  multiline?: boolean;
+}
+
+function Field({ label, name, value, onChange, error, type = 'text', placeholder, multiline = false }: FieldProps) {
+  const id = `payload-${name}`
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      {multiline ? (
+        <textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={3}
+          className={`input-field ${error ? 'border-red-300' : ''}`}
+        />
+      ) : (
+        <input
+          id={id}
+          type={type}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={`input-field ${error ? 'border-red-300' : ''}`}
+        />
+      )}
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  )
+}
+
+export default function PayloadForm({ payload, issues, onChange, onSubmit }: PayloadFormProps) {
+  const [touched, setTouched] = useState<Record<string, boolean>>({})
+  const [submitted, setSubmitted] = useState(false)
+
+  const errorFor = (field: string) =>
+    submitted || touched[field] ? issues.find((issue) => issue.field === field)?.message : undefined
+  const formError = issues.find((issue) => issue.field === '')?.message
+
+  // Update one field and remember it was edited so its error can show
+  const update = (changes: Record<string, string | boolean>) => {
+    setTouched({ ...touched, ...Object.fromEntries(Object.keys(changes).map((key) => [key, true])) })
+    onChange({ ...payload, ...changes } as QRPayload)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitted(true)
+    if (issues.length === 0) {
+      onSubmit()
+    }
+  }
+
+  const field = (name: string, label: string, options: Partial<FieldProps> = {}) => (
+    <Field
+      label={label}
+      name={name}
+      value={String((payload as unknown as Record<string, unknown>)[name] ?? '')}
+      onChange={(value) => update({ [name]: value })}
+      error={errorFor(name)}
+      {...options}
+    />
+  )
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full">
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="space-y-4">
+          {payload.type === 'wifi' && (
+            <>
+              {field('ssid', 'Network Name (SSID)', { placeholder: 'MyNetwork' })}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Security</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([['WPA', 'WPA/WPA2/WPA3'], ['WEP', 'WEP'], ['nopass', 'None']] as Array<[WifiSecurity, string]>).map(([security, label]) => (
+                    <button
+                      key={security}
+                      type="button"
+                      onClick={() => update({ security })}
+                      className={`p-2 rounded-lg border text-sm transition-colors duration-200 ${
+                        payload.security === security
+                          ? 'border-primary bg-primary-50 text-primary-700'
+                          : 'border-gray-200 hover:border-primary-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {payload.security !== 'nopass' && field('password', 'Password', { type: 'password' })}
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={payload.hidden}
+                  onChange={(e) => update({ hidden: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                Hidden network
+              </label>
+            </>
+          )}
+
+          {(payload.type === 'vcard' || payload.type === 'mecard') && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {field('firstName', 'First Name')}
+                {field('lastName', 'Last Name')}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {field('organization', 'Organization')}
+                {payload.type === 'vcard' && field('jobTitle', 'Job Title')}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {field('phone', 'Phone', { type: 'tel', placeholder: '+1 555 123 4567' })}
+                {field('email', 'Email', { type: 'email' })}
+              </div>
+              {field('website', 'Website', { placeholder: 'example.com' })}
+              {field('address', 'Address')}
+              {field('note', 'Note', { multiline: true })}
+            </>
+          )}
+
+          {payload.type === 'email' && (
+            <>
+              {field('to', 'To', { placeholder: 'name@example.com' })}
+              {field('subject', 'Subject')}
+              {field('body', 'Message', { multiline: true })}
+            </>
+          )}
+
+          {payload.type === 'sms' && (
+            <>
+              {field('phone', 'Phone Number', { type: 'tel', placeholder: '+1 555 123 4567' })}
+              {field('message', 'Message', { multiline: true })}
+            </>
+          )}
+
+          {payload.type === 'geo' && (
+            <div className="grid grid-cols-2 gap-4">
+              {field('latitude', 'Latitude', { placeholder: '40.7128' })}
+              {field('longitude', 'Longitude', { placeholder: '-74.0060' })}
+            </div>
+          )}
+
+          {payload.type === 'event' && (
+            <>
+              {field('title', 'Event Title')}
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={payload.allDay}
+                  onChange={(e) => update({
+                    allDay: e.target.checked,
+                    start: e.target.checked ? payload.start.slice(0, 10) : payload.start,
+                    end: e.target.checked ? payload.end.slice(0, 10) : payload.end
+                  })}
+                  className="mr-2 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                All-day event
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                {field('start', 'Starts', { type: payload.allDay ? 'date' : 'datetime-local' })}
+                {field('end', 'Ends', { type: payload.allDay ? 'date' : 'datetime-local' })}
+              </div>
+              {field('location', 'Location')}
+              {field('description', 'Description', { multiline: true })}
+            </>
+          )}
+
+          {payload.type === 'text' && field('text', 'Text', { multiline: true, placeholder: 'Any text up to a few thousand characters' })}
+
+          {payload.type === 'epc' && (
+            <>
+              {field('name', 'Beneficiary Name', { placeholder: 'Red Cross of Belgium' })}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">{field('iban', 'IBAN', { placeholder: 'BE72 0000 0000 1616' })}</div>
+                {field('bic', 'BIC (optional)', { placeholder: 'BPOTBEB1' })}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {field('amount', 'Amount (EUR)', { type: 'number', placeholder: '25.00' })}
+                {field('purpose', 'Purpose Code', { placeholder: 'CHAR' })}
+              </div>
+              {field('reference', 'Creditor Reference', { placeholder: 'RF18 5390 0754 7034' })}
+              {field('remittance', 'Remittance Text', { placeholder: 'Urgency fund', multiline: true })}
+              {field('information', 'Note to Payer')}
+              <p className="text-xs text-gray-500">
+                EPC payment codes always use error correction level M, as the standard requires.
+              </p>
+            </>
+          )}
+
+          {payload.type === 'upi' && (
+            <>
+              {field('vpa', 'UPI ID', { placeholder: 'merchant@okbank' })}
+              {field('name', 'Payee Name')}
+              <div className="grid grid-cols-2 gap-4">
+                {field('amount', 'Amount (INR)', { type: 'number', placeholder: 'Leave empty to let the payer choose' })}
+                {field('reference', 'Transaction Reference')}
+              </div>
+              {field('note', 'Note')}
+            </>
+          )}
+
+          {payload.type === 'bitcoin' && (
+            <>
+              {field('address', 'Bitcoin Address', { placeholder: 'bc1q…' })}
+              {field('amount', 'Amount (BTC)', { type: 'number', placeholder: '0.001' })}
+              {field('label', 'Label')}
+              {field('message', 'Message')}
+            </>
+          )}
+
+          {formError && <p className="text-red-500 text-sm">{formError}</p>}
+
+          <div className="pt-4">
+            <button
+              type="submit"
+              className="w-full py-3 px-6 rounded-lg font-medium transition-all duration-200 bg-primary text-white hover:bg-primary-dark shadow-lg hover:shadow-xl"
+            >
+              Continue with {PAYLOAD_TYPE_NAMES[payload.type]}
+            </button>
+          </div>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import type { PayloadType } from '@/types'
+import { PAYLOAD_TYPE_NAMES } from '@/lib/qr-payloads'
+
+interface PayloadTypeSelectorProps {
+  selectedType: PayloadType;
+  onSelect: (type: PayloadType) => void;
+}
+
+const payloadIcons: Record<PayloadType, string> = {
+  url: '🔗',
+  wifi: '📶',
+  vcard: '👤',
+  mecard: '📇',
+  email: '✉️',
+  sms: '💬',
+  geo: '📍',
+  event: '📅',
+  text: '📝',
+  epc: '💶',
+  upi: '📲',
+  bitcoin: '₿'
+}
+
+export default function PayloadTypeSelector({ selectedType, onSelect }: PayloadTypeSelectorProps) {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-6 gap-2 mb-6">
+      {(Object.keys(PAYLOAD_TYPE_NAMES) as PayloadType[]).map((id) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onSelect(id)}
+          className={`p-2 rounded-lg border text-center transition-colors duration-200 ${
+            selectedType === id
+              ? 'border-primary bg-primary-50 text-primary-700'
+              : 'border-gray-200 bg-white hover:border-primary-300'
+          }`}
+        >
+          <div className="text-xl">{payloadIcons[id]}</div>
+          <div className="text-xs font-medium mt-1">{PAYLOAD_TYPE_NAMES[id]}</div>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import type { ExportFormat, QRStyle, UserPreferencesData } from '@/types'
+import { savePreferences } from '@/lib/api-client'
+import { QR_STYLES, ALL_EXPORT_FORMATS, EXPORT_FORMAT_NAMES } from '@/lib/qr-validation'
+
+interface PreferencesPanelProps {
+  preferences: UserPreferencesData;
+}
+
+export default function PreferencesPanel({ preferences }: PreferencesPanelProps) {
+  const [defaultStyle, setDefaultStyle] = useState<QRStyle>(preferences.default_style ?? 'square')
+  const [foreground, setForeground] = useState(preferences.preferred_colors?.[0] ?? '#000000')
+  const [background, setBackground] = useState(preferences.preferred_colors?.[1] ?? '#ffffff')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(preferences.export_format ?? 'png')
+  const [autoDownload, setAutoDownload] = useState(preferences.auto_download ?? false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Every field is sent, since saving updates the existing preferences in place
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await savePreferences({
+        default_style: defaultStyle,
+        preferred_colors: [foreground, background],
+        export_format: exportFormat,
+        auto_download: autoDownload
+      })
+      setMessage({ type: 'success', text: 'Preferences saved! New codes start from these settings.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save preferences' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">Default Style</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {QR_STYLES.map((style) => (
+            <button
+              key={style}
+              type="button"
+              onClick={() => setDefaultStyle(style)}
+              className={`px-3 py-2 rounded-lg border text-sm capitalize transition-colors duration-200 ${
+                defaultStyle === style
+                  ? 'border-primary bg-primary-50 text-primary-700'
+                  : 'border-gray-200 hover:border-primary-300'
+              }`}
+            >
+              {style}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">Default Colors</h3>
+        <div className="grid grid-cols-2 gap-4">
+          {([
+            ['Foreground', foreground, setForeground],
+            ['Background', background, setBackground]
+          ] as const).map(([label, color, setColor]) => (
+            <div key={label}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-8 h-8 rounded border-2 border-gray-300 cursor-pointer"
+                />
+                <span className="text-sm font-mono text-gray-600">{color}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">Downloads</h3>
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {ALL_EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => setExportFormat(format)}
+              className={`px-3 py-2 rounded-lg border text-sm transition-colors duration-200 ${
+                exportFormat === format
+                  ? 'border-primary bg-primary-50 text-primary-700'
+                  : 'border-gray-200 hover:border-primary-300'
+              }`}
+            >
+              {EXPORT_FORMAT_NAMES[format]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-start gap-2 text-sm text-gray-700 mt-4">
+          <input
+            type="checkbox"
+            checked={autoDownload}
+            onChange={(e) => setAutoDownload(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          <span>
+            Download automatically
+            <span className="block text-xs text-gray-500">
+              Saves the code in your preferred format as soon as its preview is ready
+            </span>
+          </span>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button type="submit" disabled={isSaving} className="btn-primary disabled:opacity-50">
+          {isSaving ? 'Saving...' : 'Save Preferences'}
+        </button>
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-500'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import type { PDFExportOptions, PDFPageSize, PDFOrientation, PDFSheetLayout, PrintLayoutPreset, PrintCaptionSource } from '@/types'
+import {
+  getMaxPDFCodeSize,
+  getSheetGeometry,
+  LABEL_SHEETS,
+  DEFAULT_SHEET_LAYOUT,
+  MIN_PDF_CODE_SIZE,
+  MAX_SHEET_COLUMNS,
+  MAX_SHEET_ROWS,
+  MAX_PDF_BLEED
+} from '@/lib/qr-pdf'
+
+interface PrintLayoutOptionsProps {
+  options: PDFExportOptions;
+  onChange: (options: PDFExportOptions) => void;
+  // CSV columns that can be printed as captions
+  captionFields?: string[];
+}
+
+const pdfPageSizes: Array<{ size: PDFPageSize; label: string }> = [
+  { size: 'a4', label: 'A4' },
+  { size: 'a5', label: 'A5' },
+  { size: 'letter', label: 'US Letter' },
+  { size: 'legal', label: 'US Legal' },
+  { size: 'fit', label: 'Fit to code' }
+]
+
+const labelPresets = Object.keys(LABEL_SHEETS) as Array<keyof typeof LABEL_SHEETS>
+
+export default function PrintLayoutOptions({ options, onChange, captionFields }: PrintLayoutOptionsProps) {
+  const { layout } = options
+  const isLabelSheet = layout != null && layout.preset !== 'grid'
+  const geometry = getSheetGeometry(options)
+  const tooSmall = geometry.codeSize < MIN_PDF_CODE_SIZE
+
+  // A single code must stay on the page; sheet codes shrink to fit their cells
+  const updateOptions = (changes: Partial<PDFExportOptions>) => {
+    const next = { ...options, ...changes }
+    onChange(next.layout ? next : { ...next, codeSize: Math.min(next.codeSize, getMaxPDFCodeSize(next)) })
+  }
+
+  const updateLayout = (changes: Partial<PDFSheetLayout>) => {
+    if (layout) {
+      updateOptions({ layout: { ...layout, ...changes } })
+    }
+  }
+
+  const handlePresetChange = (value: string) => {
+    if (value === 'single') {
+      updateOptions({ layout: undefined })
+      return
+    }
+    const preset = value as PrintLayoutPreset
+    const nextLayout = { ...DEFAULT_SHEET_LAYOUT, ...layout, preset }
+    // Label stock dictates the page
+    if (preset !== 'grid') {
+      updateOptions({ layout: nextLayout, pageSize: LABEL_SHEETS[preset].pageSize, orientation: 'portrait' })
+    } else {
+      updateOptions({ layout: nextLayout })
+    }
+  }
+
+  const handleCaptionChange = (value: string) => {
+    if (value === 'none' || value === 'payload') {
+      updateLayout({ caption: value as PrintCaptionSource, captionField: undefined })
+    } else {
+      updateLayout({ caption: 'field', captionField: value })
+    }
+  }
+
+  const captionValue = layout?.caption === 'field' ? layout.captionField ?? 'none' : layout?.caption ?? 'none'
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={options.pageSize}
+          onChange={(e) => updateOptions({ pageSize: e.target.value as PDFPageSize })}
+          disabled={isLabelSheet}
+          className="input-field py-1 text-sm disabled:opacity-50"
+          title="Page size"
+        >
+          {pdfPageSizes.map(({ size, label }) => (
+            <option key={size} value={size}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={options.orientation}
+          onChange={(e) => updateOptions({ orientation: e.target.value as PDFOrientation })}
+          disabled={options.pageSize === 'fit' || isLabelSheet}
+          className="input-field py-1 text-sm disabled:opacity-50"
+          title="Orientation"
+        >
+          <option value="portrait">Portrait</option>
+          <option value="landscape">Landscape</option>
+        </select>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={MIN_PDF_CODE_SIZE}
+            max={layout ? undefined : getMaxPDFCodeSize(options)}
+            value={options.codeSize}
+            onChange={(e) => updateOptions({ codeSize: Math.max(MIN_PDF_CODE_SIZE, Number(e.target.value) || MIN_PDF_CODE_SIZE) })}
+            className="input-field py-1 text-sm"
+            title="Printed code width"
+          />
+          <span className="text-xs text-gray-500">mm</span>
+        </div>
+      </div>
+
+      <select
+        value={layout?.preset ?? 'single'}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        className="input-field py-1 text-sm"
+        title="Layout"
+      >
+        <option value="single">Single code</option>
+        <option value="grid">Grid of codes</option>
+        {labelPresets.map((preset) => (
+          <option key={preset} value={preset}>{LABEL_SHEETS[preset].name}</option>
+        ))}
+      </select>
+
+      {layout && (
+        <>
+          {layout.preset === 'grid' && (
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-gray-600">
+                Columns
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_SHEET_COLUMNS}
+                  value={layout.columns}
+                  onChange={(e) => updateLayout({ columns: Math.min(MAX_SHEET_COLUMNS, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="input-field py-1 text-sm mt-1"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Rows
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_SHEET_ROWS}
+                  value={layout.rows}
+                  onChange={(e) => updateLayout({ rows: Math.min(MAX_SHEET_ROWS, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="input-field py-1 text-sm mt-1"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Gutter (mm)
+                <input
+                  type="number"
+                  min={0}
+                  value={layout.gutter}
+                  onChange={(e) => updateLayout({ gutter: Math.max(0, Number(e.target.value) || 0) })}
+                  className="input-field py-1 text-sm mt-1"
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Bleed (mm)
+              <input
+                type="number"
+                min={0}
+                max={MAX_PDF_BLEED}
+                step={0.5}
+                value={layout.bleed}
+                onChange={(e) => updateLayout({ bleed: Math.min(MAX_PDF_BLEED, Math.max(0, Number(e.target.value) || 0)) })}
+                className="input-field py-1 text-sm mt-1"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Caption
+              <select
+                value={captionValue}
+                onChange={(e) => handleCaptionChange(e.target.value)}
+                className="input-field py-1 text-sm mt-1"
+              >
+                <option value="none">None</option>
+                <option value="payload">Encoded content</option>
+                {captionFields?.map((field) => (
+                  <option key={field} value={field}>Column: {field}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={layout.cropMarks}
+              onChange={(e) => updateLayout({ cropMarks: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Crop marks
+          </label>
+
+          <p className={`text-xs ${tooSmall ? 'text-red-600' : 'text-gray-500'}`}>
+            {tooSmall
+              ? `Codes would be under ${MIN_PDF_CODE_SIZE} mm; use fewer columns or rows`
+              : `${geometry.columns * geometry.rows} per page, codes ${Math.round(geometry.codeSize * 10) / 10} mm`}
+            {layout.bleed > geometry.bleed && ` (bleed limited to ${Math.round(geometry.bleed * 10) / 10} mm by the gap between cells)`}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
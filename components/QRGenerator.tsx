@@ -1,41 +1,96 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import type { QRTemplate, ColorPalette, QRCodeConfig, QRGeneratorProps, ExportFormat, QRStyle } from '@/types'
-import { generateQRCode, generateQRCodeSVG, isValidUrl, formatUrl, downloadQRCode } from '@/lib/qr-generator'
-import { saveQRHistory } from '@/lib/cosmic'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { QRTemplate, ColorPalette, QRCodeConfig, QRGeneratorProps, ExportFormat, QRStyle, QRPattern, QREncodingInfo, QRVerificationResult, QRPayload, PayloadType, UpdateQRConfigData, PDFExportOptions, ExportSizeOptions, LossyExportOptions, DynamicQRCode, UserPreferencesData } from '@/types'
+import { generateQRCode, generateQRCodeSVG, getQRCodeInfo, verifyGeneratedQRCode, isValidUrl, formatUrl, downloadQRCode } from '@/lib/qr-generator'
+import { saveHistory, saveTemplate, createDynamicCode, updateDynamicCode } from '@/lib/api-client'
+import { getTemplateConfig } from '@/lib/qr-templates'
+import { clampLogoSize } from '@/lib/qr-renderer'
+import { DEFAULT_PDF_OPTIONS } from '@/lib/qr-pdf'
+import { DEFAULT_EXPORT_SIZE } from '@/lib/qr-size'
+import { DEFAULT_LOSSY_OPTIONS } from '@/lib/image-codec'
+import { getDynamicCodeUrl } from '@/lib/qr-dynamic'
+import { createEmptyPayload, encodePayload, validatePayload, getRequiredErrorCorrection, PAYLOAD_TYPE_NAMES } from '@/lib/qr-payloads'
 import QRPreview from './QRPreview'
 import StyleSelector from './StyleSelector'
 import TemplateSelector from './TemplateSelector'
 import ColorPicker from './ColorPicker'
 import UrlInput from './UrlInput'
+import PayloadTypeSelector from './PayloadTypeSelector'
+import PayloadForm from './PayloadForm'
 import ExportOptions from './ExportOptions'
+import EncodingOptions from './EncodingOptions'
+import LogoOptions from './LogoOptions'
+import EyeOptions from './EyeOptions'
+import PatternOptions from './PatternOptions'
+import SaveTemplateForm from './SaveTemplateForm'
+import BatchGenerator from './BatchGenerator'
+import DynamicCodeEditor from './DynamicCodeEditor'
 
 type Step = 'url' | 'style' | 'customize' | 'preview'
 
-export default function QRGenerator({ templates, colorPalettes }: QRGeneratorProps) {
-  const [currentStep, setCurrentStep] = useState<Step>('url')
-  const [url, setUrl] = useState('')
-  const [isValidInput, setIsValidInput] = useState(false)
+// Where a new code starts: the wizard defaults with the saved style and colors on top
+function getStartConfig(preferences?: UserPreferencesData | null): QRCodeConfig {
+  const [foregroundColor, backgroundColor] = preferences?.preferred_colors ?? []
+  return {
+    text: '',
+    size: 400,
+    foregroundColor: foregroundColor ?? '#000000',
+    backgroundColor: backgroundColor ?? '#ffffff',
+    style: preferences?.default_style ?? 'square',
+    margin: 2,
+    errorCorrectionLevel: 'M',
+    versionMode: 'auto',
+  }
+}
+
+export default function QRGenerator({ templates, colorPalettes, preferences, initialConfig, initialTemplateSlug }: QRGeneratorProps) {
+  const initialPayload = initialConfig?.payload
+  const [currentStep, setCurrentStep] = useState<Step>(initialConfig ? 'customize' : 'url')
+  const [templateList, setTemplateList] = useState<QRTemplate[]>(templates)
+  const [templateSlug, setTemplateSlug] = useState<string | undefined>(initialTemplateSlug)
+  const [url, setUrl] = useState(initialPayload?.type === 'url' ? initialPayload.url : '')
+  const [payload, setPayload] = useState<QRPayload>(initialPayload ?? createEmptyPayload('url'))
+  const [isValidInput, setIsValidInput] = useState(Boolean(initialConfig))
+  const [isDynamic, setIsDynamic] = useState(false)
+  const [dynamicCode, setDynamicCode] = useState<DynamicQRCode | null>(null)
+  const [isSubmittingUrl, setIsSubmittingUrl] = useState(false)
   const [qrDataUrl, setQrDataUrl] = useState('')
   const [qrSvg, setQrSvg] = useState('')
+  const [encodingInfo, setEncodingInfo] = useState<QREncodingInfo | null>(null)
+  const [verification, setVerification] = useState<QRVerificationResult | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [blockUnscannable, setBlockUnscannable] = useState(false)
+  const [pdfOptions, setPdfOptions] = useState<PDFExportOptions>(DEFAULT_PDF_OPTIONS)
+  const [sizeOptions, setSizeOptions] = useState<ExportSizeOptions>(DEFAULT_EXPORT_SIZE)
+  const [lossyOptions, setLossyOptions] = useState<LossyExportOptions>(DEFAULT_LOSSY_OPTIONS)
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState<string | null>(null)
   
-  const [config, setConfig] = useState<QRCodeConfig>({
-    text: '',
-    size: 400,
-    foregroundColor: '#000000',
-    backgroundColor: '#ffffff',
-    style: 'square',
-    margin: 2,
-  })
+  const [config, setConfig] = useState<QRCodeConfig>(initialConfig ?? getStartConfig(preferences))
+  // Set when a preview is requested with auto download on, cleared once it downloads
+  const autoDownloadPending = useRef(false)
+
+  // Decode the rendered code in the background so the preview shows first
+  const verifyQR = useCallback(async (dataUrl: string, currentConfig: QRCodeConfig) => {
+    setVerification(null)
+    setIsVerifying(true)
+    try {
+      setVerification(await verifyGeneratedQRCode(dataUrl, currentConfig))
+    } catch (error) {
+      console.warn('Failed to verify QR code:', error)
+    } finally {
+      setIsVerifying(false)
+    }
+  }, [])
 
   // Debounced QR code generation with better error handling
   const generateQR = useCallback(async (currentConfig: QRCodeConfig) => {
-    if (!currentConfig.text || !isValidUrl(currentConfig.text)) {
+    if (!currentConfig.text || !currentConfig.text.trim()) {
       setQrDataUrl('')
       setQrSvg('')
+      setEncodingInfo(null)
+      setVerification(null)
       setError(null)
       return
     }
@@ -54,28 +109,76 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
       console.log('QR code generated successfully')
       setQrDataUrl(dataUrl)
       setQrSvg(svg)
+      setEncodingInfo(getQRCodeInfo(currentConfig))
+      verifyQR(dataUrl, currentConfig)
     } catch (error) {
       console.error('Error generating QR code:', error)
       setError(error instanceof Error ? error.message : 'Failed to generate QR code')
       setQrDataUrl('')
       setQrSvg('')
+      setEncodingInfo(null)
+      setVerification(null)
     } finally {
       setIsGenerating(false)
     }
-  }, [])
+  }, [verifyQR])
 
   // Handle URL validation and step progression
-  const handleUrlSubmit = () => {
+  const handleUrlSubmit = async () => {
     const trimmedUrl = url.trim()
     const isValid = trimmedUrl.length > 0 && isValidUrl(trimmedUrl)
     
-    if (isValid) {
-      const formattedUrl = formatUrl(trimmedUrl)
-      setConfig({ ...config, text: formattedUrl })
+    if (!isValid || isSubmittingUrl) return
+
+    const formattedUrl = formatUrl(trimmedUrl)
+    if (!isDynamic) {
+      setDynamicCode(null)
+      setConfig({ ...config, text: formattedUrl, payload: { type: 'url', url: formattedUrl } })
       setCurrentStep('style')
+      return
+    }
+
+    // Dynamic codes encode the short link; coming back to this step retargets
+    // the same code instead of creating another one
+    setIsSubmittingUrl(true)
+    setError(null)
+    try {
+      const code = dynamicCode
+        ? await updateDynamicCode(dynamicCode.slug, { target_url: formattedUrl })
+        : await createDynamicCode({ target_url: formattedUrl })
+      const shortUrl = getDynamicCodeUrl(code.slug, window.location.origin)
+      setDynamicCode(code)
+      setConfig({ ...config, text: shortUrl, payload: { type: 'url', url: shortUrl } })
+      setCurrentStep('style')
+    } catch (error) {
+      console.error('Error creating dynamic QR code:', error)
+      setError(error instanceof Error ? error.message : 'Failed to create dynamic QR code')
+    } finally {
+      setIsSubmittingUrl(false)
+    }
+  }
+
+  // Switch the content type, starting from an empty form
+  const handlePayloadTypeSelect = (type: PayloadType) => {
+    if (type !== payload.type) {
+      setPayload(createEmptyPayload(type))
     }
   }
 
+  // Encode the structured content into the QR text and move on
+  const handlePayloadSubmit = () => {
+    if (validatePayload(payload).length > 0) return
+
+    setConfig(clampLogoSize({
+      ...config,
+      text: encodePayload(payload),
+      payload,
+      errorCorrectionLevel: getRequiredErrorCorrection(payload) ?? config.errorCorrectionLevel
+    }))
+    setIsValidInput(true)
+    setCurrentStep('style')
+  }
+
   // Handle style selection
   const handleStyleSelect = (style: QRStyle) => {
     setConfig({ ...config, style })
@@ -88,30 +191,26 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
 
   // Handle template selection with proper color parsing
   const handleTemplateSelect = (template: QRTemplate) => {
-    // Parse colors JSON string safely
-    let colors = { foreground: '#000000', background: '#ffffff', accent: undefined }
-    try {
-      if (template.metadata.colors && typeof template.metadata.colors === 'string') {
-        colors = JSON.parse(template.metadata.colors)
-      }
-    } catch (error) {
-      console.warn('Failed to parse template colors:', error)
-    }
-
-    // FIXED: Access pattern and style values safely
-    const patternValue = template.metadata.pattern ? 
-      (typeof template.metadata.pattern === 'object' && 'value' in template.metadata.pattern ? 
-        template.metadata.pattern.value : 
-        template.metadata.pattern) : 
-      undefined
+    setConfig(clampLogoSize({ ...config, ...getTemplateConfig(template) }))
+    setTemplateSlug(template.slug)
+  }
 
-    const newConfig = {
-      ...config,
-      foregroundColor: colors.foreground,
-      backgroundColor: colors.background,
-      pattern: patternValue,
-    }
-    setConfig(newConfig)
+  // Save the current design as a template and offer it in the selector
+  const handleSaveTemplate = async (title: string) => {
+    const template = await saveTemplate({
+      title,
+      colors: {
+        foreground: config.foregroundColor,
+        background: config.backgroundColor,
+        accent: config.eyeFrameColor
+      },
+      style: config.style,
+      pattern: config.pattern,
+      eye_frame_shape: config.eyeFrameShape,
+      eye_ball_shape: config.eyeBallShape,
+      eye_ball_color: config.eyeBallColor
+    })
+    setTemplateList([...templateList, template])
   }
 
   // Handle color changes
@@ -123,20 +222,33 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
     setConfig(newConfig)
   }
 
+  // Handle partial config changes from the option panels; a lower error
+  // correction level shrinks the logo to what it can still absorb
+  const handleConfigChange = (changes: UpdateQRConfigData) => {
+    setConfig(clampLogoSize({ ...config, ...changes }))
+  }
+
   // Generate final QR code when moving to preview
   const handleGeneratePreview = () => {
-    if (config.text && isValidUrl(config.text)) {
+    if (config.text && config.text.trim()) {
+      autoDownloadPending.current = Boolean(preferences?.auto_download)
       generateQR(config)
       setCurrentStep('preview')
     }
   }
 
   // Handle download with better error handling
-  const handleDownload = async (format: ExportFormat) => {
+  const handleDownload = useCallback(async (format: ExportFormat) => {
     if (!qrDataUrl && !qrSvg) {
       console.warn('No QR code available for download')
       return
     }
+
+    // Codes that failed the scan check are blocked or need confirmation
+    if (verification && verification.status !== 'pass') {
+      if (blockUnscannable) return
+      if (!window.confirm('This QR code did not pass the scan check and may not scan. Download anyway?')) return
+    }
     
     try {
       let downloadUrl = qrDataUrl
@@ -147,19 +259,11 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
         downloadUrl = URL.createObjectURL(blob)
       }
       
-      await downloadQRCode(downloadUrl, filename, format, config.style)
+      await downloadQRCode(downloadUrl, filename, format, config, { size: sizeOptions, pdf: pdfOptions, lossy: lossyOptions })
       
       // Save to history (don't block the download if this fails)
       try {
-        await saveQRHistory({
-          url: config.text,
-          style_used: config.style,
-          colors_used: {
-            foreground: config.foregroundColor,
-            background: config.backgroundColor
-          },
-          export_format: format
-        })
+        await saveHistory({ config, export_format: format, template_slug: templateSlug })
       } catch (error) {
         console.warn('Failed to save to history:', error)
       }
@@ -172,7 +276,16 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
       console.error('Error downloading QR code:', error)
       setError(error instanceof Error ? error.message : 'Failed to download QR code')
     }
-  }
+  }, [qrDataUrl, qrSvg, verification, blockUnscannable, config, sizeOptions, pdfOptions, lossyOptions, templateSlug])
+
+  // Auto download waits for the scan check too, so blocked codes stay blocked
+  useEffect(() => {
+    if (!autoDownloadPending.current || isGenerating || isVerifying) return
+    autoDownloadPending.current = false
+    if (qrDataUrl) {
+      handleDownload(preferences?.export_format ?? 'png')
+    }
+  }, [qrDataUrl, isGenerating, isVerifying, handleDownload, preferences])
 
   // Step navigation
   const handleBack = () => {
@@ -192,7 +305,7 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
   // Step indicator
   const StepIndicator = () => {
     const steps = [
-      { id: 'url', label: 'Enter URL', icon: '🔗' },
+      { id: 'url', label: 'Enter Content', icon: '🔗' },
       { id: 'style', label: 'Choose Style', icon: '🎨' },
       { id: 'customize', label: 'Customize', icon: '⚙️' },
       { id: 'preview', label: 'Preview & Download', icon: '📱' }
@@ -257,17 +370,50 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
                 What would you like to create a QR code for?
               </h2>
               <p className="text-gray-600">
-                Enter any URL to get started
+                Pick a content type and fill in the details to get started
               </p>
             </div>
-            <UrlInput
-              value={url}
-              onChange={setUrl}
-              isValid={isValidInput}
-              onValidationChange={setIsValidInput}
-              onSubmit={handleUrlSubmit}
-              showSubmitButton={true}
+            <PayloadTypeSelector
+              selectedType={payload.type}
+              onSelect={handlePayloadTypeSelect}
             />
+            {payload.type === 'url' ? (
+              <UrlInput
+                value={url}
+                onChange={setUrl}
+                isValid={isValidInput}
+                onValidationChange={setIsValidInput}
+                onSubmit={handleUrlSubmit}
+                showSubmitButton={true}
+              />
+            ) : (
+              <PayloadForm
+                key={payload.type}
+                payload={payload}
+                issues={validatePayload(payload)}
+                onChange={setPayload}
+                onSubmit={handlePayloadSubmit}
+              />
+            )}
+            {payload.type === 'url' && (
+              <label className="flex items-start gap-2 text-sm text-gray-700 mt-4">
+                <input
+                  type="checkbox"
+                  checked={isDynamic}
+                  onChange={(e) => setIsDynamic(e.target.checked)}
+                  className="mt-0.5 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                <span>
+                  Make it a dynamic code
+                  <span className="block text-xs text-gray-500">
+                    The code links to a short URL on this site, so you can change where it points after printing
+                  </span>
+                </span>
+              </label>
+            )}
+            {isSubmittingUrl && (
+              <p className="text-sm text-gray-500 text-center mt-4">Creating short link...</p>
+            )}
           </div>
         )}
 
@@ -296,9 +442,9 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
               {/* Customization Options */}
               <div className="space-y-6">
                 {/* Template Selector */}
-                {templates.length > 0 && (
+                {templateList.length > 0 && (
                   <TemplateSelector
-                    templates={templates}
+                    templates={templateList}
                     onSelect={handleTemplateSelect}
                   />
                 )}
@@ -311,8 +457,59 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
                     selectedBackground={config.backgroundColor}
                     onForegroundChange={(color) => handleColorChange('foreground', color)}
                     onBackgroundChange={(color) => handleColorChange('background', color)}
+                    gradient={config.gradient}
+                    backgroundGradient={config.backgroundGradient}
+                    onGradientChange={(gradient) => handleConfigChange({ gradient })}
+                    onBackgroundGradientChange={(backgroundGradient) => handleConfigChange({ backgroundGradient })}
+                    gradientDisabledReason={config.pattern === 'dots'
+                      ? 'The dots pattern fills modules with its own two-color texture, so foreground gradients are off. Choose another pattern to use one.'
+                      : undefined}
+                    onApplyContrastFix={handleConfigChange}
                   />
                 )}
+
+                {/* Pattern Options */}
+                <PatternOptions
+                  pattern={(config.pattern ?? 'solid') as QRPattern}
+                  patternColor={config.patternColor}
+                  patternDirection={config.patternDirection}
+                  foregroundColor={config.foregroundColor}
+                  onChange={handleConfigChange}
+                />
+
+                {/* Encoding Options */}
+                <EncodingOptions
+                  errorCorrectionLevel={config.errorCorrectionLevel ?? 'M'}
+                  versionMode={config.versionMode ?? 'auto'}
+                  version={config.version}
+                  maskPattern={config.maskPattern}
+                  requiredLevel={getRequiredErrorCorrection(config.payload)}
+                  onChange={handleConfigChange}
+                />
+
+                {/* Eye Options */}
+                <EyeOptions
+                  style={config.style}
+                  foregroundColor={config.foregroundColor}
+                  eyeFrameShape={config.eyeFrameShape}
+                  eyeBallShape={config.eyeBallShape}
+                  eyeFrameColor={config.eyeFrameColor}
+                  eyeBallColor={config.eyeBallColor}
+                  onChange={handleConfigChange}
+                />
+
+                {/* Logo Options */}
+                <LogoOptions
+                  logoUrl={config.logoUrl}
+                  logoSize={config.logoSize}
+                  logoPadding={config.logoPadding}
+                  logoShape={config.logoShape}
+                  errorCorrectionLevel={config.errorCorrectionLevel ?? 'M'}
+                  onChange={handleConfigChange}
+                />
+
+                {/* Save Template */}
+                <SaveTemplateForm onSave={handleSaveTemplate} />
               </div>
 
               {/* Live Preview */}
@@ -367,6 +564,9 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
               isValidUrl={isValidInput}
               onDownload={handleDownload}
               error={error}
+              verification={verification}
+              isVerifying={isVerifying}
+              downloadBlocked={blockUnscannable && verification !== null && verification.status !== 'pass'}
             />
 
             {/* Export Options */}
@@ -374,14 +574,31 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
               <ExportOptions
                 onDownload={handleDownload}
                 disabled={!qrDataUrl}
+                verification={verification}
+                blockUnscannable={blockUnscannable}
+                onBlockUnscannableChange={setBlockUnscannable}
+                pdfOptions={pdfOptions}
+                onPdfOptionsChange={setPdfOptions}
+                sizeOptions={sizeOptions}
+                onSizeOptionsChange={setSizeOptions}
+                moduleCount={encodingInfo?.moduleCount}
+                margin={config.margin}
+                lossyOptions={lossyOptions}
+                onLossyOptionsChange={setLossyOptions}
+                preferredFormat={preferences?.export_format}
               />
 
+              {/* Dynamic Code */}
+              {dynamicCode && (
+                <DynamicCodeEditor key={dynamicCode.id} code={dynamicCode} onUpdated={setDynamicCode} />
+              )}
+
               {/* QR Code Details */}
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h3 className="text-lg font-semibold mb-4">QR Code Details</h3>
                 <div className="space-y-3 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-gray-600">URL:</span>
+                    <span className="text-gray-600">{config.payload ? PAYLOAD_TYPE_NAMES[config.payload.type] : 'URL'}:</span>
                     <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded truncate max-w-[200px]">
                       {config.text}
                     </span>
@@ -394,6 +611,26 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
                     <span className="text-gray-600">Size:</span>
                     <span>{config.size}x{config.size}px</span>
                   </div>
+                  {encodingInfo && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Version:</span>
+                        <span>{encodingInfo.version}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Modules:</span>
+                        <span>{encodingInfo.moduleCount}x{encodingInfo.moduleCount}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Error Correction:</span>
+                        <span>{encodingInfo.errorCorrectionLevel}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Mask:</span>
+                        <span>{encodingInfo.maskPattern}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-600">Colors:</span>
                     <div className="flex gap-1">
@@ -411,6 +648,9 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
                   </div>
                 </div>
               </div>
+
+              {/* Batch Generation */}
+              <BatchGenerator config={config} templates={templateList} />
             </div>
           </div>
         )}
@@ -434,17 +674,15 @@ export default function QRGenerator({ templates, colorPalettes }: QRGeneratorPro
               onClick={() => {
                 setCurrentStep('url')
                 setUrl('')
+                setPayload(createEmptyPayload('url'))
+                setDynamicCode(null)
+                setTemplateSlug(undefined)
                 setQrDataUrl('')
                 setQrSvg('')
+                setEncodingInfo(null)
+                setVerification(null)
                 setError(null)
-                setConfig({
-                  text: '',
-                  size: 400,
-                  foregroundColor: '#000000',
-                  backgroundColor: '#ffffff',
-                  style: 'square',
-                  margin: 2,
-                })
+                setConfig(getStartConfig(preferences))
               }}
               className="text-primary hover:text-primary-dark transition-colors"
             >
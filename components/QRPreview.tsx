@@ -1,6 +1,7 @@
 'use client'
 
-import type { QRCodeConfig, ExportFormat } from '@/types'
+import type { QRCodeConfig, ExportFormat, QRVerificationResult } from '@/types'
+import { PAYLOAD_TYPE_NAMES } from '@/lib/qr-payloads'
 
 interface QRPreviewProps {
   config: QRCodeConfig;
@@ -9,6 +10,15 @@ interface QRPreviewProps {
   isValidUrl: boolean;
   onDownload: (format: ExportFormat) => void;
   error?: string | null;
+  verification?: QRVerificationResult | null;
+  isVerifying?: boolean;
+  downloadBlocked?: boolean;
+}
+
+const verificationLabels: Record<QRVerificationResult['status'], string> = {
+  pass: 'Scan check passed',
+  mismatch: 'Scans as different text',
+  unreadable: 'Could not be scanned'
 }
 
 export default function QRPreview({ 
@@ -17,7 +27,10 @@ export default function QRPreview({
   isGenerating, 
   isValidUrl, 
   onDownload,
-  error 
+  error,
+  verification,
+  isVerifying = false,
+  downloadBlocked = false
 }: QRPreviewProps) {
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
@@ -74,11 +87,47 @@ export default function QRPreview({
               />
             </div>
             
+            {/* Scan Check */}
+            <div className="mb-4">
+              {isVerifying && (
+                <span className="inline-flex items-center text-xs text-gray-500">
+                  <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary mr-2"></span>
+                  Checking scannability...
+                </span>
+              )}
+              {!isVerifying && verification && (
+                <div className="space-y-1">
+                  <span
+                    className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${
+                      verification.status === 'pass'
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}
+                  >
+                    {verification.status === 'pass' ? '✓' : '✕'} {verificationLabels[verification.status]}
+                    {verification.status === 'pass' && (
+                      <span className="font-normal">· Robustness {verification.robustnessScore}%</span>
+                    )}
+                  </span>
+                  {verification.status === 'mismatch' && verification.decodedText && (
+                    <p className="text-xs text-red-600 font-mono truncate">
+                      Read: {verification.decodedText}
+                    </p>
+                  )}
+                  {verification.status === 'pass' && verification.robustnessScore < 60 && (
+                    <p className="text-xs text-yellow-700">
+                      Fails under {verification.checks.filter((check) => !check.passed).map((check) => check.name.toLowerCase()).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* QR Code Info */}
             <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm text-left">
               <div className="space-y-1">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">URL:</span>
+                  <span className="text-gray-600">{config.payload ? PAYLOAD_TYPE_NAMES[config.payload.type] : 'URL'}:</span>
                   <span className="font-mono text-xs truncate ml-2 max-w-[200px]">
                     {config.text}
                   </span>
@@ -113,15 +162,15 @@ export default function QRPreview({
             <div className="mt-4 flex gap-2 justify-center">
               <button
                 onClick={() => onDownload('png')}
-                className="btn-primary text-sm px-3 py-1"
-                disabled={!dataUrl}
+                className="btn-primary text-sm px-3 py-1 disabled:opacity-50"
+                disabled={!dataUrl || downloadBlocked}
               >
                 Download PNG
               </button>
               <button
                 onClick={() => onDownload('svg')}
-                className="btn-secondary text-sm px-3 py-1"
-                disabled={!dataUrl}
+                className="btn-secondary text-sm px-3 py-1 disabled:opacity-50"
+                disabled={!dataUrl || downloadBlocked}
               >
                 Download SVG
               </button>
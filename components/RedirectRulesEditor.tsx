@@ -0,0 +1,188 @@
+'use client'
+
+import type { RedirectRule, ScanOS } from '@/types'
+import { createRedirectRule, MAX_REDIRECT_RULES } from '@/lib/qr-routing'
+import { SCAN_OS_OPTIONS, SCAN_OS_NAMES } from '@/lib/qr-analytics'
+import { isValidUrl } from '@/lib/qr-generator'
+
+interface RedirectRulesEditorProps {
+  rules: RedirectRule[];
+  onChange: (rules: RedirectRule[]) => void;
+}
+
+// Rules hold UTC timestamps; datetime-local inputs show the browser's local time
+function toLocalInput(timestamp?: string): string {
+  if (!timestamp) return ''
+  const date = new Date(timestamp)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined
+}
+
+function parseLanguages(value: string): string[] | undefined {
+  const languages = value.split(/[\s,]+/).filter((language) => language.length > 0)
+  return languages.length > 0 ? languages : undefined
+}
+
+function parseScanCount(value: string): number | undefined {
+  const count = Math.floor(Number(value))
+  return value && count >= 1 ? count : undefined
+}
+
+export default function RedirectRulesEditor({ rules, onChange }: RedirectRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<RedirectRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules]
+    const [rule] = next.splice(index, 1)
+    if (!rule) return
+    next.splice(index + offset, 0, rule)
+    onChange(next)
+  }
+
+  const toggleOS = (index: number, rule: RedirectRule, os: ScanOS) => {
+    const selected = rule.os ?? []
+    const next = selected.includes(os) ? selected.filter((value) => value !== os) : [...selected, os]
+    updateRule(index, { os: next.length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Rules are checked from the top and the first match wins. Leave a condition empty to match every scan.
+      </p>
+
+      {rules.map((rule, index) => {
+        const targetInvalid = rule.target_url.trim().length > 0 && !isValidUrl(rule.target_url)
+        return (
+          <div key={rule.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">Rule {index + 1}</span>
+              <div className="flex gap-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 py-0.5 rounded border border-gray-200 hover:border-primary-300 disabled:opacity-40"
+                  title="Check earlier"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === rules.length - 1}
+                  className="px-2 py-0.5 rounded border border-gray-200 hover:border-primary-300 disabled:opacity-40"
+                  title="Check later"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                  className="px-2 py-0.5 rounded border border-gray-200 text-red-500 hover:border-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <input
+              type="text"
+              value={rule.target_url}
+              onChange={(e) => updateRule(index, { target_url: e.target.value })}
+              placeholder="Send to, e.g. apps.apple.com/app/id123"
+              className={`input-field py-1 text-sm ${targetInvalid ? 'border-red-300' : ''}`}
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-gray-600">
+                From
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(rule.starts_at)}
+                  onChange={(e) => updateRule(index, { starts_at: fromLocalInput(e.target.value) })}
+                  className="input-field py-1 text-sm"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Until
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(rule.ends_at)}
+                  onChange={(e) => updateRule(index, { ends_at: fromLocalInput(e.target.value) })}
+                  className="input-field py-1 text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-600 mr-1">OS:</span>
+              {SCAN_OS_OPTIONS.map((os) => (
+                <button
+                  key={os}
+                  type="button"
+                  onClick={() => toggleOS(index, rule, os)}
+                  className={`px-2 py-0.5 rounded border text-xs transition-colors duration-200 ${
+                    rule.os?.includes(os)
+                      ? 'border-primary bg-primary-50 text-primary-700'
+                      : 'border-gray-200 hover:border-primary-300'
+                  }`}
+                >
+                  {SCAN_OS_NAMES[os]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-gray-600">
+                Languages
+                <input
+                  type="text"
+                  defaultValue={rule.languages?.join(', ') ?? ''}
+                  onBlur={(e) => updateRule(index, { languages: parseLanguages(e.target.value) })}
+                  placeholder="de, pt-BR"
+                  className="input-field py-1 text-sm"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                From scan #
+                <input
+                  type="number"
+                  min={1}
+                  value={rule.min_scans ?? ''}
+                  onChange={(e) => updateRule(index, { min_scans: parseScanCount(e.target.value) })}
+                  className="input-field py-1 text-sm"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                To scan #
+                <input
+                  type="number"
+                  min={1}
+                  value={rule.max_scans ?? ''}
+                  onChange={(e) => updateRule(index, { max_scans: parseScanCount(e.target.value) })}
+                  className="input-field py-1 text-sm"
+                />
+              </label>
+            </div>
+          </div>
+        )
+      })}
+
+      {rules.length < MAX_REDIRECT_RULES && (
+        <button
+          type="button"
+          onClick={() => onChange([...rules, createRedirectRule()])}
+          className="btn-secondary text-sm w-full"
+        >
+          Add Rule
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useState } from 'react'
+
+interface SaveTemplateFormProps {
+  onSave: (title: string) => Promise<void>;
+}
+
+export default function SaveTemplateForm({ onSave }: SaveTemplateFormProps) {
+  const [title, setTitle] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmedTitle = title.trim()
+    if (!trimmedTitle) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await onSave(trimmedTitle)
+      setTitle('')
+      setMessage({ type: 'success', text: 'Template saved!' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save template' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">Save as Template</h3>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Template name"
+          className="input-field py-2"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || title.trim().length === 0}
+          className="btn-primary text-sm whitespace-nowrap disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {message && (
+        <p className={`text-sm mt-2 ${message.type === 'success' ? 'text-green-600' : 'text-red-500'}`}>
+          {message.text}
+        </p>
+      )}
+    </form>
+  )
+}
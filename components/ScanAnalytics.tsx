@@ -0,0 +1,172 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { DynamicQRCode, ScanCount, ScanSummary } from '@/types'
+import { SCAN_RANGE_OPTIONS, SCAN_OS_NAMES } from '@/lib/qr-analytics'
+
+interface ScanAnalyticsProps {
+  summary: ScanSummary;
+  codes: DynamicQRCode[];
+  days: number;
+  codeSlug?: string;
+}
+
+const deviceLabels: Record<string, string> = {
+  mobile: 'Phone',
+  tablet: 'Tablet',
+  desktop: 'Desktop'
+}
+
+function buildQuery(days: number, codeSlug?: string): string {
+  const params = new URLSearchParams({ days: String(days) })
+  if (codeSlug) params.set('code', codeSlug)
+  return params.toString()
+}
+
+// Horizontal bars for one breakdown, scaled to its largest entry
+function Breakdown({ title, counts, labels }: { title: string; counts: ScanCount[]; labels?: Record<string, string> }) {
+  const max = Math.max(1, ...counts.map((entry) => entry.count))
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">{title}</h3>
+      {counts.length === 0 ? (
+        <p className="text-sm text-gray-500">No scans yet</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {counts.slice(0, 8).map((entry) => (
+            <li key={entry.key}>
+              <div className="flex justify-between mb-1">
+                <span className="text-gray-700 truncate">{labels?.[entry.key] ?? entry.key}</span>
+                <span className="text-gray-500">{entry.count}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded">
+                <div className="h-2 bg-primary rounded" style={{ width: `${(entry.count / max) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function ScanAnalytics({ summary, codes, days, codeSlug }: ScanAnalyticsProps) {
+  const router = useRouter()
+  const maxPerDay = Math.max(1, ...summary.byDay.map((day) => day.count))
+  const codesBySlug = new Map(codes.map((code) => [code.slug, code]))
+  const firstDay = summary.byDay[0]
+  const lastDay = summary.byDay[summary.byDay.length - 1]
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-lg p-6 flex flex-wrap items-center gap-4">
+        <div className="flex gap-2">
+          {SCAN_RANGE_OPTIONS.map((option) => (
+            <Link
+              key={option}
+              href={`/analytics?${buildQuery(option, codeSlug)}`}
+              className={`px-3 py-1 rounded-lg border text-sm transition-colors duration-200 ${
+                days === option
+                  ? 'border-primary bg-primary-50 text-primary-700'
+                  : 'border-gray-200 hover:border-primary-300'
+              }`}
+            >
+              {option} days
+            </Link>
+          ))}
+        </div>
+
+        <select
+          value={codeSlug ?? ''}
+          onChange={(e) => router.push(`/analytics?${buildQuery(days, e.target.value || undefined)}`)}
+          className="input-field py-1 text-sm w-auto"
+        >
+          <option value="">All codes</option>
+          {codes.map((code) => (
+            <option key={code.id} value={code.slug}>
+              {code.metadata.description || code.slug}
+            </option>
+          ))}
+        </select>
+
+        <a
+          href={`/api/analytics/export?${buildQuery(days, codeSlug)}`}
+          className="btn-secondary text-sm ml-auto"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      {/* Scans over time */}
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="flex justify-between items-baseline mb-4">
+          <h3 className="text-lg font-semibold">Scans Over Time</h3>
+          <span className="text-sm text-gray-600">{summary.total} scans in the last {days} days</span>
+        </div>
+        <div className="flex items-end gap-px h-40">
+          {summary.byDay.map((day) => (
+            <div
+              key={day.key}
+              className="flex-1 bg-primary rounded-t hover:bg-primary-600 transition-colors"
+              style={{ height: `${(day.count / maxPerDay) * 100}%`, minHeight: day.count > 0 ? '2px' : 0 }}
+              title={`${day.key}: ${day.count} scans`}
+            />
+          ))}
+        </div>
+        {firstDay && lastDay && (
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>{firstDay.key}</span>
+            <span>{lastDay.key}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Per-code breakdown */}
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">Scans per Code</h3>
+        {summary.byCode.length === 0 ? (
+          <p className="text-sm text-gray-500">No scans in this range</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 font-medium">Code</th>
+                <th className="py-2 font-medium">Destination</th>
+                <th className="py-2 font-medium text-right">Scans</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byCode.map((entry) => {
+                const code = codesBySlug.get(entry.key)
+                return (
+                  <tr key={entry.key} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2">
+                      <Link href={`/analytics?${buildQuery(days, entry.key)}`} className="text-primary hover:text-primary-700">
+                        {code?.metadata.description || entry.key}
+                      </Link>
+                    </td>
+                    <td className="py-2 text-gray-600 truncate max-w-[280px]">
+                      {code ? code.metadata.target_url : 'Deleted code'}
+                    </td>
+                    <td className="py-2 text-right">{entry.count}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Audience breakdowns */}
+      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Breakdown title="Operating System" counts={summary.byOS} labels={SCAN_OS_NAMES} />
+        <Breakdown title="Device" counts={summary.byDevice} labels={deviceLabels} />
+        <Breakdown title="Language" counts={summary.byLocale} />
+        <Breakdown title="Referrer" counts={summary.byReferrer} />
+      </div>
+    </div>
+  )
+}
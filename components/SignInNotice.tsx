@@ -0,0 +1,18 @@
+import Link from 'next/link'
+
+interface SignInNoticeProps {
+  what: string;
+}
+
+// Shown by pages for a user's own data when nobody is signed in
+export default function SignInNotice({ what }: SignInNoticeProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+      Sign in to see your {what}. Codes can still be created and downloaded on the{' '}
+      <Link href="/" className="text-primary hover:text-primary-700">
+        generator
+      </Link>{' '}
+      without an account.
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import type { ExportSizeOptions, SizeUnit } from '@/types'
+import {
+  checkPrintSize,
+  convertExportSize,
+  getExportPixels,
+  fromPixels,
+  DPI_OPTIONS,
+  PRINT_DPI_PRESETS,
+  MAX_EXPORT_PIXELS
+} from '@/lib/qr-size'
+
+interface SizeOptionsProps {
+  options: ExportSizeOptions;
+  onChange: (options: ExportSizeOptions) => void;
+  // Symbol width in modules and quiet zone, for the module size check
+  moduleCount?: number;
+  margin: number;
+}
+
+const units: Array<{ unit: SizeUnit; label: string }> = [
+  { unit: 'px', label: 'px' },
+  { unit: 'mm', label: 'mm' },
+  { unit: 'in', label: 'in' }
+]
+
+export default function SizeOptions({ options, onChange, moduleCount, margin }: SizeOptionsProps) {
+  const pixels = getExportPixels(options)
+  const check = moduleCount ? checkPrintSize(options, moduleCount, margin) : null
+  const printedWidth = fromPixels(pixels, 'mm', options.dpi)
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="number"
+          min={0}
+          step={options.unit === 'px' ? 1 : 0.1}
+          value={options.value}
+          onChange={(e) => onChange({ ...options, value: Math.max(0, Number(e.target.value) || 0) })}
+          className="input-field py-1 text-sm"
+          title="Output size"
+        />
+        <select
+          value={options.unit}
+          onChange={(e) => onChange(convertExportSize(options, e.target.value as SizeUnit))}
+          className="input-field py-1 text-sm"
+          title="Unit"
+        >
+          {units.map(({ unit, label }) => (
+            <option key={unit} value={unit}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={options.dpi}
+          onChange={(e) => onChange({ ...options, dpi: Number(e.target.value) })}
+          className="input-field py-1 text-sm"
+          title="Resolution"
+        >
+          {DPI_OPTIONS.map((dpi) => (
+            <option key={dpi} value={dpi}>{dpi} DPI</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Print presets keep the printed size and raise the resolution */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-600">Print presets:</span>
+        {PRINT_DPI_PRESETS.map((dpi) => (
+          <button
+            key={dpi}
+            type="button"
+            onClick={() => onChange({ ...(options.unit === 'px' ? convertExportSize(options, 'mm') : options), dpi })}
+            className={`px-2 py-0.5 rounded border text-xs transition-colors duration-200 ${
+              options.dpi === dpi
+                ? 'border-primary bg-primary-50 text-primary-700'
+                : 'border-gray-200 hover:border-primary-300'
+            }`}
+          >
+            {dpi} DPI
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        Scanned from
+        <input
+          type="number"
+          min={1}
+          value={options.scanDistance}
+          onChange={(e) => onChange({ ...options, scanDistance: Math.max(1, Number(e.target.value) || 1) })}
+          className="input-field py-1 text-sm w-20"
+        />
+        cm away
+      </label>
+
+      <p className="text-xs text-gray-500">
+        {pixels} × {pixels} px, {Math.round(printedWidth * 10) / 10} mm wide at {options.dpi} DPI
+        {check && `, modules ${check.moduleSize.toFixed(2)} mm`}
+        {pixels === MAX_EXPORT_PIXELS && ` (limited to ${MAX_EXPORT_PIXELS} px)`}
+      </p>
+
+      {check && check.warnings.length > 0 && (
+        <ul className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2 space-y-1">
+          {check.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCSVValue } from '@/lib/csv';
+import { parseCSV } from '@/lib/qr-batch';
+
+describe('escapeCSVValue', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCSVValue('https://example.com/a')).toBe('https://example.com/a');
+  });
+
+  it('quotes values with quotes, commas or line breaks', () => {
+    expect(escapeCSVValue('Smith, Jo')).toBe('"Smith, Jo"');
+    expect(escapeCSVValue('said "hi"')).toBe('"said ""hi"""');
+    expect(escapeCSVValue('two\r\nlines')).toBe('"two\r\nlines"');
+  });
+
+  it('round-trips through the batch CSV parser', () => {
+    const values = ['plain', 'Smith, Jo', 'said "hi"', 'two\nlines'];
+    const text = `${values.map((_, i) => `c${i}`).join(',')}\n${values.map(escapeCSVValue).join(',')}\n`;
+    expect(parseCSV(text).rows).toEqual([values]);
+  });
+});
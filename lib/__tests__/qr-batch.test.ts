@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildRowPayload, formatBatchFilename, parseCSV, suggestBatchMapping } from '@/lib/qr-batch';
+
+describe('parseCSV', () => {
+  it('splits headers from rows and trims the headers', () => {
+    expect(parseCSV('sku , url\nA1,https://example.com/a\nB2,https://example.com/b\n')).toEqual({
+      headers: ['sku', 'url'],
+      rows: [
+        ['A1', 'https://example.com/a'],
+        ['B2', 'https://example.com/b'],
+      ],
+    });
+  });
+
+  it('handles quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const { rows } = parseCSV('name,note\r\n"Smith, Jo","said ""hi""\ntwice"\r\n');
+    expect(rows).toEqual([['Smith, Jo', 'said "hi"\ntwice']]);
+  });
+
+  it('detects semicolon-separated files from the header line', () => {
+    expect(parseCSV('sku;price\nA1;1,50')).toEqual({ headers: ['sku', 'price'], rows: [['A1', '1,50']] });
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCSV('\uFEFFsku\n\nA1\n , \n')).toEqual({ headers: ['sku'], rows: [['A1']] });
+  });
+
+  it('returns no headers for empty input', () => {
+    expect(parseCSV('')).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe('formatBatchFilename', () => {
+  const headers = ['sku', 'name'];
+
+  it('fills column and row placeholders', () => {
+    expect(formatBatchFilename('product-{sku}-{row}', headers, [' A1 ', 'Mug'], 3)).toBe('product-A1-3');
+  });
+
+  it('replaces characters file systems reject', () => {
+    expect(formatBatchFilename('{name}', headers, ['A1', 'a/b:c*"d"'], 1)).toBe('a-b-c-d-');
+  });
+
+  it('leaves unknown columns empty and falls back to the row number', () => {
+    expect(formatBatchFilename('{missing}', headers, ['A1', 'Mug'], 7)).toBe('qr-7');
+  });
+
+  it('caps the name at 100 characters', () => {
+    expect(formatBatchFilename('{name}', headers, ['A1', 'x'.repeat(150)], 1)).toHaveLength(100);
+  });
+});
+
+describe('buildRowPayload', () => {
+  it('maps columns onto payload fields and reads booleans and Wi-Fi security', () => {
+    const headers = ['SSID', 'Password', 'Hidden', 'Security'];
+    const mapping = suggestBatchMapping(headers, 'wifi');
+    expect(mapping.fields).toEqual({ ssid: 'SSID', password: 'Password', hidden: 'Hidden', security: 'Security' });
+    expect(buildRowPayload(headers, ['Cafe', 'secret', 'yes', 'none'], mapping)).toEqual({
+      type: 'wifi',
+      ssid: 'Cafe',
+      password: 'secret',
+      security: 'nopass',
+      hidden: true,
+    });
+  });
+});
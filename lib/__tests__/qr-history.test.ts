@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  HISTORY_CONFIG_VERSION,
+  HISTORY_PAGE_SIZE,
+  getHistoryConfig,
+  hasFullConfig,
+  isExactReproduction,
+  isHistoryId,
+  parseHistoryQuery,
+} from '@/lib/qr-history';
+import { DEFAULT_QR_CONFIG } from '@/lib/qr-validation';
+import { QR_RENDERER_VERSION } from '@/lib/qr-renderer';
+import type { QRCodeConfig, QRHistory } from '@/types';
+
+const storedConfig: QRCodeConfig = {
+  ...DEFAULT_QR_CONFIG,
+  text: 'https://example.com/menu',
+  style: 'rounded',
+  foregroundColor: '#123456',
+  logoSize: 0.2,
+};
+
+function entry(metadata: Partial<QRHistory['metadata']> = {}): QRHistory {
+  return {
+    id: '65f0c0ffee0123456789abcd',
+    slug: 'qr-history-1',
+    title: 'https://example.com/menu',
+    type: 'qr-history',
+    created_at: '2026-01-01T00:00:00.000Z',
+    modified_at: '2026-01-01T00:00:00.000Z',
+    metadata: {
+      url: 'https://example.com/menu',
+      style_used: 'dots',
+      colors_used: { foreground: '#ff0000', background: '#00ff00' },
+      export_format: 'png',
+      generated_at: '2026-01-01T00:00:00.000Z',
+      ...metadata,
+    },
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getHistoryConfig', () => {
+  it('rebuilds entries saved before configs were stored from their summary fields', () => {
+    const config = getHistoryConfig(entry());
+    expect(config).toEqual({
+      ...DEFAULT_QR_CONFIG,
+      text: 'https://example.com/menu',
+      style: 'dots',
+      foregroundColor: '#ff0000',
+      backgroundColor: '#00ff00',
+    });
+    expect(hasFullConfig(entry())).toBe(false);
+  });
+
+  it('reads the current version as stored, whether Cosmic returns a string or an object', () => {
+    const version = HISTORY_CONFIG_VERSION;
+    expect(getHistoryConfig(entry({ config: JSON.stringify(storedConfig), config_version: version }))).toEqual(storedConfig);
+    expect(getHistoryConfig(entry({ config: storedConfig, config_version: version }))).toEqual(storedConfig);
+    expect(hasFullConfig(entry({ config: storedConfig, config_version: version }))).toBe(true);
+  });
+
+  it('treats an unreadable config as a version 0 entry', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = entry({ config: '{not json', config_version: HISTORY_CONFIG_VERSION });
+    expect(getHistoryConfig(broken).style).toBe('dots');
+    expect(hasFullConfig(broken)).toBe(false);
+  });
+
+  it('fails loudly when no migration step exists', () => {
+    expect(() => getHistoryConfig(entry({ config: storedConfig, config_version: -1 }))).toThrow(
+      'No history migration from config version -1'
+    );
+  });
+});
+
+describe('isExactReproduction', () => {
+  it('needs a full config rendered by the current renderer', () => {
+    const full = { config: storedConfig, config_version: HISTORY_CONFIG_VERSION };
+    expect(isExactReproduction(entry({ ...full, renderer_version: QR_RENDERER_VERSION }))).toBe(true);
+    expect(isExactReproduction(entry({ ...full, renderer_version: QR_RENDERER_VERSION - 1 }))).toBe(false);
+    expect(isExactReproduction(entry({ renderer_version: QR_RENDERER_VERSION }))).toBe(false);
+  });
+});
+
+describe('parseHistoryQuery', () => {
+  it('keeps valid filters and widens dates to whole UTC days', () => {
+    expect(parseHistoryQuery({ q: '  menu ', style: 'dots', format: 'svg', from: '2026-01-01', to: '2026-01-31', page: '3' })).toEqual({
+      limit: HISTORY_PAGE_SIZE,
+      skip: 2 * HISTORY_PAGE_SIZE,
+      search: 'menu',
+      style: 'dots',
+      export_format: 'svg',
+      since: '2026-01-01T00:00:00.000Z',
+      until: '2026-01-31T23:59:59.999Z',
+    });
+  });
+
+  it('drops unknown and malformed filters', () => {
+    expect(parseHistoryQuery({ q: ' ', style: 'wavy', format: 'gif', from: '2026-13-45', to: 'yesterday', page: '-2' })).toEqual({
+      limit: HISTORY_PAGE_SIZE,
+      skip: 0,
+    });
+  });
+});
+
+describe('isHistoryId', () => {
+  it('accepts only Cosmic object IDs', () => {
+    expect(isHistoryId('65f0c0ffee0123456789abcd')).toBe(true);
+    expect(isHistoryId('65f0c0ffee0123456789abc')).toBe(false);
+    expect(isHistoryId('../../templates')).toBe(false);
+    expect(isHistoryId(undefined)).toBe(false);
+  });
+});
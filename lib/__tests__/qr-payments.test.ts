@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import {
+  encodeBitcoin,
+  encodeEpc,
+  encodeUpi,
+  isValidBic,
+  isValidBitcoinAddress,
+  isValidCreditorReference,
+  isValidIban,
+  validateBitcoin,
+  validateEpc,
+  validateUpi,
+} from '@/lib/qr-payments';
+import type { BitcoinPayload, EpcPayload, UpiPayload, ValidationIssue } from '@/types';
+
+function epc(overrides: Partial<EpcPayload> = {}): EpcPayload {
+  return {
+    type: 'epc',
+    bic: 'COBADEFFXXX',
+    name: 'Red Cross',
+    iban: 'DE89 3704 0044 0532 0130 00',
+    amount: '12.5',
+    purpose: '',
+    reference: '',
+    remittance: 'Donation',
+    information: '',
+    ...overrides,
+  };
+}
+
+function issueFields(validate: (issues: ValidationIssue[]) => void): string[] {
+  const issues: ValidationIssue[] = [];
+  validate(issues);
+  return issues.map((issue) => issue.field);
+}
+
+describe('isValidIban', () => {
+  it('accepts IBANs with spaces and lower-case letters', () => {
+    expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+    expect(isValidIban('gb82west12345698765432')).toBe(true);
+  });
+
+  it('rejects wrong check digits and wrong country lengths', () => {
+    expect(isValidIban('DE88 3704 0044 0532 0130 00')).toBe(false);
+    expect(isValidIban('DE89 3704 0044 0532 0130 0')).toBe(false);
+    expect(isValidIban('not an iban')).toBe(false);
+  });
+});
+
+describe('isValidBic', () => {
+  it('accepts 8 and 11 character BICs', () => {
+    expect(isValidBic('DEUTDEFF')).toBe(true);
+    expect(isValidBic('cobadeffxxx')).toBe(true);
+  });
+
+  it('rejects other lengths', () => {
+    expect(isValidBic('DEUTDE')).toBe(false);
+    expect(isValidBic('DEUTDEFF5')).toBe(false);
+  });
+});
+
+describe('isValidCreditorReference', () => {
+  it('checks the ISO 11649 check digits', () => {
+    expect(isValidCreditorReference('RF18 5390 0754 7034')).toBe(true);
+    expect(isValidCreditorReference('RF19 5390 0754 7034')).toBe(false);
+  });
+});
+
+describe('encodeEpc', () => {
+  it('writes the EPC069-12 lines and drops trailing empty ones', () => {
+    expect(encodeEpc(epc()).split('\n')).toEqual([
+      'BCD',
+      '002',
+      '1',
+      'SCT',
+      'COBADEFFXXX',
+      'Red Cross',
+      'DE89370400440532013000',
+      'EUR12.50',
+      '',
+      '',
+      'Donation',
+    ]);
+  });
+
+  it('leaves the remittance text out when a reference is given', () => {
+    const lines = encodeEpc(epc({ reference: 'rf18 5390 0754 7034' })).split('\n');
+    expect(lines[9]).toBe('RF18539007547034');
+    expect(lines).toHaveLength(10);
+  });
+});
+
+describe('validateEpc', () => {
+  it('accepts a complete payment', () => {
+    expect(issueFields((issues) => validateEpc(epc(), issues))).toEqual([]);
+  });
+
+  it('reports each bad field', () => {
+    const payload = epc({ name: '', iban: 'DE00', bic: 'XX', amount: '0.001', purpose: 'GD' });
+    expect(issueFields((issues) => validateEpc(payload, issues))).toEqual([
+      'name',
+      'iban',
+      'bic',
+      'amount',
+      'purpose',
+    ]);
+  });
+
+  it('refuses a reference and remittance text together', () => {
+    const payload = epc({ reference: 'RF18539007547034' });
+    expect(issueFields((issues) => validateEpc(payload, issues))).toEqual(['remittance']);
+  });
+
+  it('checks RF reference check digits', () => {
+    const payload = epc({ reference: 'RF19539007547034', remittance: '' });
+    expect(issueFields((issues) => validateEpc(payload, issues))).toEqual(['reference']);
+  });
+});
+
+describe('UPI', () => {
+  const upi: UpiPayload = {
+    type: 'upi',
+    vpa: 'shop@okbank',
+    name: 'Corner Shop',
+    amount: '250',
+    note: 'Tea & snacks',
+    reference: '',
+  };
+
+  it('encodes a upi://pay link with the @ unescaped', () => {
+    expect(encodeUpi(upi)).toBe('upi://pay?pa=shop@okbank&pn=Corner%20Shop&am=250.00&cu=INR&tn=Tea%20%26%20snacks');
+  });
+
+  it('validates the UPI ID, amount and reference', () => {
+    expect(issueFields((issues) => validateUpi(upi, issues))).toEqual([]);
+    const payload = { ...upi, vpa: 'shop', amount: '-1', reference: 'has spaces' };
+    expect(issueFields((issues) => validateUpi(payload, issues))).toEqual(['vpa', 'amount', 'reference']);
+  });
+});
+
+describe('isValidBitcoinAddress', () => {
+  it('accepts legacy and segwit addresses', () => {
+    expect(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toBe(true);
+    expect(isValidBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe(true);
+    expect(isValidBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4')).toBe(true);
+    expect(isValidBitcoinAddress('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toBe(true);
+    expect(isValidBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toBe(true);
+  });
+
+  it('rejects bad checksums and mixed-case bech32', () => {
+    expect(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toBe(false);
+    expect(isValidBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5')).toBe(false);
+    expect(isValidBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7KV8F3T4')).toBe(false);
+    expect(isValidBitcoinAddress('')).toBe(false);
+  });
+});
+
+describe('encodeBitcoin', () => {
+  const bitcoin: BitcoinPayload = {
+    type: 'bitcoin',
+    address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+    amount: '',
+    label: '',
+    message: '',
+  };
+
+  it('upper-cases a bare bech32 URI', () => {
+    expect(encodeBitcoin(bitcoin)).toBe('BITCOIN:BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4');
+  });
+
+  it('keeps the address as typed when there are parameters', () => {
+    expect(encodeBitcoin({ ...bitcoin, amount: '0.01', label: 'Tip jar' })).toBe(
+      'bitcoin:bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4?amount=0.01&label=Tip%20jar'
+    );
+  });
+
+  it('limits the amount to 8 decimals', () => {
+    const payload = { ...bitcoin, amount: '0.000000001' };
+    expect(issueFields((issues) => validateBitcoin(payload, issues))).toEqual(['amount']);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SERVER_LOGO_SIZE, resolveServerLogoUrl } from '@/lib/qr-server';
+import { encodePNG, toDataUrl } from '@/lib/image-codec';
+
+// Only the header is read before the size check, so a bare IHDR stands in for a large PNG
+function pngHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function jpegHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03]);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(7, height);
+  view.setUint16(9, width);
+  return bytes;
+}
+
+describe('resolveServerLogoUrl', () => {
+  it('passes small PNG data URLs through', async () => {
+    const logo = toDataUrl(encodePNG({ width: 2, height: 2, data: new Uint8ClampedArray(16) }), 'image/png');
+    await expect(resolveServerLogoUrl(logo)).resolves.toBe(logo);
+    await expect(resolveServerLogoUrl(undefined)).resolves.toBeUndefined();
+  });
+
+  it('rejects logos larger than the pixel cap from their headers', async () => {
+    const size = MAX_SERVER_LOGO_SIZE + 1;
+    await expect(resolveServerLogoUrl(toDataUrl(pngHeader(size, 16), 'image/png'))).rejects.toThrow('pixels');
+    await expect(resolveServerLogoUrl(toDataUrl(jpegHeader(16, size), 'image/jpeg'))).rejects.toThrow('pixels');
+  });
+
+  it('rejects other image types and unreadable data', async () => {
+    const svg = `data:image/svg+xml;base64,${btoa('<svg xmlns="http://www.w3.org/2000/svg"/>')}`;
+    await expect(resolveServerLogoUrl(svg)).rejects.toThrow('PNG or JPEG');
+    await expect(resolveServerLogoUrl('data:image/png;base64,AAAA')).rejects.toThrow('readable');
+  });
+
+  it('does not fetch URLs outside the allowed hosts', async () => {
+    await expect(resolveServerLogoUrl('http://169.254.169.254/logo.png')).rejects.toThrow('LOGO_ALLOWED_HOSTS');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_QR_CONFIG,
+  isRedirectTarget,
+  parseConfigSearchParams,
+  validateDynamicQRCodeData,
+  validateHistoryData,
+  validatePDFOptions,
+  validateQRConfig,
+} from '@/lib/qr-validation';
+import type { ValidationIssue } from '@/types';
+
+function issueFields(result: { valid: true } | { valid: false; issues: ValidationIssue[] }): string[] {
+  return result.valid ? [] : result.issues.map((issue) => issue.field);
+}
+
+describe('validateQRConfig', () => {
+  it('applies the defaults and drops unset optional fields', () => {
+    expect(validateQRConfig({ text: 'https://example.com' })).toEqual({
+      valid: true,
+      config: { text: 'https://example.com', ...DEFAULT_QR_CONFIG },
+    });
+  });
+
+  it('rejects anything but a JSON object', () => {
+    expect(issueFields(validateQRConfig(null))).toEqual(['']);
+    expect(issueFields(validateQRConfig(['text']))).toEqual(['']);
+  });
+
+  it('reports every invalid field', () => {
+    const result = validateQRConfig({
+      text: ' ',
+      size: 10,
+      margin: 2.5,
+      style: 'wavy',
+      foregroundColor: 'black',
+      pattern: 'stripes',
+      maskPattern: 8,
+    });
+    expect(issueFields(result)).toEqual(['text', 'size', 'margin', 'style', 'foregroundColor', 'pattern', 'maskPattern']);
+  });
+
+  it('limits the logo size by error correction level', () => {
+    expect(validateQRConfig({ text: 'hi', logoSize: 0.25, errorCorrectionLevel: 'Q' }).valid).toBe(true);
+    expect(issueFields(validateQRConfig({ text: 'hi', logoSize: 0.25, errorCorrectionLevel: 'L' }))).toEqual(['logoSize']);
+  });
+
+  it('only accepts http(s) and image data logo URLs', () => {
+    expect(validateQRConfig({ text: 'hi', logoUrl: 'https://example.com/logo.png' }).valid).toBe(true);
+    expect(validateQRConfig({ text: 'hi', logoUrl: 'data:image/png;base64,AAAA' }).valid).toBe(true);
+    expect(issueFields(validateQRConfig({ text: 'hi', logoUrl: 'javascript:alert(1)' }))).toEqual(['logoUrl']);
+  });
+
+  it('checks gradient stops', () => {
+    const result = validateQRConfig({
+      text: 'hi',
+      gradient: { type: 'linear', angle: 45, stops: [{ offset: 0, color: '#000000' }, { offset: 2, color: 'red' }] },
+    });
+    expect(issueFields(result)).toEqual(['gradient.stops[1].offset', 'gradient.stops[1].color']);
+  });
+
+  it('reports text that does not fit the requested version', () => {
+    const result = validateQRConfig({ text: 'x'.repeat(100), versionMode: 'fixed', version: 1 });
+    expect(issueFields(result)).toEqual(['text']);
+  });
+});
+
+describe('parseConfigSearchParams', () => {
+  it('coerces numbers and parses gradient JSON', () => {
+    const params = new URLSearchParams({
+      text: 'hi',
+      size: '256',
+      margin: '',
+      gradient: '{"type":"radial","stops":[]}',
+      format: 'svg',
+    });
+    expect(parseConfigSearchParams(params, ['format'])).toEqual({
+      text: 'hi',
+      size: 256,
+      margin: NaN,
+      gradient: { type: 'radial', stops: [] },
+    });
+  });
+});
+
+describe('validatePDFOptions', () => {
+  it('fills in the defaults', () => {
+    expect(validatePDFOptions({}).valid).toBe(true);
+  });
+
+  it('rejects unknown page sizes and codes larger than the page', () => {
+    expect(issueFields(validatePDFOptions({ pageSize: 'a3' }))).toEqual(['pageSize']);
+    expect(issueFields(validatePDFOptions({ pageSize: 'a5', codeSize: 1000 }))).toEqual(['codeSize']);
+  });
+});
+
+describe('isRedirectTarget', () => {
+  it('only allows absolute http(s) URLs', () => {
+    expect(isRedirectTarget('https://example.com/landing')).toBe(true);
+    expect(isRedirectTarget('javascript:alert(1)')).toBe(false);
+    expect(isRedirectTarget('/relative')).toBe(false);
+    expect(isRedirectTarget(`https://example.com/${'a'.repeat(2048)}`)).toBe(false);
+  });
+});
+
+describe('validateDynamicQRCodeData', () => {
+  it('requires a target when creating but not when updating', () => {
+    expect(issueFields(validateDynamicQRCodeData({}))).toEqual(['target_url']);
+    expect(validateDynamicQRCodeData({ description: 'Menu' }, true)).toEqual({
+      valid: true,
+      data: { description: 'Menu' },
+    });
+  });
+
+  it('checks each redirect rule', () => {
+    const result = validateDynamicQRCodeData({
+      target_url: 'https://example.com',
+      rules: [
+        {
+          id: 'weekend',
+          target_url: 'https://example.com/weekend',
+          starts_at: '2026-01-02T00:00:00Z',
+          ends_at: '2026-01-01T00:00:00Z',
+          min_scans: 5,
+          max_scans: 2,
+        },
+      ],
+    });
+    expect(issueFields(result)).toEqual(['rules[0].ends_at', 'rules[0].max_scans']);
+  });
+});
+
+describe('validateHistoryData', () => {
+  it('prefixes config issues and keeps only a payload that matches the text', () => {
+    expect(issueFields(validateHistoryData({ config: { text: '' }, export_format: 'gif' }))).toEqual([
+      'config.text',
+      'export_format',
+    ]);
+
+    const payload = { type: 'url', url: 'https://example.com' };
+    const matching = validateHistoryData({ config: { text: 'https://example.com', payload }, export_format: 'png' });
+    const stale = validateHistoryData({ config: { text: 'https://other.example', payload }, export_format: 'png' });
+    expect(matching.valid && matching.data.config.payload).toEqual(payload);
+    expect(stale.valid && stale.data.config.payload).toBeUndefined();
+  });
+});
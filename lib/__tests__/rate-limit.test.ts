@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { RATE_LIMITS, consumeRateLimit, getClientIp, rateLimit } from '@/lib/rate-limit';
+
+function request(forwardedFor?: string): NextRequest {
+  const headers = forwardedFor === undefined ? undefined : { 'x-forwarded-for': forwardedFor };
+  return new NextRequest('https://qr.example/api/history', { method: 'POST', headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getClientIp', () => {
+  it('takes the address added by the outermost trusted proxy, not the one the client sent', () => {
+    expect(getClientIp(request('6.6.6.6, 203.0.113.7'))).toBe('203.0.113.7');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getClientIp(request('6.6.6.6, 203.0.113.7, 10.0.0.2'))).toBe('203.0.113.7');
+  });
+
+  it('shares one client when there are fewer entries than proxies, or no proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    expect(getClientIp(request('203.0.113.7'))).toBe('unknown');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    expect(getClientIp(request('203.0.113.7'))).toBe('unknown');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(getClientIp(request())).toBe('unknown');
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('allows the limit per window and then reports the seconds left', () => {
+    const { limit, windowMs } = RATE_LIMITS.templates;
+    const start = 1_000_000;
+    for (let i = 0; i < limit; i++) {
+      expect(consumeRateLimit('templates', 'client-a', start + i)).toBeNull();
+    }
+    expect(consumeRateLimit('templates', 'client-a', start + 30_000)).toBe(Math.ceil((windowMs - 30_000) / 1000));
+    expect(consumeRateLimit('templates', 'client-b', start + 30_000)).toBeNull();
+    expect(consumeRateLimit('templates', 'client-a', start + windowMs)).toBeNull();
+  });
+});
+
+describe('rateLimit', () => {
+  it('answers 429 with Retry-After once a client is over the limit', async () => {
+    const forwardedFor = '198.51.100.20';
+    for (let i = 0; i < RATE_LIMITS.preferences.limit; i++) {
+      expect(rateLimit(request(forwardedFor), 'preferences')).toBeNull();
+    }
+    const response = rateLimit(request(forwardedFor), 'preferences');
+    expect(response?.status).toBe(429);
+    expect(Number(response?.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await response?.json()).toMatchObject({ error: { code: 'rate_limited' } });
+  });
+});
@@ -0,0 +1,62 @@
+import type {
+  QRApiErrorResponse,
+  QRTemplate,
+  QRTemplateData,
+  QRHistory,
+  QRHistoryData,
+  UserPreferences,
+  UserPreferencesData,
+  DynamicQRCode,
+  DynamicQRCodeData,
+} from '@/types';
+
+// Typed browser access to the app's API routes. Client components use these
+// instead of lib/cosmic, which holds the Cosmic write key and only runs on the server.
+
+async function requestJSON<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    body = undefined;
+  }
+  if (!response.ok) {
+    const message = (body as QRApiErrorResponse | undefined)?.error?.message;
+    throw new Error(message ?? `Request to ${path} failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+function postJSON<T>(path: string, data: unknown): Promise<T> {
+  return requestJSON<T>(path, { method: 'POST', body: JSON.stringify(data) });
+}
+
+export async function saveTemplate(data: QRTemplateData): Promise<QRTemplate> {
+  return (await postJSON<{ template: QRTemplate }>('/api/templates', data)).template;
+}
+
+export async function saveHistory(data: QRHistoryData): Promise<QRHistory> {
+  return (await postJSON<{ history: QRHistory }>('/api/history', data)).history;
+}
+
+export async function deleteHistory(id: string): Promise<void> {
+  await requestJSON<void>(`/api/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function savePreferences(data: UserPreferencesData): Promise<UserPreferences> {
+  return (await postJSON<{ preferences: UserPreferences }>('/api/preferences', data)).preferences;
+}
+
+export async function createDynamicCode(data: DynamicQRCodeData): Promise<DynamicQRCode> {
+  return (await postJSON<{ code: DynamicQRCode }>('/api/dynamic-codes', data)).code;
+}
+
+export async function updateDynamicCode(slug: string, data: Partial<DynamicQRCodeData>): Promise<DynamicQRCode> {
+  const path = `/api/dynamic-codes/${encodeURIComponent(slug)}`;
+  return (await requestJSON<{ code: DynamicQRCode }>(path, { method: 'PATCH', body: JSON.stringify(data) })).code;
+}
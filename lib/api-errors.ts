@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { QRApiErrorResponse, ValidationIssue } from '@/types';
+
+// JSON error bodies shared by the API routes
+export function errorResponse(status: number, code: string, message: string, issues?: ValidationIssue[]) {
+  const body: QRApiErrorResponse = { error: { code, message, ...(issues ? { issues } : {}) } };
+  return NextResponse.json(body, { status });
+}
+
+// 415 unless the body is declared as JSON. Cross-site forms can only send form
+// and text/plain bodies without a CORS preflight, so write routes refuse them.
+export function requireJSON(request: NextRequest) {
+  const contentType = request.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase();
+  if (contentType === 'application/json') {
+    return null;
+  }
+  return errorResponse(415, 'unsupported_media_type', 'Content-Type must be application/json');
+}
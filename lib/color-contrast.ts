@@ -0,0 +1,177 @@
+import type { QRCodeConfig, QRGradient, ContrastGrade, ContrastPair, ContrastAnalysis, UpdateQRConfigData } from '@/types';
+import { parseColor } from '@/lib/qr-raster';
+
+// Contrast checks for QR color schemes, using WCAG relative luminance
+
+// Ratios at or above this scan reliably on phone cameras
+export const SAFE_CONTRAST_RATIO = 4;
+// Below this most decoders cannot separate modules from the background
+export const MIN_CONTRAST_RATIO = 2.5;
+
+type ContrastColors = Pick<QRCodeConfig, 'foregroundColor' | 'backgroundColor' | 'gradient' | 'backgroundGradient'>;
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+export function getRelativeLuminance(color: string): number {
+  const [r, g, b] = parseColor(color);
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+export function getContrastRatio(a: string, b: string): number {
+  const la = getRelativeLuminance(a);
+  const lb = getRelativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+export function getContrastGrade(ratio: number): ContrastGrade {
+  if (ratio >= SAFE_CONTRAST_RATIO) return 'safe';
+  if (ratio >= MIN_CONTRAST_RATIO) return 'risky';
+  return 'unscannable';
+}
+
+// A gradient replaces the flat color, so only its stops are painted
+function getPaintColors(color: string, gradient?: QRGradient): string[] {
+  return gradient && gradient.stops.length > 0 ? gradient.stops.map((stop) => stop.color) : [color];
+}
+
+// Compare every foreground color against every background color and grade the worst pair
+export function analyzeContrast(colors: ContrastColors): ContrastAnalysis {
+  const foregrounds = getPaintColors(colors.foregroundColor, colors.gradient);
+  const backgrounds = getPaintColors(colors.backgroundColor, colors.backgroundGradient);
+
+  const pairs: ContrastPair[] = [];
+  let inverted = false;
+  for (const foreground of foregrounds) {
+    for (const background of backgrounds) {
+      pairs.push({ foreground, background, ratio: getContrastRatio(foreground, background) });
+      if (getRelativeLuminance(foreground) > getRelativeLuminance(background)) {
+        inverted = true;
+      }
+    }
+  }
+
+  const worstPair = pairs.reduce((worst, pair) => (pair.ratio < worst.ratio ? pair : worst));
+  return { grade: getContrastGrade(worstPair.ratio), worstPair, pairs, inverted };
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return [0, 0, l];
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) {
+    h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+  return [h / 6, s, l];
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const hueToRgb = (p: number, q: number, t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+
+  let r = l;
+  let g = l;
+  let b = l;
+  if (s > 0) {
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    r = hueToRgb(p, q, h + 1 / 3);
+    g = hueToRgb(p, q, h);
+    b = hueToRgb(p, q, h - 1 / 3);
+  }
+
+  const toHex = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+// Step the HSL lightness toward black or white until the luminance target is met,
+// keeping hue and saturation so the fix stays close to the chosen color
+function adjustToLuminance(color: string, target: number, direction: 'darker' | 'lighter'): string {
+  const current = getRelativeLuminance(color);
+  if (direction === 'darker' ? current <= target : current >= target) {
+    return color;
+  }
+
+  const [r, g, b] = parseColor(color);
+  const [h, s, l] = rgbToHsl(r, g, b);
+  for (let step = 1; step <= 200; step++) {
+    const lightness = direction === 'darker' ? l * (1 - step / 200) : l + (1 - l) * (step / 200);
+    const candidate = hslToHex(h, s, lightness);
+    const luminance = getRelativeLuminance(candidate);
+    if (direction === 'darker' ? luminance <= target : luminance >= target) {
+      return candidate;
+    }
+  }
+  return direction === 'darker' ? '#000000' : '#ffffff';
+}
+
+function adjustGradient(gradient: QRGradient | undefined, adjust: (color: string) => string): QRGradient | undefined {
+  return gradient && { ...gradient, stops: gradient.stops.map((stop) => ({ ...stop, color: adjust(stop.color) })) };
+}
+
+// Nearest dark-on-light scheme that reaches SAFE_CONTRAST_RATIO, or null when the colors are already safe.
+// Inverted schemes are swapped first; then foreground colors are darkened, and backgrounds are only
+// lightened when black would not be enough.
+export function getNearestSafeColors(input: ContrastColors): UpdateQRConfigData | null {
+  const analysis = analyzeContrast(input);
+  if (analysis.grade === 'safe' && !analysis.inverted) {
+    return null;
+  }
+
+  const colors: ContrastColors = analysis.inverted
+    ? {
+        foregroundColor: input.backgroundColor,
+        backgroundColor: input.foregroundColor,
+        gradient: input.backgroundGradient,
+        backgroundGradient: input.gradient,
+      }
+    : input;
+
+  // Leave a little headroom so rounding to hex does not land just under the threshold
+  const ratio = SAFE_CONTRAST_RATIO * 1.02;
+  const backgrounds = getPaintColors(colors.backgroundColor, colors.backgroundGradient);
+  const darkestBackground = Math.min(...backgrounds.map(getRelativeLuminance));
+
+  let backgroundTarget = darkestBackground;
+  const foregroundTarget = (darkestBackground + 0.05) / ratio - 0.05;
+  if (foregroundTarget < 0) {
+    backgroundTarget = ratio * 0.05 - 0.05;
+  }
+
+  const fixBackground = (color: string) => adjustToLuminance(color, backgroundTarget, 'lighter');
+  const fixForeground = (color: string) => adjustToLuminance(color, Math.max(0, (backgroundTarget + 0.05) / ratio - 0.05), 'darker');
+
+  const changes: UpdateQRConfigData = {
+    foregroundColor: fixForeground(colors.foregroundColor),
+    backgroundColor: fixBackground(colors.backgroundColor),
+  };
+  if (colors.gradient || input.gradient) {
+    changes.gradient = adjustGradient(colors.gradient, fixForeground);
+  }
+  if (colors.backgroundGradient || input.backgroundGradient) {
+    changes.backgroundGradient = adjustGradient(colors.backgroundGradient, fixBackground);
+  }
+  return changes;
+}
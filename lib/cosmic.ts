@@ -1,6 +1,11 @@
+import 'server-only'
 import { createBucketClient } from '@cosmicjs/sdk'
-import type { QRTemplate, ColorPalette, UserPreferences, QRHistory } from '@/types'
+import type { QRTemplate, ColorPalette, UserPreferences, QRHistory, QRHistoryQuery, QRTemplateData, QRHistoryData, UserPreferencesData, DynamicQRCode, DynamicQRCodeData, QRScan, ScanEvent, ScanQuery, ScanStore, CosmicResponse } from '@/types'
+import { HISTORY_PAGE_SIZE, HISTORY_CONFIG_VERSION } from '@/lib/qr-history'
+import { QR_RENDERER_VERSION } from '@/lib/qr-renderer'
 
+// Server-only: the bucket client carries the write key, so importing this module
+// from a client component fails the build. The browser uses lib/api-client instead.
 export const cosmic = createBucketClient({
   bucketSlug: process.env.COSMIC_BUCKET_SLUG as string,
   readKey: process.env.COSMIC_READ_KEY as string,
@@ -12,11 +17,19 @@ function hasStatus(error: unknown): error is { status: number } {
   return typeof error === 'object' && error !== null && 'status' in error;
 }
 
-// Get all QR templates
-export async function getQRTemplates(): Promise<QRTemplate[]> {
+// User data carries its owner's ID in metadata.owner_id, and every query for it
+// filters by that ID. Templates made in the Cosmic dashboard have no owner and
+// are shared with everyone; signed-out visitors only see those.
+function templateOwnerFilter(ownerId: string | null): Record<string, unknown> {
+  const shared = { 'metadata.owner_id': { $exists: false } };
+  return ownerId ? { $or: [shared, { 'metadata.owner_id': ownerId }] } : shared;
+}
+
+// Get the shared QR templates and the ones the owner saved
+export async function getQRTemplates(ownerId: string | null): Promise<QRTemplate[]> {
   try {
     const response = await cosmic.objects
-      .find({ type: 'qr-templates' })
+      .find({ type: 'qr-templates', ...templateOwnerFilter(ownerId) })
       .props(['id', 'title', 'slug', 'metadata'])
       .depth(1);
     
@@ -29,11 +42,11 @@ export async function getQRTemplates(): Promise<QRTemplate[]> {
   }
 }
 
-// Get template by slug
-export async function getQRTemplate(slug: string): Promise<QRTemplate | null> {
+// Get a shared or owned template by slug
+export async function getQRTemplate(slug: string, ownerId: string | null): Promise<QRTemplate | null> {
   try {
     const response = await cosmic.objects
-      .findOne({ type: 'qr-templates', slug })
+      .findOne({ type: 'qr-templates', slug, ...templateOwnerFilter(ownerId) })
       .props(['id', 'title', 'slug', 'metadata'])
       .depth(1);
     
@@ -46,7 +59,7 @@ export async function getQRTemplate(slug: string): Promise<QRTemplate | null> {
   }
 }
 
-// Get all color palettes
+// Get all color palettes; palettes are curated in the dashboard and shared by everyone
 export async function getColorPalettes(): Promise<ColorPalette[]> {
   try {
     const response = await cosmic.objects
@@ -63,20 +76,57 @@ export async function getColorPalettes(): Promise<ColorPalette[]> {
   }
 }
 
-// Save QR generation to history
-export async function saveQRHistory(historyData: {
-  url: string;
-  style_used: string;
-  colors_used: { foreground: string; background: string };
-  export_format: string;
-}): Promise<QRHistory> {
+// Save the current design as a reusable QR template
+export async function saveQRTemplate(ownerId: string, templateData: QRTemplateData): Promise<QRTemplate> {
+  try {
+    const { title, colors, ...metadata } = templateData;
+    const response = await cosmic.objects.insertOne({
+      type: 'qr-templates',
+      title,
+      metadata: {
+        ...metadata,
+        colors: JSON.stringify(colors),
+        owner_id: ownerId
+      }
+    });
+    
+    return response.object as QRTemplate;
+  } catch (error) {
+    console.error('Error saving QR template:', error);
+    throw new Error('Failed to save QR template');
+  }
+}
+
+// Title for a history entry; codes that aren't links are named by their start
+function getHistoryTitle(text: string): string {
+  try {
+    return `QR Code for ${new URL(text).hostname}`;
+  } catch {
+    return `QR Code for "${text.length > 40 ? `${text.slice(0, 40)}...` : text}"`;
+  }
+}
+
+// Save QR generation to history, with the complete config as a JSON string
+export async function saveQRHistory(ownerId: string, historyData: QRHistoryData): Promise<QRHistory> {
+  const { config, export_format, template_slug } = historyData;
   try {
     const response = await cosmic.objects.insertOne({
       type: 'qr-history',
-      title: `QR Code for ${new URL(historyData.url).hostname}`,
+      title: getHistoryTitle(config.text),
       metadata: {
-        ...historyData,
-        generated_at: new Date().toISOString()
+        url: config.text,
+        style_used: config.style,
+        colors_used: {
+          foreground: config.foregroundColor,
+          background: config.backgroundColor
+        },
+        export_format,
+        generated_at: new Date().toISOString(),
+        config: JSON.stringify(config),
+        config_version: HISTORY_CONFIG_VERSION,
+        renderer_version: QR_RENDERER_VERSION,
+        ...(template_slug ? { template_slug } : {}),
+        owner_id: ownerId
       }
     });
     
@@ -87,20 +137,259 @@ export async function saveQRHistory(historyData: {
   }
 }
 
-// Save user preferences
-export async function saveUserPreferences(preferences: {
-  preferred_colors?: string[];
-  default_style?: string;
-  export_format?: string;
-  auto_download?: boolean;
-}): Promise<UserPreferences> {
+// Search text is matched literally, not as a pattern
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Get one page of the owner's history, newest first
+export async function getQRHistory(ownerId: string, query: QRHistoryQuery = {}): Promise<CosmicResponse<QRHistory>> {
+  const limit = query.limit ?? HISTORY_PAGE_SIZE;
+  const skip = query.skip ?? 0;
+  const filter: Record<string, unknown> = { type: 'qr-history', 'metadata.owner_id': ownerId };
+  if (query.search) {
+    filter['metadata.url'] = { $regex: escapeRegExp(query.search), $options: 'i' };
+  }
+  if (query.style) {
+    filter['metadata.style_used'] = query.style;
+  }
+  if (query.export_format) {
+    filter['metadata.export_format'] = query.export_format;
+  }
+  if (query.since || query.until) {
+    filter['metadata.generated_at'] = {
+      ...(query.since ? { $gte: query.since } : {}),
+      ...(query.until ? { $lte: query.until } : {})
+    };
+  }
+
+  try {
+    const response = await cosmic.objects
+      .find(filter)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .sort('-created_at')
+      .limit(limit)
+      .skip(skip);
+    
+    return {
+      objects: response.objects as QRHistory[],
+      total: (response.total as number | undefined) ?? 0,
+      limit,
+      skip
+    };
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return { objects: [], total: 0, limit, skip };
+    }
+    throw new Error('Failed to fetch QR history');
+  }
+}
+
+// Get a single history entry of the owner's
+export async function getQRHistoryEntry(ownerId: string, id: string): Promise<QRHistory | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'qr-history', id, 'metadata.owner_id': ownerId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .depth(1);
+    
+    return response.object as QRHistory;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch QR history entry');
+  }
+}
+
+// Delete one of the owner's history entries; returns false when they have no such entry
+export async function deleteQRHistory(ownerId: string, id: string): Promise<boolean> {
+  const entry = await getQRHistoryEntry(ownerId, id);
+  if (!entry) {
+    return false;
+  }
+
+  try {
+    await cosmic.objects.deleteOne(entry.id);
+    return true;
+  } catch (error) {
+    console.error('Error deleting QR history:', error);
+    throw new Error('Failed to delete QR history');
+  }
+}
+
+// Get all of the owner's dynamic QR codes, newest first
+export async function getDynamicQRCodes(ownerId: string): Promise<DynamicQRCode[]> {
+  try {
+    const response = await cosmic.objects
+      .find({ type: 'dynamic-qr-codes', 'metadata.owner_id': ownerId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .sort('-created_at')
+      .depth(1);
+    
+    return response.objects as DynamicQRCode[];
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch dynamic QR codes');
+  }
+}
+
+// Look up a dynamic QR code by slug for any owner. Only for the public short
+// link, whose scanners aren't signed in, and for checking a new slug is free.
+export async function getDynamicQRCodeBySlug(slug: string): Promise<DynamicQRCode | null> {
+  return findDynamicQRCode({ type: 'dynamic-qr-codes', slug });
+}
+
+// Get one of the owner's dynamic QR codes by the slug its short link carries
+export async function getDynamicQRCode(ownerId: string, slug: string): Promise<DynamicQRCode | null> {
+  return findDynamicQRCode({ type: 'dynamic-qr-codes', slug, 'metadata.owner_id': ownerId });
+}
+
+async function findDynamicQRCode(filter: Record<string, unknown>): Promise<DynamicQRCode | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne(filter)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .depth(1);
+    
+    return response.object as DynamicQRCode;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch dynamic QR code');
+  }
+}
+
+// Rules are stored as a JSON string, like template colors
+function toDynamicQRCodeMetadata(data: Partial<DynamicQRCodeData>) {
+  return data.rules ? { ...data, rules: JSON.stringify(data.rules) } : data;
+}
+
+// Create a dynamic QR code under a slug chosen by the caller
+export async function saveDynamicQRCode(ownerId: string, slug: string, data: DynamicQRCodeData): Promise<DynamicQRCode> {
   try {
     const response = await cosmic.objects.insertOne({
-      type: 'user-preferences',
-      title: 'User QR Preferences',
-      metadata: preferences
+      type: 'dynamic-qr-codes',
+      title: `Dynamic QR Code for ${new URL(data.target_url).hostname}`,
+      slug,
+      metadata: { ...toDynamicQRCodeMetadata(data), owner_id: ownerId }
     });
     
+    return response.object as DynamicQRCode;
+  } catch (error) {
+    console.error('Error saving dynamic QR code:', error);
+    throw new Error('Failed to save dynamic QR code');
+  }
+}
+
+// Point one of the owner's dynamic QR codes somewhere else; printed codes follow
+// on their next scan. Returns null when they have no code with that slug.
+export async function updateDynamicQRCode(ownerId: string, slug: string, data: Partial<DynamicQRCodeData>): Promise<DynamicQRCode | null> {
+  const existing = await getDynamicQRCode(ownerId, slug);
+  if (!existing) {
+    return null;
+  }
+
+  try {
+    const response = await cosmic.objects.updateOne(existing.id, { metadata: toDynamicQRCodeMetadata(data) });
+    
+    return response.object as DynamicQRCode;
+  } catch (error) {
+    console.error('Error updating dynamic QR code:', error);
+    throw new Error('Failed to update dynamic QR code');
+  }
+}
+
+// Scans are read a page at a time; MAX_SCAN_EVENTS bounds one analytics query
+const SCAN_PAGE_SIZE = 1000;
+const MAX_SCAN_EVENTS = 50000;
+
+// Scan store backed by `qr-scans` objects
+export const cosmicScanStore: ScanStore = {
+  async recordScan(event: ScanEvent) {
+    try {
+      await cosmic.objects.insertOne({
+        type: 'qr-scans',
+        title: `Scan of ${event.code_slug}`,
+        metadata: event
+      });
+    } catch (error) {
+      console.error('Error saving QR scan:', error);
+      throw new Error('Failed to save QR scan');
+    }
+  },
+
+  async getScans(query: ScanQuery = {}) {
+    const filter: Record<string, unknown> = { type: 'qr-scans' };
+    if (query.owner_id) {
+      filter['metadata.owner_id'] = query.owner_id;
+    }
+    if (query.code_slug) {
+      filter['metadata.code_slug'] = query.code_slug;
+    }
+    if (query.since || query.until) {
+      filter['metadata.scanned_at'] = {
+        ...(query.since ? { $gte: query.since } : {}),
+        ...(query.until ? { $lte: query.until } : {})
+      };
+    }
+
+    const scans: ScanEvent[] = [];
+    try {
+      while (scans.length < MAX_SCAN_EVENTS) {
+        const response = await cosmic.objects
+          .find(filter)
+          .props(['metadata'])
+          .sort('created_at')
+          .limit(SCAN_PAGE_SIZE)
+          .skip(scans.length);
+        
+        const objects = response.objects as Pick<QRScan, 'metadata'>[];
+        scans.push(...objects.map((object) => object.metadata));
+        if (objects.length < SCAN_PAGE_SIZE) break;
+      }
+      return scans;
+    } catch (error) {
+      if (hasStatus(error) && error.status === 404) {
+        return scans;
+      }
+      throw new Error('Failed to fetch QR scans');
+    }
+  },
+
+  // Counted for the public short link, where the slug alone identifies the code
+  async countScans(codeSlug: string) {
+    try {
+      const response = await cosmic.objects
+        .find({ type: 'qr-scans', 'metadata.code_slug': codeSlug })
+        .props(['id'])
+        .limit(1);
+      
+      return (response.total as number | undefined) ?? 0;
+    } catch (error) {
+      if (hasStatus(error) && error.status === 404) {
+        return 0;
+      }
+      throw new Error('Failed to count QR scans');
+    }
+  }
+};
+
+// Save the owner's preferences, updating their existing object rather than adding another
+export async function saveUserPreferences(ownerId: string, preferences: UserPreferencesData): Promise<UserPreferences> {
+  try {
+    const existing = await getUserPreferences(ownerId);
+    const response = existing
+      ? await cosmic.objects.updateOne(existing.id, { metadata: preferences })
+      : await cosmic.objects.insertOne({
+          type: 'user-preferences',
+          title: 'User QR Preferences',
+          metadata: { ...preferences, owner_id: ownerId }
+        });
+    
     return response.object as UserPreferences;
   } catch (error) {
     console.error('Error saving user preferences:', error);
@@ -108,11 +397,11 @@ export async function saveUserPreferences(preferences: {
   }
 }
 
-// Get user preferences
-export async function getUserPreferences(): Promise<UserPreferences | null> {
+// Get the owner's preferences
+export async function getUserPreferences(ownerId: string): Promise<UserPreferences | null> {
   try {
     const response = await cosmic.objects
-      .findOne({ type: 'user-preferences' })
+      .findOne({ type: 'user-preferences', 'metadata.owner_id': ownerId })
       .props(['id', 'title', 'metadata'])
       .depth(1);
     
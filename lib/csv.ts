@@ -0,0 +1,6 @@
+// CSV helpers shared by the batch error report and the scan export
+
+// Quote a field when it holds a quote, comma or line break (RFC 4180)
+export function escapeCSVValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
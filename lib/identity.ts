@@ -0,0 +1,64 @@
+import 'server-only';
+import { headers } from 'next/headers';
+import type { Identity, IdentityProvider } from '@/types';
+import { errorResponse } from '@/lib/api-errors';
+
+// Who is signed in, for pages and API routes. IDENTITY_PROVIDER picks the source:
+// - local: a stand-in for development where everyone is LOCAL_OWNER_ID ("local-dev")
+// - header: an auth proxy in front of the app (oauth2-proxy, Cloudflare Access, ...)
+//   puts the user's ID in IDENTITY_HEADER ("x-forwarded-user"). The app must only be
+//   reachable through the proxy, or anyone could send that header themselves.
+// Left unset, development uses local and production has nobody signed in.
+
+const MAX_OWNER_ID_LENGTH = 200;
+
+function toIdentity(value: string | null | undefined): Identity | null {
+  const ownerId = value?.trim();
+  return ownerId && ownerId.length <= MAX_OWNER_ID_LENGTH ? { ownerId } : null;
+}
+
+export const localIdentityProvider: IdentityProvider = {
+  async getIdentity() {
+    return toIdentity(process.env.LOCAL_OWNER_ID || 'local-dev');
+  },
+};
+
+export const headerIdentityProvider: IdentityProvider = {
+  async getIdentity(requestHeaders) {
+    return toIdentity(requestHeaders.get(process.env.IDENTITY_HEADER || 'x-forwarded-user'));
+  },
+};
+
+const anonymousIdentityProvider: IdentityProvider = {
+  async getIdentity() {
+    return null;
+  },
+};
+
+const IDENTITY_PROVIDERS: Record<string, IdentityProvider> = {
+  local: localIdentityProvider,
+  header: headerIdentityProvider,
+};
+
+export function getIdentityProvider(): IdentityProvider {
+  const name = process.env.IDENTITY_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'local');
+  if (!name) {
+    return anonymousIdentityProvider;
+  }
+
+  const provider = IDENTITY_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown IDENTITY_PROVIDER "${name}"; use one of: ${Object.keys(IDENTITY_PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
+
+// The signed-in user for the current request, or null
+export async function getIdentity(): Promise<Identity | null> {
+  return getIdentityProvider().getIdentity(await headers());
+}
+
+// 401 for API routes that read or write a user's own data
+export function unauthenticatedResponse() {
+  return errorResponse(401, 'unauthenticated', 'Sign in to save and view your QR codes');
+}
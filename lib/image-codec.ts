@@ -0,0 +1,286 @@
+import { encode as encodePNGData, decode as decodePNGData, convertIndexedToRgb } from 'fast-png';
+import { decode as decodeJPEGData, encode as encodeJPEGData } from 'jpeg-js';
+import { Zlib } from 'fflate';
+import type { LossyExportOptions } from '@/types';
+import type { RasterImage } from '@/lib/qr-raster';
+
+// DOM-free helpers for moving images between bytes, base64 and raster pixels
+
+// Base64-encode bytes without relying on Buffer or FileReader
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Split a base64 data URL into its mime type and bytes
+export function parseDataUrl(dataUrl: string): { mime: string; bytes: Uint8Array } {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,([\s\S]*)$/);
+  if (!match) {
+    throw new Error('Invalid data URL format');
+  }
+
+  const mime = match[1] ?? 'application/octet-stream';
+  const payload = match[3] ?? '';
+  const bytes = match[2] ? base64ToBytes(payload) : new TextEncoder().encode(decodeURIComponent(payload));
+  return { mime, bytes };
+}
+
+export function toDataUrl(bytes: Uint8Array, mime: string): string {
+  return `data:${mime};base64,${bytesToBase64(bytes)}`;
+}
+
+// Encode RGBA pixels as a PNG file, tagged with its DPI when one is given
+export function encodePNG(image: RasterImage, dpi?: number): Uint8Array {
+  const bytes = encodePNGData({
+    width: image.width,
+    height: image.height,
+    data: image.data,
+    depth: 8,
+    channels: 4,
+  });
+  return dpi ? setPNGResolution(bytes, dpi) : bytes;
+}
+
+export const DEFAULT_LOSSY_OPTIONS: LossyExportOptions = {
+  quality: 90,
+  flattenColor: '#ffffff',
+};
+
+// Encode pixels as a baseline JPEG; alpha is ignored, so flatten first
+export function encodeJPEG(image: RasterImage, quality: number = DEFAULT_LOSSY_OPTIONS.quality): Uint8Array {
+  const { data } = encodeJPEGData({ width: image.width, height: image.height, data: image.data }, quality);
+  return new Uint8Array(data);
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (crcTable[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Length, type, data and CRC of one PNG chunk
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+// pHYs chunk: pixels per metre on both axes, so print software picks up the DPI
+function resolutionChunk(dpi: number): Uint8Array {
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  view.setUint32(0, pixelsPerMetre);
+  view.setUint32(4, pixelsPerMetre);
+  data[8] = 1;
+  return pngChunk('pHYs', data);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+// Tag a PNG with its print resolution, replacing any pHYs chunk it already has
+export function setPNGResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    const end = offset + length + 12;
+    if (type !== 'pHYs') {
+      parts.push(bytes.subarray(offset, end));
+    }
+    // pHYs must come before the image data, so it goes straight after the header
+    if (type === 'IHDR') {
+      parts.push(resolutionChunk(dpi));
+    }
+    offset = end;
+  }
+  return concatBytes(parts);
+}
+
+// Encode an RGBA PNG a band of rows at a time, so the whole image never has to
+// sit in memory or on one canvas. readRows returns RGBA for rows [top, top + count).
+export async function encodePNGInStrips(
+  width: number,
+  height: number,
+  stripHeight: number,
+  readRows: (top: number, count: number) => Promise<Uint8ClampedArray> | Uint8ClampedArray,
+  dpi?: number
+): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = 6;
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE), pngChunk('IHDR', header)];
+  if (dpi) {
+    parts.push(resolutionChunk(dpi));
+  }
+
+  const deflate = new Zlib({ level: 6 });
+  deflate.ondata = (data) => {
+    if (data.length > 0) {
+      parts.push(pngChunk('IDAT', data));
+    }
+  };
+
+  const rowBytes = width * 4;
+  for (let top = 0; top < height; top += stripHeight) {
+    const count = Math.min(stripHeight, height - top);
+    const pixels = await readRows(top, count);
+    // Each scanline starts with filter type 0 (none)
+    const raw = new Uint8Array(count * (rowBytes + 1));
+    for (let row = 0; row < count; row++) {
+      raw.set(pixels.subarray(row * rowBytes, (row + 1) * rowBytes), row * (rowBytes + 1) + 1);
+    }
+    deflate.push(raw, top + count >= height);
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return concatBytes(parts);
+}
+
+// Expand any PNG color type and bit depth to 8-bit RGBA
+function decodePNG(bytes: Uint8Array): RasterImage {
+  const png = decodePNGData(bytes);
+  const pixelCount = png.width * png.height;
+  const data = new Uint8ClampedArray(pixelCount * 4);
+
+  if (png.palette) {
+    const rgb = convertIndexedToRgb(png);
+    const channels = rgb.length / pixelCount;
+    for (let i = 0; i < pixelCount; i++) {
+      data[i * 4] = rgb[i * channels] ?? 0;
+      data[i * 4 + 1] = rgb[i * channels + 1] ?? 0;
+      data[i * 4 + 2] = rgb[i * channels + 2] ?? 0;
+      data[i * 4 + 3] = channels === 4 ? rgb[i * channels + 3] ?? 255 : 255;
+    }
+    return { width: png.width, height: png.height, data };
+  }
+
+  const scale = png.depth === 16 ? 1 / 257 : png.depth === 8 ? 1 : 255 / (2 ** png.depth - 1);
+  const hasAlpha = png.channels === 2 || png.channels === 4;
+  const colorChannels = hasAlpha ? png.channels - 1 : png.channels;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const base = i * png.channels;
+    const r = (png.data[base] ?? 0) * scale;
+    const g = colorChannels === 3 ? (png.data[base + 1] ?? 0) * scale : r;
+    const b = colorChannels === 3 ? (png.data[base + 2] ?? 0) * scale : r;
+    const a = hasAlpha ? (png.data[base + colorChannels] ?? 0) * scale : 255;
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = a;
+  }
+
+  return { width: png.width, height: png.height, data };
+}
+
+// Decode a PNG or JPEG data URL into RGBA pixels
+export function decodeImageDataUrl(dataUrl: string): RasterImage {
+  const { mime, bytes } = parseDataUrl(dataUrl);
+
+  switch (mime) {
+    case 'image/png':
+      return decodePNG(bytes);
+    case 'image/jpeg':
+    case 'image/jpg': {
+      const jpeg = decodeJPEGData(bytes, { useTArray: true, formatAsRGBA: true });
+      return { width: jpeg.width, height: jpeg.height, data: new Uint8ClampedArray(jpeg.data) };
+    }
+    default:
+      throw new Error(`Unsupported image type for raster rendering: ${mime}`);
+  }
+}
+
+// Read width and height from a PNG header without decoding the pixels
+export function getPNGSize(bytes: Uint8Array): { width: number; height: number } {
+  if (bytes.length < 24) {
+    throw new Error('PNG data is too short');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+// Read width and height from a JPEG's start-of-frame segment without decoding the pixels
+export function getJPEGSize(bytes: Uint8Array): { width: number; height: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) {
+    throw new Error('JPEG data has no start-of-image marker');
+  }
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('JPEG data has a malformed segment');
+    }
+    const marker = bytes[offset + 1] ?? 0;
+    // Fill bytes and markers without a length (RSTn, TEM) stand alone
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      if (offset + 9 > bytes.length) break;
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  throw new Error('JPEG data has no frame header');
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ScanEvent, ScanQuery, ScanStore } from '@/types';
+
+// Scan store backed by a JSON Lines file, for local development without a
+// Cosmic bucket. Enabled with SCAN_STORE=local; SCAN_STORE_PATH moves the file.
+
+const DEFAULT_STORE_PATH = '.data/scans.jsonl';
+
+function getStorePath(): string {
+  return path.resolve(process.env.SCAN_STORE_PATH || DEFAULT_STORE_PATH);
+}
+
+function matchesQuery(event: ScanEvent, query: ScanQuery): boolean {
+  return (
+    (!query.owner_id || event.owner_id === query.owner_id) &&
+    (!query.code_slug || event.code_slug === query.code_slug) &&
+    (!query.since || event.scanned_at >= query.since) &&
+    (!query.until || event.scanned_at <= query.until)
+  );
+}
+
+export const localScanStore: ScanStore = {
+  async recordScan(event) {
+    const file = getStorePath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, `${JSON.stringify(event)}\n`, 'utf8');
+  },
+
+  async getScans(query = {}) {
+    let text: string;
+    try {
+      text = await fs.readFile(getStorePath(), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const events: ScanEvent[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as ScanEvent;
+        if (matchesQuery(event, query)) {
+          events.push(event);
+        }
+      } catch {
+        // A write cut short by a crash leaves a partial last line
+      }
+    }
+    return events;
+  },
+
+  async countScans(codeSlug) {
+    return (await localScanStore.getScans({ code_slug: codeSlug })).length;
+  },
+};
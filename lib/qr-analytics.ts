@@ -0,0 +1,165 @@
+import type { ScanEvent, ScanOS, ScanDevice, ScanCount, ScanSummary } from '@/types';
+import { escapeCSVValue } from '@/lib/csv';
+
+// Scan analytics for dynamic codes: turn request headers into coarse scan
+// events, and aggregate events for the analytics page and CSV export
+
+export const SCAN_RANGE_OPTIONS = [7, 30, 90];
+export const DEFAULT_SCAN_RANGE = 30;
+export const MAX_SCAN_RANGE = 365;
+
+export const SCAN_OS_OPTIONS: ScanOS[] = ['ios', 'android', 'windows', 'macos', 'linux', 'other'];
+
+export const SCAN_OS_NAMES: Record<ScanOS, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  windows: 'Windows',
+  macos: 'macOS',
+  linux: 'Linux',
+  other: 'Other',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Link unfurlers and crawlers fetch short links too, but they are not scans
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|facebookexternalhit|embedly|curl|wget|python-requests|headless/i;
+
+export function isBotUserAgent(userAgent: string): boolean {
+  return BOT_PATTERN.test(userAgent);
+}
+
+// Order matters: iPadOS and Android user agents also mention Mac OS X and Linux
+export function parseUserAgent(userAgent: string): { os: ScanOS; device: ScanDevice } {
+  if (/iPad/.test(userAgent)) {
+    return { os: 'ios', device: 'tablet' };
+  }
+  if (/iPhone|iPod/.test(userAgent)) {
+    return { os: 'ios', device: 'mobile' };
+  }
+  if (/Android/.test(userAgent)) {
+    // Android tablets leave "Mobile" out of the user agent
+    return { os: 'android', device: /Mobile/.test(userAgent) ? 'mobile' : 'tablet' };
+  }
+  if (/Windows/.test(userAgent)) {
+    return { os: 'windows', device: 'desktop' };
+  }
+  if (/Macintosh|Mac OS X/.test(userAgent)) {
+    return { os: 'macos', device: 'desktop' };
+  }
+  if (/Linux|X11|CrOS/.test(userAgent)) {
+    return { os: 'linux', device: 'desktop' };
+  }
+  return { os: 'other', device: /Mobi/.test(userAgent) ? 'mobile' : 'desktop' };
+}
+
+// Highest-weighted Accept-Language tag, cut down to language and region ("en-US")
+export function getCoarseLocale(acceptLanguage: string | null): string | undefined {
+  if (!acceptLanguage) return undefined;
+
+  let best: { tag: string; q: number } | undefined;
+  for (const part of acceptLanguage.split(',')) {
+    const [tag = '', ...params] = part.trim().split(';');
+    const qParam = params.find((param) => param.trim().startsWith('q='));
+    const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+    if (!/^[a-z]{2,3}(-|$)/i.test(tag) || !(q > 0)) continue;
+    if (!best || q > best.q) {
+      best = { tag, q };
+    }
+  }
+  if (!best) return undefined;
+
+  const [language = '', ...subtags] = best.tag.split('-');
+  const region = subtags.find((subtag) => /^([a-z]{2}|\d{3})$/i.test(subtag));
+  return region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+}
+
+// Only the referring host is kept, never its path or query
+export function getReferrerHost(referrer: string | null): string | undefined {
+  if (!referrer) return undefined;
+  try {
+    return new URL(referrer).hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Build the event for one scan, or null when the request came from a bot
+export function createScanEvent(codeSlug: string, headers: Headers, scannedAt: Date = new Date()): ScanEvent | null {
+  const userAgent = headers.get('user-agent') ?? '';
+  if (isBotUserAgent(userAgent)) {
+    return null;
+  }
+
+  const event: ScanEvent = {
+    code_slug: codeSlug,
+    scanned_at: scannedAt.toISOString(),
+    ...parseUserAgent(userAgent),
+  };
+  const referrer = getReferrerHost(headers.get('referer'));
+  const locale = getCoarseLocale(headers.get('accept-language'));
+  if (referrer) event.referrer = referrer;
+  if (locale) event.locale = locale;
+  return event;
+}
+
+// Start of the UTC day `days - 1` days before `until`, so the range covers `days` whole days
+export function getScanRangeStart(days: number, until: Date = new Date()): Date {
+  const end = Date.UTC(until.getUTCFullYear(), until.getUTCMonth(), until.getUTCDate());
+  return new Date(end - (days - 1) * DAY_MS);
+}
+
+// Parse a ?days= value, falling back to the default range
+export function parseScanRange(value: string | null | undefined): number {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= MAX_SCAN_RANGE ? days : DEFAULT_SCAN_RANGE;
+}
+
+function countBy(scans: ScanEvent[], key: (scan: ScanEvent) => string | undefined): ScanCount[] {
+  const counts = new Map<string, number>();
+  for (const scan of scans) {
+    const value = key(scan) ?? 'unknown';
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ key: value, count })).sort(
+    (a, b) => b.count - a.count || a.key.localeCompare(b.key)
+  );
+}
+
+// Aggregate scans from `since` up to `until`; days without scans are kept as zeros
+export function summarizeScans(scans: ScanEvent[], since: Date, until: Date = new Date()): ScanSummary {
+  const inRange = scans.filter((scan) => {
+    const time = Date.parse(scan.scanned_at);
+    return time >= since.getTime() && time <= until.getTime();
+  });
+
+  const perDay = new Map<string, number>();
+  for (let time = since.getTime(); time <= until.getTime(); time += DAY_MS) {
+    perDay.set(new Date(time).toISOString().slice(0, 10), 0);
+  }
+  for (const scan of inRange) {
+    const day = scan.scanned_at.slice(0, 10);
+    perDay.set(day, (perDay.get(day) ?? 0) + 1);
+  }
+
+  return {
+    total: inRange.length,
+    byDay: Array.from(perDay, ([key, count]) => ({ key, count })),
+    byCode: countBy(inRange, (scan) => scan.code_slug),
+    byOS: countBy(inRange, (scan) => scan.os),
+    byDevice: countBy(inRange, (scan) => scan.device),
+    byLocale: countBy(inRange, (scan) => scan.locale),
+    byReferrer: countBy(inRange, (scan) => scan.referrer ?? 'direct'),
+  };
+}
+
+// One row per scan, oldest first
+export function scansToCSV(scans: ScanEvent[]): string {
+  const rows = [...scans]
+    .sort((a, b) => a.scanned_at.localeCompare(b.scanned_at))
+    .map((scan) =>
+      [scan.scanned_at, scan.code_slug, scan.os, scan.device, scan.locale ?? '', scan.referrer ?? '']
+        .map(escapeCSVValue)
+        .join(',')
+    );
+  return ['scanned_at,code_slug,os,device,locale,referrer', ...rows].join('\r\n');
+}
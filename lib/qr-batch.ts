@@ -0,0 +1,290 @@
+import { zipSync, strToU8 } from 'fflate';
+import type {
+  QRCodeConfig,
+  ExportFormat,
+  PayloadType,
+  QRPayload,
+  ParsedCSV,
+  BatchMapping,
+  BatchRowError,
+  BatchProgress,
+  BatchResult,
+  PDFExportOptions,
+} from '@/types';
+import {
+  generateQRCode,
+  generateQRCodeSVG,
+  generateQRCodePDF,
+  generateQRCodeEPS,
+  generateQRCodeImage,
+  getImagePixels,
+  resolveLogoUrl,
+  getExportExtension,
+} from '@/lib/qr-generator';
+import { buildQRScene, clampLogoSize } from '@/lib/qr-renderer';
+import { createPrintSheetWriter } from '@/lib/qr-pdf';
+import { createEmptyPayload, encodePayload, validatePayload, getRequiredErrorCorrection } from '@/lib/qr-payloads';
+import { parseDataUrl } from '@/lib/image-codec';
+import { escapeCSVValue } from '@/lib/csv';
+
+// Batch generation: map CSV rows onto payloads and render every row into one ZIP,
+// or onto print sheets in a single PDF
+
+export const MAX_BATCH_ROWS = 1000;
+
+// Parse RFC 4180 CSV; semicolon-separated files (common in European Excel exports) are detected from the header
+export function parseCSV(text: string): ParsedCSV {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  const nonEmpty = records.filter((row) => row.some((cell) => cell.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+// Fields a CSV column can be mapped onto for a payload type
+export function getPayloadFields(type: PayloadType): string[] {
+  return Object.keys(createEmptyPayload(type)).filter((key) => key !== 'type');
+}
+
+// Pre-map columns whose header matches a field name, ignoring case and separators
+export function suggestBatchMapping(headers: string[], payloadType: PayloadType): BatchMapping {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const fields: Record<string, string> = {};
+  for (const field of getPayloadFields(payloadType)) {
+    const header = headers.find((candidate) => normalize(candidate) === normalize(field));
+    if (header) {
+      fields[field] = header;
+    }
+  }
+  const firstHeader = headers[0];
+  return {
+    payloadType,
+    fields,
+    filenamePattern: firstHeader ? `qr-{${firstHeader}}` : 'qr-{row}',
+  };
+}
+
+function getCell(headers: string[], row: string[], header: string): string {
+  const index = headers.indexOf(header);
+  return index >= 0 ? (row[index] ?? '').trim() : '';
+}
+
+// Build a payload from one CSV row; boolean fields accept true/yes/1
+export function buildRowPayload(headers: string[], row: string[], mapping: BatchMapping): QRPayload {
+  const payload: Record<string, unknown> = { ...createEmptyPayload(mapping.payloadType) };
+  for (const [field, header] of Object.entries(mapping.fields)) {
+    if (!header) continue;
+    const value = getCell(headers, row, header);
+    if (typeof payload[field] === 'boolean') {
+      payload[field] = /^(true|yes|y|1)$/i.test(value);
+    } else if (field === 'security') {
+      payload[field] = /^(nopass|none|open)?$/i.test(value) ? 'nopass' : value.toUpperCase() === 'WEP' ? 'WEP' : 'WPA';
+    } else {
+      payload[field] = value;
+    }
+  }
+  return payload as unknown as QRPayload;
+}
+
+// Fill {column} and {row} placeholders and strip characters file systems reject
+export function formatBatchFilename(pattern: string, headers: string[], row: string[], rowNumber: number): string {
+  const name = pattern
+    .replace(/\{([^}]+)\}/g, (_, key: string) => (key === 'row' ? String(rowNumber) : getCell(headers, row, key)))
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+    .trim()
+    .slice(0, 100);
+  return name || `qr-${rowNumber}`;
+}
+
+async function renderFile(config: QRCodeConfig, format: ExportFormat): Promise<Uint8Array> {
+  switch (format) {
+    case 'svg':
+      return strToU8(await generateQRCodeSVG(config));
+    case 'eps':
+      return strToU8(await generateQRCodeEPS(config));
+    case 'pdf':
+      return generateQRCodePDF(config);
+    case 'webp':
+    case 'jpeg':
+      return new Uint8Array(await (await generateQRCodeImage(config, format)).arrayBuffer());
+    default:
+      return parseDataUrl(await generateQRCode(config)).bytes;
+  }
+}
+
+interface BatchOptions {
+  csv: ParsedCSV;
+  mapping: BatchMapping;
+  config: QRCodeConfig;
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Validate and render every row with the shared style; rows that fail are
+// reported instead of stopping the batch
+async function forEachBatchRow(
+  { csv, mapping, config, onProgress, signal }: BatchOptions,
+  render: (rowConfig: QRCodeConfig, row: string[], rowNumber: number) => Promise<void>
+): Promise<BatchRowError[]> {
+  if (csv.rows.length === 0) {
+    throw new Error('The CSV file has no data rows');
+  }
+  if (csv.rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`Batches are limited to ${MAX_BATCH_ROWS} rows`);
+  }
+
+  // Fetch a remote logo once rather than for every row
+  const logoUrl = await resolveLogoUrl(config.logoUrl);
+  const errors: BatchRowError[] = [];
+  const total = csv.rows.length;
+
+  for (const [index, row] of csv.rows.entries()) {
+    if (signal?.aborted) {
+      throw new Error('Batch cancelled');
+    }
+
+    const rowNumber = index + 1;
+    try {
+      const payload = buildRowPayload(csv.headers, row, mapping);
+      const issues = validatePayload(payload);
+      if (issues.length > 0) {
+        throw new Error(issues.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message)).join('; '));
+      }
+
+      await render(
+        clampLogoSize({
+          ...config,
+          logoUrl,
+          text: encodePayload(payload),
+          payload,
+          errorCorrectionLevel: getRequiredErrorCorrection(payload) ?? config.errorCorrectionLevel,
+        }),
+        row,
+        rowNumber
+      );
+    } catch (error) {
+      errors.push({ row: rowNumber, message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    onProgress?.({ completed: rowNumber, total, failed: errors.length });
+
+    // Let the browser paint progress between rows
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return errors;
+}
+
+// Render every row into its own file and bundle them into one ZIP
+export async function generateBatchZip(options: BatchOptions & { format: ExportFormat }): Promise<BatchResult> {
+  try {
+    const { csv, mapping, format } = options;
+    const files: Record<string, [Uint8Array, { level: 0 | 6 }]> = {};
+    const usedNames = new Set<string>();
+
+    const errors = await forEachBatchRow(options, async (rowConfig, row, rowNumber) => {
+      const bytes = await renderFile(rowConfig, format);
+
+      // Keep names unique so rows never overwrite each other in the archive
+      const baseName = formatBatchFilename(mapping.filenamePattern, csv.headers, row, rowNumber);
+      const extension = getExportExtension(format);
+      let name = `${baseName}.${extension}`;
+      for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix++) {
+        name = `${baseName}-${suffix}.${extension}`;
+      }
+      usedNames.add(name.toLowerCase());
+
+      // Image formats and PDF are already compressed; SVG and EPS text deflates well
+      files[name] = [bytes, { level: format === 'svg' || format === 'eps' ? 6 : 0 }];
+    });
+
+    if (errors.length > 0) {
+      const report = ['row,error', ...errors.map((error) => `${error.row},${escapeCSVValue(error.message)}`)].join('\r\n');
+      files['errors.csv'] = [strToU8(report), { level: 6 }];
+    }
+
+    const zip = zipSync(files);
+    return {
+      file: new Blob([new Uint8Array(zip)], { type: 'application/zip' }),
+      succeeded: csv.rows.length - errors.length,
+      errors,
+    };
+  } catch (error) {
+    console.error('Error generating batch:', error);
+    throw new Error(`Failed to generate batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Print every row onto shared PDF sheets, captioned with its payload or a CSV column
+export async function generateBatchSheets(options: BatchOptions & { pdfOptions: PDFExportOptions }): Promise<BatchResult> {
+  try {
+    const { csv, pdfOptions } = options;
+    const layout = pdfOptions.layout;
+    const writer = createPrintSheetWriter(pdfOptions);
+
+    // Every row shares the style, so the logo is decoded once
+    const logoUrl = await resolveLogoUrl(options.config.logoUrl);
+    const logoImage = logoUrl ? await getImagePixels(logoUrl) : undefined;
+    const config = { ...options.config, logoUrl };
+
+    const errors = await forEachBatchRow({ ...options, config }, async (rowConfig, row) => {
+      const caption =
+        layout?.caption === 'payload'
+          ? rowConfig.text
+          : layout?.caption === 'field' && layout.captionField
+            ? getCell(csv.headers, row, layout.captionField)
+            : undefined;
+      writer.add({ scene: buildQRScene(rowConfig), logoImage, caption, captionColor: rowConfig.foregroundColor });
+    });
+
+    const succeeded = csv.rows.length - errors.length;
+    const pdf = succeeded > 0 ? writer.finish() : new Uint8Array(0);
+    return {
+      file: new Blob([new Uint8Array(pdf)], { type: 'application/pdf' }),
+      succeeded,
+      errors,
+    };
+  } catch (error) {
+    console.error('Error generating batch sheets:', error);
+    throw new Error(`Failed to generate batch sheets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,21 @@
+// Dynamic codes encode a short link on this app instead of the destination,
+// so the destination can change after the code is printed
+
+export const DYNAMIC_CODE_PATH = '/r';
+
+// Lowercase so slugs survive Cosmic's slug rules, without 0/o and 1/l/i so
+// they can be read off a printout
+const SLUG_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const DYNAMIC_SLUG_LENGTH = 8;
+
+export function createDynamicSlug(length: number = DYNAMIC_SLUG_LENGTH): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('');
+}
+
+// The URL printed into the code. NEXT_PUBLIC_SITE_URL pins it to the production
+// domain so codes generated on a preview deployment keep working.
+export function getDynamicCodeUrl(slug: string, origin?: string): string {
+  const base = process.env.NEXT_PUBLIC_SITE_URL || origin || '';
+  return `${base.replace(/\/+$/, '')}${DYNAMIC_CODE_PATH}/${slug}`;
+}
@@ -0,0 +1,178 @@
+import { zlibSync } from 'fflate';
+import type { QRScene, ScenePaint, PathCommand } from '@/lib/qr-renderer';
+import { fitLogo } from '@/lib/qr-renderer';
+import { parseColor, flattenImage, type RasterImage } from '@/lib/qr-raster';
+import { gradientFunction } from '@/lib/qr-pdf';
+
+// Encapsulated PostScript backend for QR scenes, for print workflows that take
+// EPS. Modules and eyes are written as vector paths and gradients as Level 3
+// shadings. PostScript has no transparency, so shadows are left out and the
+// logo's alpha is flattened onto the background.
+
+function num(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function rgbOf(color: string): string {
+  const [r, g, b] = parseColor(color);
+  return `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+}
+
+function pathOps(path: PathCommand[]): string {
+  return path
+    .map((cmd) => {
+      switch (cmd.op) {
+        case 'M':
+          return `${num(cmd.x)} ${num(cmd.y)} m`;
+        case 'L':
+          return `${num(cmd.x)} ${num(cmd.y)} l`;
+        case 'C':
+          return `${num(cmd.x1)} ${num(cmd.y1)} ${num(cmd.x2)} ${num(cmd.y2)} ${num(cmd.x)} ${num(cmd.y)} c`;
+        case 'Z':
+          return 'h';
+      }
+    })
+    .join('\n');
+}
+
+// Tiling pattern for the 'dots' fill, built in the current (scene) space
+function dotsPattern(paint: Extract<ScenePaint, { type: 'dots' }>): string {
+  const s = num(paint.spacing);
+  const c = num(paint.spacing / 2);
+  return [
+    `<< /PatternType 1 /PaintType 1 /TilingType 1 /BBox [0 0 ${s} ${s}] /XStep ${s} /YStep ${s}`,
+    `/PaintProc { pop ${rgbOf(paint.color)} setrgbcolor 0 0 ${s} ${s} rectfill`,
+    `${rgbOf(paint.dotColor)} setrgbcolor ${c} ${c} ${num(paint.radius)} 0 360 arc fill } >>`,
+    'matrix makepattern setpattern',
+  ].join('\n');
+}
+
+function shading(paint: Extract<ScenePaint, { type: 'linear' | 'radial' }>): string {
+  const coords =
+    paint.type === 'radial'
+      ? `/ShadingType 3 /Coords [${num(paint.cx)} ${num(paint.cy)} 0 ${num(paint.cx)} ${num(paint.cy)} ${num(paint.r)}]`
+      : `/ShadingType 2 /Coords [${num(paint.x1)} ${num(paint.y1)} ${num(paint.x2)} ${num(paint.y2)}]`;
+  return `<< ${coords} /ColorSpace /DeviceRGB /Function ${gradientFunction(paint.stops)} /Extend [true true] >> shfill`;
+}
+
+// Fill a path with any scene paint; gradients are painted through the path as a clip
+function fillOps(paint: ScenePaint, path: PathCommand[], evenOdd: boolean): string {
+  const fill = evenOdd ? 'eofill' : 'fill';
+  switch (paint.type) {
+    case 'solid':
+      return `${rgbOf(paint.color)} setrgbcolor\n${pathOps(path)}\n${fill}`;
+    case 'dots':
+      return `gsave\n${dotsPattern(paint)}\n${pathOps(path)}\n${fill}\ngrestore`;
+    default:
+      return `gsave\n${pathOps(path)}\n${evenOdd ? 'eoclip' : 'clip'} newpath\n${shading(paint)}\ngrestore`;
+  }
+}
+
+// ASCII85-encode bytes. Lines start with a space, which the decoder skips, so
+// no data line can be mistaken for a DSC comment.
+function encodeASCII85(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  let line = '';
+  for (let i = 0; i < bytes.length; i += 4) {
+    const count = Math.min(4, bytes.length - i);
+    let value = 0;
+    for (let j = 0; j < 4; j++) {
+      value = value * 256 + (j < count ? bytes[i + j] ?? 0 : 0);
+    }
+
+    if (value === 0 && count === 4) {
+      line += 'z';
+    } else {
+      let group = '';
+      for (let j = 0; j < 5; j++) {
+        group = String.fromCharCode(33 + (value % 85)) + group;
+        value = Math.floor(value / 85);
+      }
+      line += group.slice(0, count + 1);
+    }
+
+    if (line.length >= 75) {
+      lines.push(line);
+      line = '';
+    }
+  }
+  lines.push(`${line}~>`);
+  return lines.map((data) => ` ${data}`).join('\n');
+}
+
+// Inline RGB image over the unit square; image rows run top to bottom like the scene
+function imageOps(image: RasterImage): string {
+  const rgb = new Uint8Array(image.width * image.height * 3);
+  for (let i = 0; i < image.width * image.height; i++) {
+    rgb[i * 3] = image.data[i * 4] ?? 0;
+    rgb[i * 3 + 1] = image.data[i * 4 + 1] ?? 0;
+    rgb[i * 3 + 2] = image.data[i * 4 + 2] ?? 0;
+  }
+  return [
+    '/DeviceRGB setcolorspace',
+    `<< /ImageType 1 /Width ${image.width} /Height ${image.height} /BitsPerComponent 8 /Decode [0 1 0 1 0 1]`,
+    `/ImageMatrix [${image.width} 0 0 ${image.height} 0 0]`,
+    '/DataSource currentfile /ASCII85Decode filter /FlateDecode filter >> image',
+    encodeASCII85(zlibSync(rgb)),
+  ].join('\n');
+}
+
+// Serialize a scene to an EPS file `width` points wide. The logo is only drawn
+// when its decoded pixels are passed in.
+export function sceneToEPS(scene: QRScene, logoImage?: RasterImage, width: number = scene.width): string {
+  const scale = width / scene.width;
+  const height = scene.height * scale;
+
+  const content: string[] = [
+    // Scene pixels (y down) onto the page (PostScript y runs up)
+    `0 ${num(height)} translate ${num(scale)} ${num(-scale)} scale`,
+    fillOps(scene.background, [
+      { op: 'M', x: 0, y: 0 },
+      { op: 'L', x: scene.width, y: 0 },
+      { op: 'L', x: scene.width, y: scene.height },
+      { op: 'L', x: 0, y: scene.height },
+      { op: 'Z' },
+    ], false),
+  ];
+
+  for (const layer of scene.layers) {
+    if (layer.path.length === 0) continue;
+    content.push(fillOps(layer.paint, layer.path, layer.fillRule === 'evenodd'));
+  }
+
+  if (scene.logo && logoImage) {
+    const { x, y, width: logoWidth, height: logoHeight } = fitLogo(scene.logo, logoImage.width, logoImage.height);
+    const matte = scene.background.type === 'solid' ? scene.background.color : '#ffffff';
+    content.push(
+      `gsave\n${num(x)} ${num(y)} translate ${num(logoWidth)} ${num(logoHeight)} scale\n${imageOps(flattenImage(logoImage, matte))}\ngrestore`
+    );
+  }
+
+  return [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    '%%Creator: QR Code Art Generator',
+    '%%Title: QR Code',
+    `%%BoundingBox: 0 0 ${Math.ceil(width)} ${Math.ceil(height)}`,
+    `%%HiResBoundingBox: 0 0 ${num(width)} ${num(height)}`,
+    '%%LanguageLevel: 3',
+    '%%EndComments',
+    '%%BeginProlog',
+    // Path shorthands live in their own dictionary so they never clash with the host document
+    '/QRCodeDict 4 dict def',
+    'QRCodeDict begin',
+    '/m { moveto } bind def',
+    '/l { lineto } bind def',
+    '/c { curveto } bind def',
+    '/h { closepath } bind def',
+    'end',
+    '%%EndProlog',
+    'QRCodeDict begin',
+    'gsave',
+    ...content,
+    'grestore',
+    'end',
+    'showpage',
+    '%%EOF',
+    '',
+  ].join('\n');
+}
@@ -1,7 +1,49 @@
-import QRCode from 'qrcode';
-import type { QRCodeConfig, ExportFormat } from '@/types';
+import type {
+  QRCodeConfig,
+  ExportFormat,
+  QREncodingInfo,
+  QRVerificationResult,
+  PDFExportOptions,
+  ExportSettings,
+  LossyExportOptions,
+} from '@/types';
+import { buildQRScene, drawSceneToCanvas, sceneToSVG } from '@/lib/qr-renderer';
+import { createQRMatrix, getEncodingInfo } from '@/lib/qr-matrix';
+import { getPNGSize, parseDataUrl, toDataUrl, setPNGResolution, encodePNGInStrips, DEFAULT_LOSSY_OPTIONS } from '@/lib/image-codec';
+import { verifyQRCode } from '@/lib/qr-verify';
+import { sceneToPDF, DEFAULT_PDF_OPTIONS } from '@/lib/qr-pdf';
+import { sceneToEPS } from '@/lib/qr-eps';
+import { getExportPixels, fromPixels, MAX_LOSSY_EXPORT_PIXELS } from '@/lib/qr-size';
+import type { RasterImage } from '@/lib/qr-raster';
 
-// Generate QR code data URL with enhanced error handling and artistic styles
+// PNGs larger than one canvas allows are drawn in horizontal bands
+const STRIP_HEIGHT = 512;
+
+// Draw a config onto a canvas of its own size; a matte color is painted
+// underneath for formats without alpha
+async function renderToCanvas(config: QRCodeConfig, matte?: string): Promise<HTMLCanvasElement> {
+  const logoUrl = await resolveLogoUrl(config.logoUrl);
+  const scene = buildQRScene({ ...config, logoUrl });
+  const logoImage = logoUrl ? await loadImage(logoUrl) : undefined;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = scene.width;
+  canvas.height = scene.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  if (matte) {
+    ctx.fillStyle = matte;
+    ctx.fillRect(0, 0, scene.width, scene.height);
+  }
+  drawSceneToCanvas(ctx, scene, logoImage);
+  return canvas;
+}
+
+// Generate QR code data URL by drawing the module matrix onto a canvas
 export async function generateQRCode(config: QRCodeConfig): Promise<string> {
   try {
     // Validate input
@@ -9,31 +51,10 @@ export async function generateQRCode(config: QRCodeConfig): Promise<string> {
       throw new Error('Invalid text input for QR code generation');
     }
 
-    const options = {
-      errorCorrectionLevel: 'M' as const,
-      type: 'image/png' as const,
-      quality: 0.92,
-      margin: config.margin || 2,
-      color: {
-        dark: config.foregroundColor || '#000000',
-        light: config.backgroundColor || '#ffffff',
-      },
-      width: config.size || 400,
-    };
-
-    console.log('Generating QR code with options:', options);
-    let dataUrl = await QRCode.toDataURL(config.text, options);
+    const canvas = await renderToCanvas(config);
+    const dataUrl = canvas.toDataURL('image/png');
     console.log('QR code generated successfully, data URL length:', dataUrl.length);
-    
-    // Apply artistic effects based on style
-    if (config.style && config.style !== 'square') {
-      try {
-        dataUrl = await applyArtisticEffects(dataUrl, config.style, config);
-      } catch (error) {
-        console.warn('Failed to apply artistic effects, using base QR code:', error);
-      }
-    }
-    
+
     return dataUrl;
   } catch (error) {
     console.error('Error in generateQRCode:', error);
@@ -41,7 +62,105 @@ export async function generateQRCode(config: QRCodeConfig): Promise<string> {
   }
 }
 
-// Generate QR code SVG with enhanced error handling and artistic styles
+// Encode a WebP or JPEG through the browser's canvas encoder. JPEG is
+// flattened onto the matte color first since it has no alpha channel.
+export async function generateQRCodeImage(
+  config: QRCodeConfig,
+  format: 'webp' | 'jpeg',
+  options: LossyExportOptions = DEFAULT_LOSSY_OPTIONS
+): Promise<Blob> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+    if (config.size > MAX_LOSSY_EXPORT_PIXELS) {
+      throw new Error(`WebP and JPEG exports are limited to ${MAX_LOSSY_EXPORT_PIXELS}px; use PNG for larger sizes`);
+    }
+
+    const mime = `image/${format}`;
+    const canvas = await renderToCanvas(config, format === 'jpeg' ? options.flattenColor : undefined);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mime, options.quality / 100));
+
+    // Browsers without an encoder for the type fall back to PNG
+    if (!blob || blob.type !== mime) {
+      throw new Error(`This browser cannot encode ${format.toUpperCase()} images`);
+    }
+    return blob;
+  } catch (error) {
+    console.error('Error in generateQRCodeImage:', error);
+    throw new Error(`Failed to generate QR code ${format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Generate an EPS document `width` points wide from the same scene as the other formats
+export async function generateQRCodeEPS(config: QRCodeConfig, width?: number): Promise<string> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code EPS generation');
+    }
+
+    const logoUrl = await resolveLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? await getImagePixels(logoUrl) : undefined;
+
+    return sceneToEPS(scene, logoImage, width);
+  } catch (error) {
+    console.error('Error in generateQRCodeEPS:', error);
+    throw new Error(`Failed to generate QR code EPS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render PNG bytes at config.size, tagged with the DPI when one is given.
+// Large sizes are drawn band by band and streamed into the encoder.
+export async function generateQRCodePNG(config: QRCodeConfig, dpi?: number): Promise<Uint8Array> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    if (config.size <= MAX_LOSSY_EXPORT_PIXELS) {
+      const bytes = parseDataUrl(await generateQRCode(config)).bytes;
+      return dpi ? setPNGResolution(bytes, dpi) : bytes;
+    }
+
+    const logoUrl = await resolveLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? await loadImage(logoUrl) : undefined;
+    const width = Math.round(scene.width);
+    const height = Math.round(scene.height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = STRIP_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    return await encodePNGInStrips(
+      width,
+      height,
+      STRIP_HEIGHT,
+      async (top, count) => {
+        // Shift the scene up so this band lands on the canvas
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, width, STRIP_HEIGHT);
+        ctx.setTransform(1, 0, 0, 1, 0, -top);
+        drawSceneToCanvas(ctx, scene, logoImage);
+        const { data } = ctx.getImageData(0, 0, width, count);
+        // Let the browser breathe between bands
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        return data;
+      },
+      dpi
+    );
+  } catch (error) {
+    console.error('Error in generateQRCodePNG:', error);
+    throw new Error(`Failed to generate QR code PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Generate QR code SVG from the same module matrix as the PNG output
 export async function generateQRCodeSVG(config: QRCodeConfig): Promise<string> {
   try {
     // Validate input
@@ -49,26 +168,10 @@ export async function generateQRCodeSVG(config: QRCodeConfig): Promise<string> {
       throw new Error('Invalid text input for QR code SVG generation');
     }
 
-    const options = {
-      errorCorrectionLevel: 'M' as const,
-      margin: config.margin || 2,
-      color: {
-        dark: config.foregroundColor || '#000000',
-        light: config.backgroundColor || '#ffffff',
-      },
-      width: config.size || 400,
-    };
+    // Embed the logo as a data URL so the SVG stays self-contained
+    const logoUrl = await resolveLogoUrl(config.logoUrl);
+    const svgString = sceneToSVG(buildQRScene({ ...config, logoUrl }));
 
-    let svgString = await QRCode.toString(config.text, { 
-      ...options, 
-      type: 'svg' 
-    });
-    
-    // Apply SVG-specific artistic effects
-    if (config.style && config.style !== 'square') {
-      svgString = applySVGArtisticEffects(svgString, config.style, config);
-    }
-    
     console.log('QR code SVG generated successfully');
     return svgString;
   } catch (error) {
@@ -77,6 +180,99 @@ export async function generateQRCodeSVG(config: QRCodeConfig): Promise<string> {
   }
 }
 
+// Generate a vector PDF from the same scene as the PNG and SVG output
+export async function generateQRCodePDF(
+  config: QRCodeConfig,
+  options: PDFExportOptions = DEFAULT_PDF_OPTIONS
+): Promise<Uint8Array> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code PDF generation');
+    }
+
+    const logoUrl = await resolveLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    // The canvas decodes any logo format the browser can display, SVG included
+    const logoImage = logoUrl ? await getImagePixels(logoUrl) : undefined;
+
+    // Sheet captions show the encoded text
+    const caption = options.layout?.caption === 'payload' ? config.text : undefined;
+    return sceneToPDF({ scene, logoImage, caption, captionColor: config.foregroundColor }, options);
+  } catch (error) {
+    console.error('Error in generateQRCodePDF:', error);
+    throw new Error(`Failed to generate QR code PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Fetch a remote logo and inline it as a data URL
+export async function resolveLogoUrl(logoUrl?: string): Promise<string | undefined> {
+  if (!logoUrl || logoUrl.startsWith('data:')) {
+    return logoUrl || undefined;
+  }
+
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) {
+      throw new Error(`Logo request failed with status ${response.status}`);
+    }
+
+    const mime = response.headers.get('content-type')?.split(';')[0] ?? 'image/png';
+    return toDataUrl(new Uint8Array(await response.arrayBuffer()), mime);
+  } catch (error) {
+    console.error('Error loading logo:', error);
+    throw new Error(`Failed to load logo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Load an image element from a data URL
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+// Read the RGBA pixels of an image data URL through a canvas
+export async function getImagePixels(dataUrl: string): Promise<RasterImage> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  ctx.drawImage(img, 0, 0);
+  const { width, height, data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { width, height, data };
+}
+
+// Decode a generated PNG and check it reads back as the configured text
+export async function verifyGeneratedQRCode(dataUrl: string, config: QRCodeConfig): Promise<QRVerificationResult> {
+  try {
+    const image = await getImagePixels(dataUrl);
+    const { moduleCount } = getQRCodeInfo(config);
+    return verifyQRCode(image, config.text, moduleCount + config.margin * 2);
+  } catch (error) {
+    console.error('Error in verifyGeneratedQRCode:', error);
+    throw new Error(`Failed to verify QR code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Report the version, module count, ECC level and mask a config encodes to
+export function getQRCodeInfo(config: QRCodeConfig): QREncodingInfo {
+  try {
+    return getEncodingInfo(createQRMatrix(config));
+  } catch (error) {
+    console.error('Error in getQRCodeInfo:', error);
+    throw new Error(`Failed to encode QR code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 // Enhanced URL validation with better pattern matching
 export function isValidUrl(text: string): boolean {
   if (!text || typeof text !== 'string' || text.trim().length === 0) {
@@ -155,6 +351,28 @@ export function downloadFile(dataUrl: string, filename: string, format: ExportFo
   }
 }
 
+// File extension for an export format; JPEGs get the usual .jpg
+export function getExportExtension(format: ExportFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+// Save a generated blob (e.g. a batch ZIP) under the given file name
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  try {
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  } finally {
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
 // Convert data URL to blob with better error handling
 export function dataUrlToBlob(dataUrl: string): Blob {
   try {
@@ -190,318 +408,57 @@ export function dataUrlToBlob(dataUrl: string): Blob {
   }
 }
 
-// Enhanced artistic effects application for PNG/Canvas
-export async function applyArtisticEffects(
-  dataUrl: string, 
-  style: string,
-  config: QRCodeConfig
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      const img = new Image();
-      
-      img.onload = () => {
-        try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            resolve(dataUrl);
-            return;
-          }
-
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          // Apply base image
-          ctx.drawImage(img, 0, 0);
-
-          // Apply style-specific effects
-          switch (style) {
-            case 'rounded':
-              applyRoundedCorners(ctx, canvas.width, canvas.height, config);
-              break;
-            case 'dots':
-              applyDotStyle(ctx, canvas.width, canvas.height, config);
-              break;
-            case 'artistic':
-              applyArtisticStyle(ctx, canvas.width, canvas.height, config);
-              break;
-            default:
-              // No special effects for 'square' style
-              break;
-          }
-
-          resolve(canvas.toDataURL('image/png'));
-        } catch (error) {
-          console.error('Error applying artistic effects:', error);
-          resolve(dataUrl); // Fall back to original
-        }
-      };
-      
-      img.onerror = () => {
-        console.error('Error loading image for artistic effects');
-        resolve(dataUrl); // Fall back to original
-      };
-      
-      img.src = dataUrl;
-    } catch (error) {
-      console.error('Error in applyArtisticEffects:', error);
-      resolve(dataUrl); // Fall back to original
-    }
-  });
-}
+// Lay a PNG data URL out on a PDF page (maintain aspect ratio, fit within page)
+export async function createImagePDF(dataUrl: string) {
+  // Dynamic import to avoid SSR issues
+  const { jsPDF } = await import('jspdf');
+  const { width, height } = getPNGSize(parseDataUrl(dataUrl).bytes);
 
-// Apply SVG artistic effects
-function applySVGArtisticEffects(svgString: string, style: string, config: QRCodeConfig): string {
-  try {
-    let modifiedSvg = svgString;
-    
-    switch (style) {
-      case 'rounded':
-        // Add rounded corners to SVG rectangles
-        modifiedSvg = modifiedSvg.replace(
-          /<rect([^>]*)>/g, 
-          '<rect$1 rx="2" ry="2">'
-        );
-        break;
-        
-      case 'dots':
-        // Convert rectangles to circles
-        modifiedSvg = modifiedSvg.replace(
-          /<rect x="(\d+)" y="(\d+)" width="(\d+)" height="(\d+)"([^>]*)\/>/g,
-          (match, x, y, width, height, attrs) => {
-            const centerX = parseInt(x) + parseInt(width) / 2;
-            const centerY = parseInt(y) + parseInt(height) / 2;
-            const radius = Math.min(parseInt(width), parseInt(height)) / 2;
-            return `<circle cx="${centerX}" cy="${centerY}" r="${radius}"${attrs}/>`;
-          }
-        );
-        break;
-        
-      case 'artistic':
-        // Add gradient and shadow effects
-        const gradientId = 'qr-gradient-' + Math.random().toString(36).substr(2, 9);
-        const shadowId = 'qr-shadow-' + Math.random().toString(36).substr(2, 9);
-        
-        const defs = `
-          <defs>
-            <linearGradient id="${gradientId}" x1="0%" y1="0%" x2="100%" y2="100%">
-              <stop offset="0%" style="stop-color:${config.foregroundColor};stop-opacity:1" />
-              <stop offset="100%" style="stop-color:${adjustColorBrightness(config.foregroundColor, -20)};stop-opacity:1" />
-            </linearGradient>
-            <filter id="${shadowId}" x="-20%" y="-20%" width="140%" height="140%">
-              <feDropShadow dx="2" dy="2" stdDeviation="1" flood-color="${config.foregroundColor}" flood-opacity="0.3"/>
-            </filter>
-          </defs>
-        `;
-        
-        modifiedSvg = modifiedSvg.replace('<svg', defs + '<svg');
-        modifiedSvg = modifiedSvg.replace(
-          /fill="([^"]*)" /g,
-          `fill="url(#${gradientId})" filter="url(#${shadowId})" `
-        );
-        break;
-    }
-    
-    return modifiedSvg;
-  } catch (error) {
-    console.error('Error applying SVG artistic effects:', error);
-    return svgString;
-  }
-}
+  const pdf = new jsPDF();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
 
-// Apply rounded corners using canvas clipping with enhanced styling
-function applyRoundedCorners(ctx: CanvasRenderingContext2D, width: number, height: number, config: QRCodeConfig): void {
-  const radius = Math.min(width, height) * 0.08;
-  
-  // Create rounded rectangle mask
-  ctx.globalCompositeOperation = 'destination-in';
-  ctx.beginPath();
-  
-  // Create rounded rectangle path
-  ctx.moveTo(radius, 0);
-  ctx.lineTo(width - radius, 0);
-  ctx.quadraticCurveTo(width, 0, width, radius);
-  ctx.lineTo(width, height - radius);
-  ctx.quadraticCurveTo(width, height, width - radius, height);
-  ctx.lineTo(radius, height);
-  ctx.quadraticCurveTo(0, height, 0, height - radius);
-  ctx.lineTo(0, radius);
-  ctx.quadraticCurveTo(0, 0, radius, 0);
-  ctx.closePath();
-  
-  ctx.fill();
-  ctx.globalCompositeOperation = 'source-over';
-  
-  // Add subtle shadow effect
-  ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
-  ctx.shadowBlur = 4;
-  ctx.shadowOffsetX = 2;
-  ctx.shadowOffsetY = 2;
-}
+  const imgAspect = width / height;
+  const maxWidth = pageWidth - 20; // 10mm margin on each side
+  const maxHeight = pageHeight - 20;
 
-// Enhanced dot style effect with proper undefined checks - FIXED
-function applyDotStyle(ctx: CanvasRenderingContext2D, width: number, height: number, config: QRCodeConfig): void {
-  // Get image data to analyze QR pattern
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-  
-  // Clear canvas
-  ctx.clearRect(0, 0, width, height);
-  
-  // Redraw background
-  ctx.fillStyle = config.backgroundColor;
-  ctx.fillRect(0, 0, width, height);
-  
-  // Apply dot pattern based on original QR data
-  const dotSize = Math.max(3, Math.floor(width / 50));
-  const spacing = dotSize * 2;
-  
-  ctx.fillStyle = config.foregroundColor;
-  
-  for (let x = 0; x < width; x += spacing) {
-    for (let y = 0; y < height; y += spacing) {
-      const pixelIndex = (y * width + x) * 4;
-      
-      // FIXED: Add proper bounds checking and undefined validation
-      if (pixelIndex >= 0 && pixelIndex + 2 < data.length) {
-        const r = data[pixelIndex];
-        const g = data[pixelIndex + 1];
-        const b = data[pixelIndex + 2];
-        
-        // Check if r, g, b are defined before using them - TYPESCRIPT FIX
-        if (typeof r === 'number' && typeof g === 'number' && typeof b === 'number') {
-          // If pixel is dark (part of QR code)
-          const brightness = (r + g + b) / 3;
-          if (brightness < 128) {
-            ctx.beginPath();
-            ctx.arc(x + dotSize/2, y + dotSize/2, dotSize/2, 0, Math.PI * 2);
-            ctx.fill();
-          }
-        }
-      }
-    }
-  }
-}
+  let imgWidth = maxWidth;
+  let imgHeight = maxWidth / imgAspect;
 
-// Enhanced artistic style with gradients and effects
-function applyArtisticStyle(ctx: CanvasRenderingContext2D, width: number, height: number, config: QRCodeConfig): void {
-  // Create gradient effect
-  const gradient = ctx.createLinearGradient(0, 0, width, height);
-  const baseColor = config.foregroundColor;
-  const lightColor = adjustColorBrightness(baseColor, 30);
-  const darkColor = adjustColorBrightness(baseColor, -30);
-  
-  gradient.addColorStop(0, lightColor);
-  gradient.addColorStop(0.5, baseColor);
-  gradient.addColorStop(1, darkColor);
-  
-  // Apply gradient overlay
-  ctx.globalCompositeOperation = 'multiply';
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, width, height);
-  
-  // Add subtle texture overlay
-  ctx.globalCompositeOperation = 'overlay';
-  for (let i = 0; i < width * height / 1000; i++) {
-    const x = Math.random() * width;
-    const y = Math.random() * height;
-    const size = Math.random() * 3 + 1;
-    
-    ctx.fillStyle = `rgba(255, 255, 255, ${Math.random() * 0.1})`;
-    ctx.fillRect(x, y, size, size);
+  if (imgHeight > maxHeight) {
+    imgHeight = maxHeight;
+    imgWidth = maxHeight * imgAspect;
   }
-  
-  ctx.globalCompositeOperation = 'source-over';
-  
-  // Add subtle glow effect
-  ctx.shadowColor = config.foregroundColor;
-  ctx.shadowBlur = 2;
-}
 
-// Helper function to adjust color brightness
-function adjustColorBrightness(color: string, amount: number): string {
-  try {
-    const hex = color.replace('#', '');
-    
-    // Ensure we have valid hex values and handle potential NaN
-    const rHex = hex.substr(0, 2);
-    const gHex = hex.substr(2, 2);
-    const bHex = hex.substr(4, 2);
-    
-    const rParsed = parseInt(rHex, 16);
-    const gParsed = parseInt(gHex, 16);
-    const bParsed = parseInt(bHex, 16);
-    
-    // Check if parsing was successful (not NaN)
-    const r = isNaN(rParsed) ? 0 : Math.max(0, Math.min(255, rParsed + amount));
-    const g = isNaN(gParsed) ? 0 : Math.max(0, Math.min(255, gParsed + amount));
-    const b = isNaN(bParsed) ? 0 : Math.max(0, Math.min(255, bParsed + amount));
-    
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-  } catch (error) {
-    return color; // Return original color if adjustment fails
-  }
+  // Center the image
+  const x = (pageWidth - imgWidth) / 2;
+  const y = (pageHeight - imgHeight) / 2;
+
+  pdf.addImage(dataUrl, 'PNG', x, y, imgWidth, imgHeight);
+  return pdf;
 }
 
 // Generate PDF from image data
 export async function generatePDF(dataUrl: string, filename: string): Promise<string> {
   try {
-    // Dynamic import to avoid SSR issues
-    const { jsPDF } = await import('jspdf');
-    
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        try {
-          const pdf = new jsPDF();
-          const pageWidth = pdf.internal.pageSize.getWidth();
-          const pageHeight = pdf.internal.pageSize.getHeight();
-          
-          // Calculate optimal size (maintain aspect ratio, fit within page)
-          const imgAspect = img.width / img.height;
-          const maxWidth = pageWidth - 20; // 10mm margin on each side
-          const maxHeight = pageHeight - 20;
-          
-          let imgWidth = maxWidth;
-          let imgHeight = maxWidth / imgAspect;
-          
-          if (imgHeight > maxHeight) {
-            imgHeight = maxHeight;
-            imgWidth = maxHeight * imgAspect;
-          }
-          
-          // Center the image
-          const x = (pageWidth - imgWidth) / 2;
-          const y = (pageHeight - imgHeight) / 2;
-          
-          pdf.addImage(dataUrl, 'PNG', x, y, imgWidth, imgHeight);
-          
-          const pdfDataUrl = pdf.output('datauristring');
-          resolve(pdfDataUrl);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      img.onerror = () => {
-        reject(new Error('Failed to load image for PDF generation'));
-      };
-      
-      img.src = dataUrl;
-    });
+    const pdf = await createImagePDF(dataUrl);
+    return pdf.output('datauristring');
   } catch (error) {
     console.error('Error generating PDF:', error);
     throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-// Enhanced download function with PDF support and better error handling
+// Enhanced download function with PDF support and better error handling.
+// With the config, rasters are rendered at the export size and DPI and PDF and
+// EPS are drawn as vectors; otherwise the preview image is saved or placed on a
+// page. WebP, JPEG and EPS always need the config.
 export async function downloadQRCode(
   dataUrl: string, 
   filename: string, 
   format: ExportFormat,
-  style?: string
+  config?: QRCodeConfig,
+  settings: ExportSettings = {}
 ): Promise<void> {
   try {
     if (!dataUrl || !filename) {
@@ -512,10 +469,39 @@ export async function downloadQRCode(
     
     // Handle PDF generation
     if (format === 'pdf') {
+      if (config) {
+        const pdf = await generateQRCodePDF(config, settings.pdf);
+        downloadBlob(new Blob([new Uint8Array(pdf)], { type: 'application/pdf' }), `${filename}.pdf`);
+        return;
+      }
       const pdfDataUrl = await generatePDF(finalDataUrl, filename);
       downloadFile(pdfDataUrl, filename, format);
       return;
     }
+
+    if (format === 'png' && config && settings.size) {
+      const png = await generateQRCodePNG({ ...config, size: getExportPixels(settings.size) }, settings.size.dpi);
+      downloadBlob(new Blob([new Uint8Array(png)], { type: 'image/png' }), `${filename}.png`);
+      return;
+    }
+
+    if (format === 'webp' || format === 'jpeg' || format === 'eps') {
+      if (!config) {
+        throw new Error(`${format.toUpperCase()} export needs the QR code config`);
+      }
+      const size = settings.size ? getExportPixels(settings.size) : config.size;
+      if (format === 'eps') {
+        // Same printed size as the PNG at the chosen DPI
+        const width = settings.size ? fromPixels(size, 'in', settings.size.dpi) * 72 : undefined;
+        const eps = await generateQRCodeEPS(config, width);
+        downloadBlob(new Blob([eps], { type: 'application/postscript' }), `${filename}.eps`);
+        return;
+      }
+      // Sizes over MAX_LOSSY_EXPORT_PIXELS are refused by generateQRCodeImage rather than shrunk
+      const image = await generateQRCodeImage({ ...config, size }, format, settings.lossy);
+      downloadBlob(image, `${filename}.${getExportExtension(format)}`);
+      return;
+    }
     
     // Handle other formats
     downloadFile(finalDataUrl, filename, format);
@@ -523,4 +509,4 @@ export async function downloadQRCode(
     console.error('Error downloading QR code:', error);
     throw new Error(`Failed to download QR code: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+import type { QRHistory, QRHistoryQuery, QRCodeConfig, QRStyle } from '@/types';
+import { DEFAULT_QR_CONFIG, QR_STYLES, ALL_EXPORT_FORMATS } from '@/lib/qr-validation';
+import { QR_RENDERER_VERSION } from '@/lib/qr-renderer';
+
+// History browser helpers: read the page's filters from the URL and turn
+// stored entries back into configs for thumbnails, downloads and the wizard
+
+export const HISTORY_PAGE_SIZE = 24;
+const MAX_HISTORY_SEARCH_LENGTH = 100;
+
+// Version of the stored config's shape. Bump it when QRCodeConfig changes in a
+// way old entries can't be read as, and add the step from the previous version
+// to HISTORY_CONFIG_MIGRATIONS.
+export const HISTORY_CONFIG_VERSION = 1;
+
+// Filters as they appear in the history page URL; from and to are YYYY-MM-DD
+export interface HistorySearchParams {
+  q?: string;
+  style?: string;
+  format?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+}
+
+// Entries are Cosmic objects, whose IDs are 24 hex characters; anything else can't exist
+export function isHistoryId(value: string | undefined): value is string {
+  return value !== undefined && /^[a-f0-9]{24}$/i.test(value);
+}
+
+function isDay(value: string | undefined): value is string {
+  return value !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// 1-based page number, falling back to the first page
+export function parseHistoryPage(value: string | undefined): number {
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 1 ? page : 1;
+}
+
+// Unknown or malformed filters are dropped rather than rejected, like the analytics range.
+// Dates cover whole UTC days, so `to` includes everything generated that day.
+export function parseHistoryQuery(params: HistorySearchParams): QRHistoryQuery {
+  const query: QRHistoryQuery = {
+    limit: HISTORY_PAGE_SIZE,
+    skip: (parseHistoryPage(params.page) - 1) * HISTORY_PAGE_SIZE,
+  };
+
+  const search = params.q?.trim().slice(0, MAX_HISTORY_SEARCH_LENGTH);
+  if (search) query.search = search;
+  if (params.style && (QR_STYLES as string[]).includes(params.style)) {
+    query.style = params.style as QRStyle;
+  }
+  const format = ALL_EXPORT_FORMATS.find((option) => option === params.format);
+  if (format) query.export_format = format;
+  if (isDay(params.from)) query.since = `${params.from}T00:00:00.000Z`;
+  if (isDay(params.to)) query.until = `${params.to}T23:59:59.999Z`;
+  return query;
+}
+
+// Config stored with an entry, which Cosmic keeps as a JSON string
+function getStoredConfig(entry: QRHistory): QRCodeConfig | undefined {
+  const { config } = entry.metadata;
+  if (!config) {
+    return undefined;
+  }
+  if (typeof config !== 'string') {
+    return config;
+  }
+
+  try {
+    return JSON.parse(config) as QRCodeConfig;
+  } catch (error) {
+    console.warn('Failed to parse history config:', error);
+    return undefined;
+  }
+}
+
+// Each step upgrades a config from the keyed version to the next one.
+// Version 0 entries have no config, only the summary fields; the settings
+// they didn't record fall back to the wizard's defaults.
+const HISTORY_CONFIG_MIGRATIONS: Record<number, (config: QRCodeConfig | undefined, entry: QRHistory) => QRCodeConfig> = {
+  0: (_config, entry) => {
+    const { url, style_used, colors_used } = entry.metadata;
+    return {
+      ...DEFAULT_QR_CONFIG,
+      text: url,
+      style: style_used,
+      foregroundColor: colors_used.foreground,
+      backgroundColor: colors_used.background,
+    };
+  },
+};
+
+// Whether an entry was saved with its complete config
+export function hasFullConfig(entry: QRHistory): boolean {
+  return (entry.metadata.config_version ?? 0) >= 1 && getStoredConfig(entry) !== undefined;
+}
+
+// Whether rendering the entry today gives exactly the pixels it was downloaded with
+export function isExactReproduction(entry: QRHistory): boolean {
+  return hasFullConfig(entry) && entry.metadata.renderer_version === QR_RENDERER_VERSION;
+}
+
+// Rebuild the config an entry was generated with, upgrading older entries
+// one version at a time. An unreadable config is rebuilt like a version 0 entry.
+export function getHistoryConfig(entry: QRHistory): QRCodeConfig {
+  let config = getStoredConfig(entry);
+  let version = config ? (entry.metadata.config_version ?? 0) : 0;
+
+  while (version < HISTORY_CONFIG_VERSION) {
+    const migrate = HISTORY_CONFIG_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No history migration from config version ${version}`);
+    }
+    config = migrate(config, entry);
+    version++;
+  }
+
+  // Entries without a stored config always go through the version 0 step
+  return config as QRCodeConfig;
+}
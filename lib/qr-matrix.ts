@@ -0,0 +1,120 @@
+import QRCode from 'qrcode';
+import type { QRCodeConfig, ErrorCorrectionLevel, QRMaskPattern, QREncodingInfo } from '@/types';
+
+// Module matrix read straight from the qrcode library. Every renderer draws
+// from this grid so modules always land on the real symbol layout.
+export interface QRMatrix {
+  size: number;
+  modules: boolean[][];
+  // Finder, timing, alignment and format modules that must never be altered
+  reserved: boolean[][];
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: QRMaskPattern;
+}
+
+type MatrixConfig = Pick<QRCodeConfig, 'text' | 'errorCorrectionLevel' | 'versionMode' | 'version' | 'maskPattern'>;
+
+export const MIN_QR_VERSION = 1;
+export const MAX_QR_VERSION = 40;
+
+// The qrcode library reports the level as its format-info bit pattern
+const ECC_LEVEL_BY_BIT: Record<number, ErrorCorrectionLevel> = {
+  0: 'M',
+  1: 'L',
+  2: 'H',
+  3: 'Q',
+};
+
+// Finder patterns are the 7x7 position markers in three corners
+const FINDER_SIZE = 7;
+
+// Build the module matrix for the given config
+export function createQRMatrix(config: MatrixConfig): QRMatrix {
+  if (!config.text || typeof config.text !== 'string') {
+    throw new Error('Invalid text input for QR matrix');
+  }
+
+  const errorCorrectionLevel = config.errorCorrectionLevel ?? 'M';
+  const versionMode = config.versionMode ?? 'auto';
+  const requestedVersion = clampVersion(config.version);
+
+  let qr = QRCode.create(config.text, {
+    errorCorrectionLevel,
+    maskPattern: config.maskPattern,
+    version: versionMode === 'fixed' ? requestedVersion : undefined,
+  });
+
+  // A minimum version only grows the symbol; larger payloads keep their own version
+  if (versionMode === 'min' && requestedVersion !== undefined && qr.version < requestedVersion) {
+    qr = QRCode.create(config.text, {
+      errorCorrectionLevel,
+      maskPattern: config.maskPattern,
+      version: requestedVersion,
+    });
+  }
+
+  const size = qr.modules.size;
+  const modules: boolean[][] = [];
+  const reserved: boolean[][] = [];
+
+  for (let row = 0; row < size; row++) {
+    const line: boolean[] = [];
+    const reservedLine: boolean[] = [];
+    for (let col = 0; col < size; col++) {
+      line.push(qr.modules.get(row, col) === 1);
+      reservedLine.push(qr.modules.isReserved(row, col) === 1);
+    }
+    modules.push(line);
+    reserved.push(reservedLine);
+  }
+
+  return {
+    size,
+    modules,
+    reserved,
+    version: qr.version,
+    errorCorrectionLevel: ECC_LEVEL_BY_BIT[qr.errorCorrectionLevel.bit] ?? errorCorrectionLevel,
+    maskPattern: qr.maskPattern ?? 0,
+  };
+}
+
+// Summarize what a matrix was encoded with for display
+export function getEncodingInfo(matrix: QRMatrix): QREncodingInfo {
+  return {
+    version: matrix.version,
+    moduleCount: matrix.size,
+    errorCorrectionLevel: matrix.errorCorrectionLevel,
+    maskPattern: matrix.maskPattern,
+  };
+}
+
+function clampVersion(version: number | undefined): number | undefined {
+  if (version === undefined || !Number.isFinite(version)) {
+    return undefined;
+  }
+  return Math.max(MIN_QR_VERSION, Math.min(MAX_QR_VERSION, Math.round(version)));
+}
+
+// Bounds-safe module lookup; anything outside the symbol is light
+export function isDarkModule(matrix: QRMatrix, row: number, col: number): boolean {
+  if (row < 0 || col < 0 || row >= matrix.size || col >= matrix.size) {
+    return false;
+  }
+  return matrix.modules[row]?.[col] === true;
+}
+
+// Check whether a module is part of a function pattern rather than data
+export function isReservedModule(matrix: QRMatrix, row: number, col: number): boolean {
+  return matrix.reserved[row]?.[col] === true;
+}
+
+// Check whether a module belongs to one of the three finder patterns
+export function isFinderModule(size: number, row: number, col: number): boolean {
+  const inTop = row < FINDER_SIZE;
+  const inLeft = col < FINDER_SIZE;
+  const inRight = col >= size - FINDER_SIZE;
+  const inBottom = row >= size - FINDER_SIZE;
+
+  return (inTop && inLeft) || (inTop && inRight) || (inBottom && inLeft);
+}
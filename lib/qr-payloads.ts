@@ -0,0 +1,353 @@
+import type {
+  PayloadType,
+  QRPayload,
+  WifiPayload,
+  ContactPayload,
+  EmailPayload,
+  SmsPayload,
+  GeoPayload,
+  EventPayload,
+  ValidationIssue,
+  ErrorCorrectionLevel,
+} from '@/types';
+import { isValidUrl, formatUrl } from '@/lib/qr-generator';
+import { encodeEpc, validateEpc, encodeUpi, validateUpi, encodeBitcoin, validateBitcoin } from '@/lib/qr-payments';
+
+// Encoders and validators for the structured content types a code can carry.
+// Each encoder returns the exact string stored in QRCodeConfig.text.
+
+export const PAYLOAD_TYPE_NAMES: Record<PayloadType, string> = {
+  url: 'Website',
+  wifi: 'Wi-Fi',
+  vcard: 'vCard',
+  mecard: 'MeCard',
+  email: 'Email',
+  sms: 'SMS',
+  geo: 'Location',
+  event: 'Event',
+  text: 'Text',
+  epc: 'SEPA Payment',
+  upi: 'UPI',
+  bitcoin: 'Bitcoin',
+};
+
+// Byte capacity of the largest symbol (version 40, ECC L) in byte mode
+export const MAX_PAYLOAD_BYTES = 2953;
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+const PHONE_PATTERN = /^\+?[0-9 ()\-.]{3,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/;
+
+// Start each form from empty fields with sensible defaults
+export function createEmptyPayload(type: PayloadType): QRPayload {
+  switch (type) {
+    case 'url':
+      return { type, url: '' };
+    case 'wifi':
+      return { type, ssid: '', password: '', security: 'WPA', hidden: false };
+    case 'vcard':
+    case 'mecard':
+      return {
+        type,
+        firstName: '',
+        lastName: '',
+        organization: '',
+        jobTitle: '',
+        phone: '',
+        email: '',
+        website: '',
+        address: '',
+        note: '',
+      };
+    case 'email':
+      return { type, to: '', subject: '', body: '' };
+    case 'sms':
+      return { type, phone: '', message: '' };
+    case 'geo':
+      return { type, latitude: '', longitude: '' };
+    case 'event':
+      return { type, title: '', start: '', end: '', allDay: false, location: '', description: '' };
+    case 'text':
+      return { type, text: '' };
+    case 'epc':
+      return { type, bic: '', name: '', iban: '', amount: '', purpose: '', reference: '', remittance: '', information: '' };
+    case 'upi':
+      return { type, vpa: '', name: '', amount: '', note: '', reference: '' };
+    case 'bitcoin':
+      return { type, address: '', amount: '', label: '', message: '' };
+  }
+}
+
+// WIFI: and MECARD: share the same escaping: backslash before \ ; , : and "
+function escapeMeCardValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+// vCard and iCalendar TEXT values escape \ ; , and line breaks
+function escapeTextValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Strip formatting characters so dialers get a plain number
+function normalizePhone(phone: string): string {
+  return phone.replace(/[^0-9+]/g, '');
+}
+
+function encodeWifi(payload: WifiPayload): string {
+  const fields = [`T:${payload.security}`, `S:${escapeMeCardValue(payload.ssid)}`];
+  if (payload.security !== 'nopass') {
+    fields.push(`P:${escapeMeCardValue(payload.password)}`);
+  }
+  if (payload.hidden) {
+    fields.push('H:true');
+  }
+  return `WIFI:${fields.join(';')};;`;
+}
+
+function encodeVCard(payload: ContactPayload): string {
+  const fullName = [payload.firstName, payload.lastName].filter(Boolean).join(' ').trim();
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeTextValue(payload.lastName)};${escapeTextValue(payload.firstName)};;;`,
+    `FN:${escapeTextValue(fullName || payload.organization)}`,
+  ];
+  if (payload.organization) lines.push(`ORG:${escapeTextValue(payload.organization)}`);
+  if (payload.jobTitle) lines.push(`TITLE:${escapeTextValue(payload.jobTitle)}`);
+  if (payload.phone) lines.push(`TEL;TYPE=CELL:${normalizePhone(payload.phone)}`);
+  if (payload.email) lines.push(`EMAIL:${escapeTextValue(payload.email)}`);
+  if (payload.website) lines.push(`URL:${escapeTextValue(formatUrl(payload.website))}`);
+  if (payload.address) lines.push(`ADR:;;${escapeTextValue(payload.address)};;;;`);
+  if (payload.note) lines.push(`NOTE:${escapeTextValue(payload.note)}`);
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+}
+
+function encodeMeCard(payload: ContactPayload): string {
+  const name = [payload.lastName, payload.firstName].filter(Boolean).map(escapeMeCardValue).join(',');
+  const fields = [`N:${name || escapeMeCardValue(payload.organization)}`];
+  if (payload.organization) fields.push(`ORG:${escapeMeCardValue(payload.organization)}`);
+  if (payload.phone) fields.push(`TEL:${normalizePhone(payload.phone)}`);
+  if (payload.email) fields.push(`EMAIL:${escapeMeCardValue(payload.email)}`);
+  if (payload.website) fields.push(`URL:${escapeMeCardValue(formatUrl(payload.website))}`);
+  if (payload.address) fields.push(`ADR:${escapeMeCardValue(payload.address)}`);
+  if (payload.note) fields.push(`NOTE:${escapeMeCardValue(payload.note)}`);
+  return `MECARD:${fields.join(';')};;`;
+}
+
+function encodeEmail(payload: EmailPayload): string {
+  const recipients = payload.to.split(',').map((address) => address.trim()).filter(Boolean).join(',');
+  const params: string[] = [];
+  if (payload.subject) params.push(`subject=${encodeURIComponent(payload.subject)}`);
+  if (payload.body) params.push(`body=${encodeURIComponent(payload.body.replace(/\r?\n/g, '\r\n'))}`);
+  return `mailto:${recipients}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+// SMSTO: is the form both iOS and Android camera apps recognise
+function encodeSms(payload: SmsPayload): string {
+  const phone = normalizePhone(payload.phone);
+  return payload.message ? `SMSTO:${phone}:${payload.message}` : `SMSTO:${phone}`;
+}
+
+function encodeGeo(payload: GeoPayload): string {
+  return `geo:${Number(payload.latitude)},${Number(payload.longitude)}`;
+}
+
+// Floating local time (no time zone), e.g. 20250314T093000
+function formatCalendarDateTime(value: string): string {
+  const [date = '', time = ''] = value.split('T');
+  const [hours = '00', minutes = '00', seconds = '00'] = time.split(':');
+  return `${date.replace(/-/g, '')}T${hours}${minutes}${seconds}`;
+}
+
+// All-day events end on the following day (DTEND is exclusive)
+function formatCalendarEndDate(value: string): string {
+  const [year = 0, month = 1, day = 1] = value.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// A bare VEVENT is the form QR scanners expect for calendar entries
+function encodeEvent(payload: EventPayload): string {
+  const lines = ['BEGIN:VEVENT', `SUMMARY:${escapeTextValue(payload.title)}`];
+  if (payload.allDay) {
+    const start = payload.start.slice(0, 10);
+    const end = (payload.end || payload.start).slice(0, 10);
+    lines.push(`DTSTART;VALUE=DATE:${start.replace(/-/g, '')}`);
+    lines.push(`DTEND;VALUE=DATE:${formatCalendarEndDate(end)}`);
+  } else {
+    lines.push(`DTSTART:${formatCalendarDateTime(payload.start)}`);
+    if (payload.end) lines.push(`DTEND:${formatCalendarDateTime(payload.end)}`);
+  }
+  if (payload.location) lines.push(`LOCATION:${escapeTextValue(payload.location)}`);
+  if (payload.description) lines.push(`DESCRIPTION:${escapeTextValue(payload.description)}`);
+  lines.push('END:VEVENT');
+  return lines.join('\r\n');
+}
+
+// Build the string to encode for a payload
+export function encodePayload(payload: QRPayload): string {
+  switch (payload.type) {
+    case 'url':
+      return formatUrl(payload.url);
+    case 'wifi':
+      return encodeWifi(payload);
+    case 'vcard':
+      return encodeVCard(payload);
+    case 'mecard':
+      return encodeMeCard(payload);
+    case 'email':
+      return encodeEmail(payload);
+    case 'sms':
+      return encodeSms(payload);
+    case 'geo':
+      return encodeGeo(payload);
+    case 'event':
+      return encodeEvent(payload);
+    case 'text':
+      return payload.text;
+    case 'epc':
+      return encodeEpc(payload);
+    case 'upi':
+      return encodeUpi(payload);
+    case 'bitcoin':
+      return encodeBitcoin(payload);
+  }
+}
+
+// Error correction level a payload's specification mandates, if any
+export function getRequiredErrorCorrection(payload: QRPayload | undefined): ErrorCorrectionLevel | undefined {
+  // EPC069-12 requires level M for SEPA credit transfer codes
+  return payload?.type === 'epc' ? 'M' : undefined;
+}
+
+function validateWifi(payload: WifiPayload, issues: ValidationIssue[]): void {
+  if (payload.ssid.length === 0) {
+    issues.push({ field: 'ssid', message: 'Network name is required' });
+  } else if (new TextEncoder().encode(payload.ssid).length > 32) {
+    issues.push({ field: 'ssid', message: 'Network names are at most 32 bytes' });
+  }
+
+  if (payload.security === 'WPA' && (payload.password.length < 8 || payload.password.length > 63)) {
+    issues.push({ field: 'password', message: 'WPA passwords are 8 to 63 characters' });
+  }
+  if (payload.security === 'WEP' && !/^([0-9a-fA-F]{10}|[0-9a-fA-F]{26}|.{5}|.{13})$/.test(payload.password)) {
+    issues.push({ field: 'password', message: 'WEP keys are 5 or 13 characters, or 10 or 26 hex digits' });
+  }
+}
+
+function validateContact(payload: ContactPayload, issues: ValidationIssue[]): void {
+  if (!payload.firstName.trim() && !payload.lastName.trim() && !payload.organization.trim()) {
+    issues.push({ field: 'firstName', message: 'Enter a name or an organization' });
+  }
+  if (payload.phone && !PHONE_PATTERN.test(payload.phone.trim())) {
+    issues.push({ field: 'phone', message: 'Enter a valid phone number' });
+  }
+  if (payload.email && !EMAIL_PATTERN.test(payload.email.trim())) {
+    issues.push({ field: 'email', message: 'Enter a valid email address' });
+  }
+  if (payload.website && !isValidUrl(payload.website)) {
+    issues.push({ field: 'website', message: 'Enter a valid website address' });
+  }
+}
+
+function validateEmail(payload: EmailPayload, issues: ValidationIssue[]): void {
+  const recipients = payload.to.split(',').map((address) => address.trim()).filter(Boolean);
+  if (recipients.length === 0) {
+    issues.push({ field: 'to', message: 'At least one recipient is required' });
+  } else if (!recipients.every((address) => EMAIL_PATTERN.test(address))) {
+    issues.push({ field: 'to', message: 'Enter valid email addresses separated by commas' });
+  }
+}
+
+function validateSms(payload: SmsPayload, issues: ValidationIssue[]): void {
+  if (!PHONE_PATTERN.test(payload.phone.trim())) {
+    issues.push({ field: 'phone', message: 'Enter a valid phone number' });
+  }
+}
+
+function validateGeo(payload: GeoPayload, issues: ValidationIssue[]): void {
+  const latitude = Number(payload.latitude);
+  const longitude = Number(payload.longitude);
+  if (payload.latitude.trim() === '' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    issues.push({ field: 'latitude', message: 'Latitude must be between -90 and 90' });
+  }
+  if (payload.longitude.trim() === '' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    issues.push({ field: 'longitude', message: 'Longitude must be between -180 and 180' });
+  }
+}
+
+function validateEvent(payload: EventPayload, issues: ValidationIssue[]): void {
+  if (!payload.title.trim()) {
+    issues.push({ field: 'title', message: 'Event title is required' });
+  }
+
+  const pattern = payload.allDay ? DATE_PATTERN : DATE_TIME_PATTERN;
+  const start = payload.allDay ? payload.start.slice(0, 10) : payload.start;
+  const end = payload.allDay ? payload.end.slice(0, 10) : payload.end;
+  if (!pattern.test(start)) {
+    issues.push({ field: 'start', message: 'Start date is required' });
+  }
+  if (end && !pattern.test(end)) {
+    issues.push({ field: 'end', message: 'End date is not valid' });
+  } else if (end && pattern.test(start) && end < start) {
+    issues.push({ field: 'end', message: 'End must be after the start' });
+  }
+}
+
+// Check a payload's fields, then make sure the encoded result fits in a QR code
+export function validatePayload(payload: QRPayload): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  switch (payload.type) {
+    case 'url':
+      if (!payload.url.trim() || !isValidUrl(payload.url)) {
+        issues.push({ field: 'url', message: 'Please enter a valid URL (e.g., google.com or https://example.com)' });
+      }
+      break;
+    case 'wifi':
+      validateWifi(payload, issues);
+      break;
+    case 'vcard':
+    case 'mecard':
+      validateContact(payload, issues);
+      break;
+    case 'email':
+      validateEmail(payload, issues);
+      break;
+    case 'sms':
+      validateSms(payload, issues);
+      break;
+    case 'geo':
+      validateGeo(payload, issues);
+      break;
+    case 'event':
+      validateEvent(payload, issues);
+      break;
+    case 'text':
+      if (!payload.text.trim()) {
+        issues.push({ field: 'text', message: 'Text is required' });
+      }
+      break;
+    case 'epc':
+      validateEpc(payload, issues);
+      break;
+    case 'upi':
+      validateUpi(payload, issues);
+      break;
+    case 'bitcoin':
+      validateBitcoin(payload, issues);
+      break;
+  }
+
+  if (issues.length === 0 && new TextEncoder().encode(encodePayload(payload)).length > MAX_PAYLOAD_BYTES) {
+    issues.push({ field: '', message: `Content is too long for a QR code (max ${MAX_PAYLOAD_BYTES} bytes)` });
+  }
+
+  return issues;
+}
@@ -0,0 +1,348 @@
+import { sha256 } from '@noble/hashes/sha2';
+import type { EpcPayload, UpiPayload, BitcoinPayload, ValidationIssue } from '@/types';
+
+// Payment payload builders: EPC069-12 SEPA credit transfers, UPI deep links and BIP21 bitcoin URIs
+
+// EPC069-12 caps the whole payload at 331 bytes
+export const MAX_EPC_PAYLOAD_BYTES = 331;
+
+// SEPA Latin characters; accented letters are carried through the UTF-8 character set
+const SEPA_TEXT_PATTERN = /^[A-Za-z0-9À-ÖØ-öø-ÿ/\-?:().,'+ ]*$/;
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const PURPOSE_PATTERN = /^[A-Z]{4}$/;
+const EUR_AMOUNT_PATTERN = /^\d{1,9}(\.\d{1,2})?$/;
+
+const UPI_VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9.\-]{1,63}$/;
+const UPI_TEXT_PATTERN = /^[A-Za-z0-9 .,'&\-]*$/;
+const INR_AMOUNT_PATTERN = /^\d{1,7}(\.\d{1,2})?$/;
+
+const BTC_AMOUNT_PATTERN = /^\d{1,8}(\.\d{1,8})?$/;
+const MAX_BITCOIN = 21000000;
+
+// IBAN lengths for the SEPA scheme countries
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22,
+};
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// ISO 7064 mod 97-10 over a string where letters count as 10..35
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+export function isValidIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{1,30}$/.test(value)) {
+    return false;
+  }
+  const expectedLength = IBAN_LENGTHS[value.slice(0, 2)];
+  if (expectedLength !== undefined && value.length !== expectedLength) {
+    return false;
+  }
+  return mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+// BICs carry no check digits, so this checks the ISO 9362 structure
+export function isValidBic(bic: string): boolean {
+  return BIC_PATTERN.test(bic.replace(/\s+/g, '').toUpperCase());
+}
+
+// ISO 11649 structured creditor reference (RF + 2 check digits + up to 21 characters)
+export function isValidCreditorReference(reference: string): boolean {
+  const value = reference.replace(/\s+/g, '').toUpperCase();
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(value)) {
+    return false;
+  }
+  return mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function checkText(
+  issues: ValidationIssue[],
+  field: string,
+  value: string,
+  maxLength: number,
+  pattern: RegExp,
+  allowed: string
+): void {
+  if (value.length > maxLength) {
+    issues.push({ field, message: `Must be at most ${maxLength} characters` });
+  } else if (!pattern.test(value)) {
+    issues.push({ field, message: `Only ${allowed} are allowed` });
+  }
+}
+
+export function encodeEpc(payload: EpcPayload): string {
+  const amount = payload.amount.trim() ? `EUR${Number(payload.amount).toFixed(2)}` : '';
+  const reference = payload.reference.replace(/\s+/g, '').toUpperCase();
+  const lines = [
+    'BCD',
+    '002',
+    '1',
+    'SCT',
+    payload.bic.replace(/\s+/g, '').toUpperCase(),
+    payload.name.trim(),
+    normalizeIban(payload.iban),
+    amount,
+    payload.purpose.trim().toUpperCase(),
+    reference,
+    reference ? '' : payload.remittance.trim(),
+    payload.information.trim(),
+  ];
+
+  // Trailing empty elements may be left out
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.join('\n');
+}
+
+export function validateEpc(payload: EpcPayload, issues: ValidationIssue[]): void {
+  const sepaCharacters = 'letters, digits, spaces and / - ? : ( ) . , \' +';
+
+  if (!payload.name.trim()) {
+    issues.push({ field: 'name', message: 'Beneficiary name is required' });
+  } else {
+    checkText(issues, 'name', payload.name.trim(), 70, SEPA_TEXT_PATTERN, sepaCharacters);
+  }
+
+  if (!isValidIban(payload.iban)) {
+    issues.push({ field: 'iban', message: 'Enter a valid IBAN (the check digits do not match)' });
+  }
+  if (payload.bic.trim() && !isValidBic(payload.bic)) {
+    issues.push({ field: 'bic', message: 'BIC must be 8 or 11 characters, e.g. DEUTDEFF' });
+  }
+
+  if (payload.amount.trim()) {
+    const amount = Number(payload.amount);
+    if (!EUR_AMOUNT_PATTERN.test(payload.amount.trim()) || amount < 0.01 || amount > 999999999.99) {
+      issues.push({ field: 'amount', message: 'Amount must be between 0.01 and 999999999.99 EUR with at most 2 decimals' });
+    }
+  }
+
+  if (payload.purpose.trim() && !PURPOSE_PATTERN.test(payload.purpose.trim().toUpperCase())) {
+    issues.push({ field: 'purpose', message: 'Purpose must be a 4-letter ISO 20022 code, e.g. GDDS' });
+  }
+
+  // A payment carries either a structured reference or free remittance text, never both
+  if (payload.reference.trim() && payload.remittance.trim()) {
+    issues.push({ field: 'remittance', message: 'Use either a creditor reference or remittance text, not both' });
+  }
+  if (payload.reference.trim()) {
+    const reference = payload.reference.replace(/\s+/g, '');
+    if (reference.length > 35) {
+      issues.push({ field: 'reference', message: 'Must be at most 35 characters' });
+    } else if (/^RF/i.test(reference) && !isValidCreditorReference(reference)) {
+      issues.push({ field: 'reference', message: 'RF creditor reference check digits do not match' });
+    } else if (!/^[A-Za-z0-9]+$/.test(reference)) {
+      issues.push({ field: 'reference', message: 'Only letters and digits are allowed' });
+    }
+  }
+  checkText(issues, 'remittance', payload.remittance.trim(), 140, SEPA_TEXT_PATTERN, sepaCharacters);
+  checkText(issues, 'information', payload.information.trim(), 70, SEPA_TEXT_PATTERN, sepaCharacters);
+
+  if (issues.length === 0 && byteLength(encodeEpc(payload)) > MAX_EPC_PAYLOAD_BYTES) {
+    issues.push({ field: '', message: `EPC payment codes are limited to ${MAX_EPC_PAYLOAD_BYTES} bytes` });
+  }
+}
+
+export function encodeUpi(payload: UpiPayload): string {
+  const params: Array<[string, string]> = [
+    ['pa', payload.vpa.trim()],
+    ['pn', payload.name.trim()],
+  ];
+  if (payload.amount.trim()) params.push(['am', Number(payload.amount).toFixed(2)]);
+  params.push(['cu', 'INR']);
+  if (payload.note.trim()) params.push(['tn', payload.note.trim()]);
+  if (payload.reference.trim()) params.push(['tr', payload.reference.trim()]);
+
+  // Payment apps expect the @ in the UPI ID unescaped
+  const query = params.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`);
+  return `upi://pay?${query.join('&')}`;
+}
+
+export function validateUpi(payload: UpiPayload, issues: ValidationIssue[]): void {
+  if (!UPI_VPA_PATTERN.test(payload.vpa.trim())) {
+    issues.push({ field: 'vpa', message: 'Enter a valid UPI ID, e.g. name@bank' });
+  }
+
+  const allowed = 'letters, digits, spaces and . , \' & -';
+  if (!payload.name.trim()) {
+    issues.push({ field: 'name', message: 'Payee name is required' });
+  } else {
+    checkText(issues, 'name', payload.name.trim(), 99, UPI_TEXT_PATTERN, allowed);
+  }
+
+  if (payload.amount.trim()) {
+    const amount = Number(payload.amount);
+    if (!INR_AMOUNT_PATTERN.test(payload.amount.trim()) || amount <= 0) {
+      issues.push({ field: 'amount', message: 'Amount must be a positive rupee value with at most 2 decimals' });
+    }
+  }
+
+  checkText(issues, 'note', payload.note.trim(), 80, UPI_TEXT_PATTERN, allowed);
+  if (payload.reference.trim() && !/^[A-Za-z0-9]{1,35}$/.test(payload.reference.trim())) {
+    issues.push({ field: 'reference', message: 'Reference must be up to 35 letters and digits' });
+  }
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, i) => {
+      if ((top >>> i) & 1) {
+        checksum ^= generator;
+      }
+    });
+  }
+  return checksum >>> 0;
+}
+
+function expandHrp(hrp: string): number[] {
+  const high = hrp.split('').map((char) => char.charCodeAt(0) >> 5);
+  const low = hrp.split('').map((char) => char.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+// Regroup 5-bit words into bytes, rejecting non-zero padding
+function fromWords(words: number[]): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || ((accumulator << (8 - bits)) & 0xff) !== 0) {
+    return null;
+  }
+  return bytes;
+}
+
+// BIP173 / BIP350 segwit address check
+function isValidSegwitAddress(address: string): boolean {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    return false;
+  }
+
+  const value = address.toLowerCase();
+  const separator = value.lastIndexOf('1');
+  const hrp = value.slice(0, separator);
+  if (!['bc', 'tb', 'bcrt'].includes(hrp) || value.length > 90) {
+    return false;
+  }
+
+  const data = value.slice(separator + 1).split('').map((char) => BECH32_CHARSET.indexOf(char));
+  if (data.length < 7 || data.some((word) => word < 0)) {
+    return false;
+  }
+
+  const witnessVersion = data[0] ?? -1;
+  const expected = witnessVersion === 0 ? BECH32_CONST : BECH32M_CONST;
+  if (witnessVersion > 16 || bech32Polymod([...expandHrp(hrp), ...data]) !== expected) {
+    return false;
+  }
+
+  const program = fromWords(data.slice(1, -6));
+  if (!program || program.length < 2 || program.length > 40) {
+    return false;
+  }
+  return witnessVersion !== 0 || program.length === 20 || program.length === 32;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function decodeBase58(value: string): Uint8Array | null {
+  // Little-endian base-256 accumulator
+  const bytes: number[] = [];
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      return null;
+    }
+    let carry = digit;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += (bytes[i] ?? 0) * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' stands for a leading zero byte
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return new Uint8Array([...new Array<number>(leadingZeros).fill(0), ...bytes.reverse()]);
+}
+
+// Legacy P2PKH / P2SH address with a double SHA-256 checksum. The hash comes from
+// @noble/hashes because it has to be synchronous: addresses are validated on every keystroke.
+function isValidBase58Address(address: string): boolean {
+  const bytes = decodeBase58(address);
+  if (!bytes || bytes.length !== 25 || ![0x00, 0x05, 0x6f, 0xc4].includes(bytes[0] ?? -1)) {
+    return false;
+  }
+  const checksum = sha256(sha256(bytes.subarray(0, 21)));
+  return checksum.subarray(0, 4).every((byte, i) => byte === bytes[21 + i]);
+}
+
+export function isValidBitcoinAddress(address: string): boolean {
+  const value = address.trim();
+  return /^(bc|tb|bcrt)1/i.test(value) ? isValidSegwitAddress(value) : isValidBase58Address(value);
+}
+
+export function encodeBitcoin(payload: BitcoinPayload): string {
+  const address = payload.address.trim();
+  const params: string[] = [];
+  if (payload.amount.trim()) params.push(`amount=${payload.amount.trim()}`);
+  if (payload.label.trim()) params.push(`label=${encodeURIComponent(payload.label.trim())}`);
+  if (payload.message.trim()) params.push(`message=${encodeURIComponent(payload.message.trim())}`);
+
+  // Upper-case bech32 URIs fit QR alphanumeric mode, giving a smaller symbol (BIP173)
+  if (params.length === 0 && /^(bc|tb|bcrt)1/i.test(address)) {
+    return `BITCOIN:${address.toUpperCase()}`;
+  }
+  return `bitcoin:${address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+export function validateBitcoin(payload: BitcoinPayload, issues: ValidationIssue[]): void {
+  if (!isValidBitcoinAddress(payload.address)) {
+    issues.push({ field: 'address', message: 'Enter a valid bitcoin address (the checksum does not match)' });
+  }
+
+  if (payload.amount.trim()) {
+    const amount = Number(payload.amount);
+    if (!BTC_AMOUNT_PATTERN.test(payload.amount.trim()) || amount <= 0 || amount > MAX_BITCOIN) {
+      issues.push({ field: 'amount', message: 'Amount must be a positive BTC value with at most 8 decimals' });
+    }
+  }
+}
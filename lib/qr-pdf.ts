@@ -0,0 +1,779 @@
+import { zlibSync, strToU8 } from 'fflate';
+import type { PDFExportOptions, PDFPageSize, PDFSheetLayout, PrintLayoutPreset, GradientColorStop } from '@/types';
+import type { QRScene, ScenePaint, PathCommand } from '@/lib/qr-renderer';
+import { fitLogo } from '@/lib/qr-renderer';
+import { parseColor, type RasterImage } from '@/lib/qr-raster';
+
+// Vector PDF backend for QR scenes. Modules, eyes and gradients become native
+// PDF paths and shadings, so printed codes stay sharp at any size. Pages hold
+// either one centered code or a sheet of codes (N-up grids and label stock).
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Page sizes in millimetres, portrait
+export const PDF_PAGE_SIZES: Record<Exclude<PDFPageSize, 'fit'>, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a5: { width: 148, height: 210 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 },
+};
+
+export const DEFAULT_PDF_OPTIONS: PDFExportOptions = {
+  pageSize: 'a4',
+  orientation: 'portrait',
+  codeSize: 80,
+};
+
+export const MIN_PDF_CODE_SIZE = 10;
+
+// Largest page PDF viewers accept (200 inches)
+const MAX_PDF_PAGE_SIZE = 5080;
+
+// Margin kept clear around the code on fixed-size pages
+const PDF_PAGE_MARGIN = 10;
+
+// Label stock: label size, the first label's top-left corner and the pitch
+// between labels, all in millimetres
+interface LabelSheet {
+  name: string;
+  pageSize: Exclude<PDFPageSize, 'fit'>;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  pitchX: number;
+  pitchY: number;
+}
+
+export const LABEL_SHEETS: Record<Exclude<PrintLayoutPreset, 'grid'>, LabelSheet> = {
+  'avery-5160': {
+    name: 'Avery 5160 (US Letter, 30 labels)',
+    pageSize: 'letter',
+    columns: 3,
+    rows: 10,
+    width: 66.675,
+    height: 25.4,
+    left: 4.7625,
+    top: 12.7,
+    pitchX: 69.85,
+    pitchY: 25.4,
+  },
+  'avery-l7160': {
+    name: 'Avery L7160 (A4, 21 labels)',
+    pageSize: 'a4',
+    columns: 3,
+    rows: 7,
+    width: 63.5,
+    height: 38.1,
+    left: 7.21,
+    top: 15.15,
+    pitchX: 66.04,
+    pitchY: 38.1,
+  },
+};
+
+export const DEFAULT_SHEET_LAYOUT: PDFSheetLayout = {
+  preset: 'grid',
+  columns: 2,
+  rows: 3,
+  gutter: 10,
+  bleed: 0,
+  cropMarks: true,
+  caption: 'none',
+};
+
+export const MAX_SHEET_COLUMNS = 20;
+export const MAX_SHEET_ROWS = 20;
+export const MAX_PDF_BLEED = 5;
+
+// Space kept clear between a label's edge and its code
+const LABEL_PADDING = 2;
+
+// Caption strip under each code, in millimetres, and its type size in points
+const CAPTION_HEIGHT = 5;
+const CAPTION_FONT_SIZE = 7;
+
+// Crop marks start this far outside the bleed and run for CROP_MARK_LENGTH
+const CROP_MARK_OFFSET = 2;
+const CROP_MARK_LENGTH = 4;
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Bezier handle length for quarter circles
+const KAPPA = 0.5522847498;
+
+// Page dimensions in millimetres; 'fit' crops the page to the code
+export function getPDFPageDimensions(options: PDFExportOptions): { width: number; height: number } {
+  if (options.pageSize === 'fit') {
+    return { width: options.codeSize, height: options.codeSize };
+  }
+
+  const { width, height } = PDF_PAGE_SIZES[options.pageSize];
+  return options.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+// Largest code width, in millimetres, that fits the page inside its margins
+export function getMaxPDFCodeSize(options: Pick<PDFExportOptions, 'pageSize' | 'orientation'>): number {
+  if (options.pageSize === 'fit') {
+    return MAX_PDF_PAGE_SIZE;
+  }
+  const { width, height } = PDF_PAGE_SIZES[options.pageSize];
+  return Math.min(width, height) - PDF_PAGE_MARGIN * 2;
+}
+
+// Where codes go on a page, in millimetres from the top-left corner. Cells are
+// the trim boxes: the code plus its caption strip, or a whole label.
+export interface SheetGeometry {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  left: number;
+  top: number;
+  cellWidth: number;
+  cellHeight: number;
+  pitchX: number;
+  pitchY: number;
+  codeSize: number;
+  captionHeight: number;
+  bleed: number;
+  cropMarks: boolean;
+}
+
+function clampCount(value: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.floor(value) || 1));
+}
+
+// Lay out the page. Codes shrink to fit their cell, so check codeSize against
+// MIN_PDF_CODE_SIZE before printing.
+export function getSheetGeometry(options: PDFExportOptions): SheetGeometry {
+  const { layout } = options;
+  if (!layout) {
+    const page = getPDFPageDimensions(options);
+    const codeSize = Math.max(MIN_PDF_CODE_SIZE, Math.min(options.codeSize, getMaxPDFCodeSize(options)));
+    return {
+      pageWidth: page.width,
+      pageHeight: page.height,
+      columns: 1,
+      rows: 1,
+      left: (page.width - codeSize) / 2,
+      top: (page.height - codeSize) / 2,
+      cellWidth: codeSize,
+      cellHeight: codeSize,
+      pitchX: codeSize,
+      pitchY: codeSize,
+      codeSize,
+      captionHeight: 0,
+      bleed: 0,
+      cropMarks: false,
+    };
+  }
+
+  const captionHeight = layout.caption === 'none' ? 0 : CAPTION_HEIGHT;
+  const bleed = Math.min(MAX_PDF_BLEED, Math.max(0, layout.bleed || 0));
+
+  if (layout.preset !== 'grid') {
+    const sheet = LABEL_SHEETS[layout.preset];
+    const page = PDF_PAGE_SIZES[sheet.pageSize];
+    return {
+      pageWidth: page.width,
+      pageHeight: page.height,
+      columns: sheet.columns,
+      rows: sheet.rows,
+      left: sheet.left,
+      top: sheet.top,
+      cellWidth: sheet.width,
+      cellHeight: sheet.height,
+      pitchX: sheet.pitchX,
+      pitchY: sheet.pitchY,
+      codeSize: Math.min(
+        options.codeSize,
+        sheet.width - LABEL_PADDING * 2,
+        sheet.height - LABEL_PADDING * 2 - captionHeight
+      ),
+      captionHeight,
+      // Neighbouring labels may touch, so bleed can only reach halfway into the gap
+      bleed: Math.min(bleed, (sheet.pitchX - sheet.width) / 2, (sheet.pitchY - sheet.height) / 2),
+      cropMarks: layout.cropMarks,
+    };
+  }
+
+  const columns = clampCount(layout.columns, MAX_SHEET_COLUMNS);
+  const rows = clampCount(layout.rows, MAX_SHEET_ROWS);
+  const gutter = Math.max(0, layout.gutter || 0);
+  const gridBleed = Math.min(bleed, gutter / 2);
+  const margin = layout.cropMarks || gridBleed > 0 ? PDF_PAGE_MARGIN : 0;
+
+  let codeSize: number;
+  let pageWidth: number;
+  let pageHeight: number;
+  if (options.pageSize === 'fit') {
+    codeSize = Math.min(options.codeSize, (MAX_PDF_PAGE_SIZE - margin * 2 - gutter * (columns - 1)) / columns);
+    pageWidth = columns * codeSize + gutter * (columns - 1) + margin * 2;
+    pageHeight = rows * (codeSize + captionHeight) + gutter * (rows - 1) + margin * 2;
+  } else {
+    const page = getPDFPageDimensions(options);
+    pageWidth = page.width;
+    pageHeight = page.height;
+    codeSize = Math.min(
+      options.codeSize,
+      (pageWidth - PDF_PAGE_MARGIN * 2 - gutter * (columns - 1)) / columns,
+      (pageHeight - PDF_PAGE_MARGIN * 2 - gutter * (rows - 1)) / rows - captionHeight
+    );
+  }
+
+  // Center the block of cells on the page
+  const cellHeight = codeSize + captionHeight;
+  const blockWidth = columns * codeSize + gutter * (columns - 1);
+  const blockHeight = rows * cellHeight + gutter * (rows - 1);
+  return {
+    pageWidth,
+    pageHeight,
+    columns,
+    rows,
+    left: (pageWidth - blockWidth) / 2,
+    top: (pageHeight - blockHeight) / 2,
+    cellWidth: codeSize,
+    cellHeight,
+    pitchX: codeSize + gutter,
+    pitchY: cellHeight + gutter,
+    codeSize,
+    captionHeight,
+    bleed: gridBleed,
+    cropMarks: layout.cropMarks,
+  };
+}
+
+interface PDFObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+// Objects shared by the whole file, plus the named resources of one content
+// stream (a page or a form)
+interface PDFBuilder {
+  objects: PDFObject[];
+  shadings: string[];
+  patterns: string[];
+  xobjects: string[];
+  fonts: string[];
+  alphaStates: Map<number, string>;
+}
+
+type PDFMatrix = [number, number, number, number, number, number];
+
+const IDENTITY_MATRIX: PDFMatrix = [1, 0, 0, 1, 0, 0];
+
+function createBuilder(objects: PDFObject[]): PDFBuilder {
+  return { objects, shadings: [], patterns: [], xobjects: [], fonts: [], alphaStates: new Map() };
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+// Transforms carry the mm scale, so they keep more precision than coordinates
+function matrix(values: number[]): string {
+  return values.map((value) => Number(value.toFixed(6)).toString()).join(' ');
+}
+
+function addObject(builder: Pick<PDFBuilder, 'objects'>, object: PDFObject): number {
+  builder.objects.push(object);
+  return builder.objects.length;
+}
+
+// Add a Flate-compressed stream object
+function addStream(builder: Pick<PDFBuilder, 'objects'>, dict: string, data: Uint8Array): number {
+  const compressed = zlibSync(data);
+  return addObject(builder, {
+    dict: `<< ${dict} /Filter /FlateDecode /Length ${compressed.length} >>`,
+    stream: compressed,
+  });
+}
+
+function rgbOf(color: string): string {
+  const [r, g, b] = parseColor(color);
+  return `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+}
+
+// Constant-alpha graphics state, shared between fills with the same opacity
+function alphaState(builder: PDFBuilder, alpha: number): string {
+  const key = Math.round(alpha * 1000) / 1000;
+  let name = builder.alphaStates.get(key);
+  if (!name) {
+    name = `GS${builder.alphaStates.size}`;
+    builder.alphaStates.set(key, name);
+  }
+  return name;
+}
+
+// Set a solid fill color, including its alpha when it is translucent
+function solidFill(builder: PDFBuilder, color: string, opacity = 1): string {
+  const alpha = parseColor(color)[3] * opacity;
+  const ops = [`${rgbOf(color)} rg`];
+  if (alpha < 1) {
+    ops.push(`/${alphaState(builder, alpha)} gs`);
+  }
+  return ops.join('\n');
+}
+
+function pathOps(path: PathCommand[]): string {
+  return path
+    .map((cmd) => {
+      switch (cmd.op) {
+        case 'M':
+          return `${num(cmd.x)} ${num(cmd.y)} m`;
+        case 'L':
+          return `${num(cmd.x)} ${num(cmd.y)} l`;
+        case 'C':
+          return `${num(cmd.x1)} ${num(cmd.y1)} ${num(cmd.x2)} ${num(cmd.y2)} ${num(cmd.x)} ${num(cmd.y)} c`;
+        case 'Z':
+          return 'h';
+      }
+    })
+    .join('\n');
+}
+
+function rectPath(x: number, y: number, width: number, height: number): PathCommand[] {
+  return [
+    { op: 'M', x, y },
+    { op: 'L', x: x + width, y },
+    { op: 'L', x: x + width, y: y + height },
+    { op: 'L', x, y: y + height },
+    { op: 'Z' },
+  ];
+}
+
+function circleOps(cx: number, cy: number, r: number): string {
+  const k = r * KAPPA;
+  return [
+    `${num(cx + r)} ${num(cy)} m`,
+    `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+    `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+    `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+    `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+    'h',
+  ].join('\n');
+}
+
+// Piecewise-linear RGB function through the stops, padded out to 0 and 1.
+// PostScript Level 3 shadings use the same dictionary syntax.
+export function gradientFunction(stops: GradientColorStop[]): string {
+  const padded = [...stops];
+  const first = padded[0];
+  const last = padded[padded.length - 1];
+  if (first && first.offset > 0) padded.unshift({ offset: 0, color: first.color });
+  if (last && last.offset < 1) padded.push({ offset: 1, color: last.color });
+
+  const segments: string[] = [];
+  const bounds: number[] = [];
+  for (let i = 0; i < padded.length - 1; i++) {
+    const from = padded[i];
+    const to = padded[i + 1];
+    if (!from || !to) continue;
+    segments.push(`<< /FunctionType 2 /Domain [0 1] /C0 [${rgbOf(from.color)}] /C1 [${rgbOf(to.color)}] /N 1 >>`);
+    if (i > 0) {
+      // Bounds must increase, so hard stops get a hairline-wide blend
+      bounds.push(Math.min(1, Math.max(from.offset, (bounds[bounds.length - 1] ?? 0) + 0.0001)));
+    }
+  }
+
+  if (segments.length === 1) {
+    return segments[0] ?? '';
+  }
+  const encode = segments.map(() => '0 1').join(' ');
+  return `<< /FunctionType 3 /Domain [0 1] /Functions [${segments.join(' ')}] /Bounds [${bounds.map(num).join(' ')}] /Encode [${encode}] >>`;
+}
+
+function addShading(builder: PDFBuilder, paint: Extract<ScenePaint, { type: 'linear' | 'radial' }>): string {
+  const coords =
+    paint.type === 'radial'
+      ? `/ShadingType 3 /Coords [${num(paint.cx)} ${num(paint.cy)} 0 ${num(paint.cx)} ${num(paint.cy)} ${num(paint.r)}]`
+      : `/ShadingType 2 /Coords [${num(paint.x1)} ${num(paint.y1)} ${num(paint.x2)} ${num(paint.y2)}]`;
+  const id = addObject(builder, {
+    dict: `<< ${coords} /ColorSpace /DeviceRGB /Function ${gradientFunction(paint.stops)} /Extend [true true] >>`,
+  });
+  const name = `Sh${builder.shadings.length}`;
+  builder.shadings.push(`/${name} ${id} 0 R`);
+  return name;
+}
+
+// Tiling pattern for the 'dots' fill. Patterns ignore the current transform,
+// so patternMatrix maps scene space onto the content stream's own space.
+function addDotsPattern(
+  builder: PDFBuilder,
+  paint: Extract<ScenePaint, { type: 'dots' }>,
+  patternMatrix: PDFMatrix
+): string {
+  const s = paint.spacing;
+  const content = [
+    `${rgbOf(paint.color)} rg`,
+    `0 0 ${num(s)} ${num(s)} re f`,
+    `${rgbOf(paint.dotColor)} rg`,
+    circleOps(s / 2, s / 2, paint.radius),
+    'f',
+  ].join('\n');
+  const id = addStream(
+    builder,
+    `/Type /Pattern /PatternType 1 /PaintType 1 /TilingType 1 /BBox [0 0 ${num(s)} ${num(s)}] /XStep ${num(s)} /YStep ${num(s)} /Matrix [${matrix(patternMatrix)}] /Resources << >>`,
+    strToU8(content)
+  );
+  const name = `P${builder.patterns.length}`;
+  builder.patterns.push(`/${name} ${id} 0 R`);
+  return name;
+}
+
+// Fill a path with any scene paint; gradients are painted through the path as a clip
+function fillOps(
+  builder: PDFBuilder,
+  paint: ScenePaint,
+  path: PathCommand[],
+  evenOdd: boolean,
+  patternMatrix: PDFMatrix = IDENTITY_MATRIX
+): string {
+  const fill = evenOdd ? 'f*' : 'f';
+  switch (paint.type) {
+    case 'solid':
+      return `q\n${solidFill(builder, paint.color)}\n${pathOps(path)}\n${fill}\nQ`;
+    case 'dots':
+      return `q\n/Pattern cs /${addDotsPattern(builder, paint, patternMatrix)} scn\n${pathOps(path)}\n${fill}\nQ`;
+    default:
+      return `q\n${pathOps(path)}\n${evenOdd ? 'W*' : 'W'} n\n/${addShading(builder, paint)} sh\nQ`;
+  }
+}
+
+// Embed RGBA pixels as an RGB image with a soft mask for transparency
+function addImage(builder: Pick<PDFBuilder, 'objects'>, image: RasterImage): number {
+  const pixels = image.width * image.height;
+  const rgb = new Uint8Array(pixels * 3);
+  const alpha = new Uint8Array(pixels);
+  let translucent = false;
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = image.data[i * 4] ?? 0;
+    rgb[i * 3 + 1] = image.data[i * 4 + 1] ?? 0;
+    rgb[i * 3 + 2] = image.data[i * 4 + 2] ?? 0;
+    alpha[i] = image.data[i * 4 + 3] ?? 255;
+    translucent = translucent || alpha[i] !== 255;
+  }
+
+  const size = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+  const mask = translucent
+    ? ` /SMask ${addStream(builder, `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray`, alpha)} 0 R`
+    : '';
+  return addStream(builder, `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB${mask}`, rgb);
+}
+
+function resourcesDict(builder: PDFBuilder): string {
+  const resources: string[] = [];
+  if (builder.shadings.length > 0) resources.push(`/Shading << ${builder.shadings.join(' ')} >>`);
+  if (builder.patterns.length > 0) resources.push(`/Pattern << ${builder.patterns.join(' ')} >>`);
+  if (builder.xobjects.length > 0) resources.push(`/XObject << ${builder.xobjects.join(' ')} >>`);
+  if (builder.fonts.length > 0) resources.push(`/Font << ${builder.fonts.join(' ')} >>`);
+  if (builder.alphaStates.size > 0) {
+    const states = [...builder.alphaStates].map(([alpha, name]) => `/${name} << /Type /ExtGState /ca ${num(alpha)} >>`);
+    resources.push(`/ExtGState << ${states.join(' ')} >>`);
+  }
+  return `<< ${resources.join(' ')} >>`;
+}
+
+// Draw a scene once as a Form XObject in scene pixels (y down), so a sheet can
+// place it many times. Shadows are drawn as unblurred translucent offsets.
+function addSceneForm(objects: PDFObject[], scene: QRScene, logo?: { image: RasterImage; id: number }): number {
+  const builder = createBuilder(objects);
+  const content = [fillOps(builder, scene.background, rectPath(0, 0, scene.width, scene.height), false)];
+
+  for (const layer of scene.layers) {
+    if (layer.path.length === 0) continue;
+
+    const evenOdd = layer.fillRule === 'evenodd';
+    if (layer.shadow) {
+      const { color, opacity, offsetX, offsetY } = layer.shadow;
+      content.push(
+        `q\n1 0 0 1 ${num(offsetX)} ${num(offsetY)} cm\n${solidFill(builder, color, opacity)}\n${pathOps(layer.path)}\n${evenOdd ? 'f*' : 'f'}\nQ`
+      );
+    }
+    content.push(fillOps(builder, layer.paint, layer.path, evenOdd));
+  }
+
+  if (scene.logo && logo) {
+    const { x, y, width, height } = fitLogo(scene.logo, logo.image.width, logo.image.height);
+    builder.xobjects.push(`/Im0 ${logo.id} 0 R`);
+    content.push(`q\n${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm\n/Im0 Do\nQ`);
+  }
+
+  return addStream(
+    builder,
+    `/Type /XObject /Subtype /Form /BBox [0 0 ${num(scene.width)} ${num(scene.height)}] /Resources ${resourcesDict(builder)}`,
+    strToU8(content.join('\n'))
+  );
+}
+
+// Map caption text onto WinAnsiEncoding, the encoding of the standard fonts;
+// characters it lacks print as '?'
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .map((char) => {
+      if (char === '\u2026') return '\x85';
+      const code = char.charCodeAt(0);
+      return char.length === 1 && code >= 32 && (code < 127 || code >= 160) && code <= 255 ? char : '?';
+    })
+    .join('');
+}
+
+function textWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    width += code === 0x85 ? 1000 : (HELVETICA_WIDTHS[code - 32] ?? 556);
+  }
+  return (width * fontSize) / 1000;
+}
+
+// Shorten text with an ellipsis until it fits maxWidth points
+function fitText(text: string, maxWidth: number, fontSize: number): string {
+  if (textWidth(text, fontSize) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}\x85`, fontSize) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted.length > 0 ? `${fitted.trimEnd()}\x85` : '';
+}
+
+// Hairline marks just outside the bleed at every cell edge around the block
+function cropMarkOps(geometry: SheetGeometry): string {
+  const { left, top, columns, rows, cellWidth, cellHeight, pitchX, pitchY, pageHeight } = geometry;
+  const right = left + (columns - 1) * pitchX + cellWidth;
+  const bottom = top + (rows - 1) * pitchY + cellHeight;
+  const start = geometry.bleed + CROP_MARK_OFFSET;
+  const end = start + CROP_MARK_LENGTH;
+
+  const xs = new Set<number>();
+  const ys = new Set<number>();
+  for (let column = 0; column < columns; column++) {
+    xs.add(left + column * pitchX);
+    xs.add(left + column * pitchX + cellWidth);
+  }
+  for (let row = 0; row < rows; row++) {
+    ys.add(top + row * pitchY);
+    ys.add(top + row * pitchY + cellHeight);
+  }
+
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    `${num(x1 * POINTS_PER_MM)} ${num((pageHeight - y1) * POINTS_PER_MM)} m ${num(x2 * POINTS_PER_MM)} ${num((pageHeight - y2) * POINTS_PER_MM)} l`;
+  const ops = ['q', '0 0 0 RG', '0.25 w'];
+  xs.forEach((x) => {
+    ops.push(line(x, top - start, x, top - end), line(x, bottom + start, x, bottom + end));
+  });
+  ys.forEach((y) => {
+    ops.push(line(left - start, y, left - end, y), line(right + start, y, right + end, y));
+  });
+  ops.push('S', 'Q');
+  return ops.join('\n');
+}
+
+// One code to print. The logo is only drawn when its decoded pixels are passed in.
+export interface PrintItem {
+  scene: QRScene;
+  logoImage?: RasterImage;
+  caption?: string;
+  captionColor?: string;
+}
+
+export interface PrintSheetWriter {
+  cellsPerPage: number;
+  add(item: PrintItem): void;
+  finish(): Uint8Array;
+}
+
+interface SheetPage {
+  builder: PDFBuilder;
+  content: string[];
+  forms: Map<number, string>;
+  cells: number;
+}
+
+// Write codes into cells in reading order, starting a new page when one fills.
+// Consecutive items with the same scene share one form, and logos are embedded once.
+export function createPrintSheetWriter(options: PDFExportOptions): PrintSheetWriter {
+  const geometry = getSheetGeometry(options);
+  if (geometry.codeSize < MIN_PDF_CODE_SIZE) {
+    throw new Error(
+      `Codes would only be ${num(geometry.codeSize)} mm wide; use fewer columns or rows, a smaller gutter or a larger page`
+    );
+  }
+
+  const objects: PDFObject[] = [{ dict: '<< /Type /Catalog /Pages 2 0 R >>' }, { dict: '' }];
+  const pageIds: number[] = [];
+  const images = new Map<RasterImage, number>();
+  const pageWidth = geometry.pageWidth * POINTS_PER_MM;
+  const pageHeight = geometry.pageHeight * POINTS_PER_MM;
+  const cellsPerPage = geometry.columns * geometry.rows;
+  let fontId: number | undefined;
+  let lastForm: { scene: QRScene; logoImage?: RasterImage; id: number } | undefined;
+
+  const newPage = (): SheetPage => ({ builder: createBuilder(objects), content: [], forms: new Map(), cells: 0 });
+  let page = newPage();
+
+  const formFor = ({ scene, logoImage }: PrintItem): number => {
+    if (!lastForm || lastForm.scene !== scene || lastForm.logoImage !== logoImage) {
+      let logo: { image: RasterImage; id: number } | undefined;
+      if (scene.logo && logoImage) {
+        const id = images.get(logoImage) ?? addImage({ objects }, logoImage);
+        images.set(logoImage, id);
+        logo = { image: logoImage, id };
+      }
+      lastForm = { scene, logoImage, id: addSceneForm(objects, scene, logo) };
+    }
+    return lastForm.id;
+  };
+
+  const flushPage = () => {
+    if (geometry.cropMarks) {
+      page.content.push(cropMarkOps(geometry));
+    }
+    // Latin-1 keeps caption bytes in WinAnsiEncoding
+    const contentId = addStream({ objects }, '', strToU8(page.content.join('\n'), true));
+    pageIds.push(
+      addObject(
+        { objects },
+        {
+          dict: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources ${resourcesDict(page.builder)} /Contents ${contentId} 0 R >>`,
+        }
+      )
+    );
+    page = newPage();
+  };
+
+  const add = (item: PrintItem) => {
+    if (page.cells === cellsPerPage) {
+      flushPage();
+    }
+
+    const { scene } = item;
+    const column = page.cells % geometry.columns;
+    const row = Math.floor(page.cells / geometry.columns);
+    const cellX = geometry.left + column * geometry.pitchX;
+    const cellY = geometry.top + row * geometry.pitchY;
+    const codeHeight = geometry.codeSize * (scene.height / scene.width);
+    const codeX = cellX + (geometry.cellWidth - geometry.codeSize) / 2;
+    const codeY = cellY + (geometry.cellHeight - geometry.captionHeight - codeHeight) / 2;
+
+    // Scene pixels (y down) onto the page (PDF y runs up)
+    const scale = (geometry.codeSize * POINTS_PER_MM) / scene.width;
+    const placement: PDFMatrix = [scale, 0, 0, -scale, codeX * POINTS_PER_MM, pageHeight - codeY * POINTS_PER_MM];
+
+    // On sheets the background covers the whole cell and its bleed, so trimming never leaves a white edge
+    if (options.layout) {
+      const toScene = (mm: number) => (mm * POINTS_PER_MM) / scale;
+      const { bleed } = geometry;
+      const cellPath = rectPath(
+        toScene(cellX - bleed - codeX),
+        toScene(cellY - bleed - codeY),
+        toScene(geometry.cellWidth + bleed * 2),
+        toScene(geometry.cellHeight + bleed * 2)
+      );
+      page.content.push(`q\n${matrix(placement)} cm\n${fillOps(page.builder, scene.background, cellPath, false, placement)}\nQ`);
+    }
+
+    const formId = formFor(item);
+    let formName = page.forms.get(formId);
+    if (!formName) {
+      formName = `Fm${page.forms.size}`;
+      page.forms.set(formId, formName);
+      page.builder.xobjects.push(`/${formName} ${formId} 0 R`);
+    }
+    page.content.push(`q\n${matrix(placement)} cm\n/${formName} Do\nQ`);
+
+    // Centered Helvetica caption in the strip under the code
+    const caption = item.caption && geometry.captionHeight > 0
+      ? fitText(toWinAnsi(item.caption), (geometry.cellWidth - LABEL_PADDING) * POINTS_PER_MM, CAPTION_FONT_SIZE)
+      : '';
+    if (caption) {
+      if (fontId === undefined) {
+        fontId = addObject({ objects }, { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>' });
+      }
+      if (page.builder.fonts.length === 0) {
+        page.builder.fonts.push(`/F1 ${fontId} 0 R`);
+      }
+      const x = (cellX + geometry.cellWidth / 2) * POINTS_PER_MM - textWidth(caption, CAPTION_FONT_SIZE) / 2;
+      const baseline = pageHeight - (codeY + codeHeight + geometry.captionHeight / 2) * POINTS_PER_MM - CAPTION_FONT_SIZE * 0.35;
+      page.content.push(
+        `BT\n/F1 ${CAPTION_FONT_SIZE} Tf\n${rgbOf(item.captionColor ?? '#000000')} rg\n${num(x)} ${num(baseline)} Td\n(${caption.replace(/[\\()]/g, '\\$&')}) Tj\nET`
+      );
+    }
+
+    page.cells++;
+  };
+
+  const finish = (): Uint8Array => {
+    if (page.cells > 0 || pageIds.length === 0) {
+      flushPage();
+    }
+    objects[1] = {
+      dict: `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    };
+    return serializePDF(objects);
+  };
+
+  return { cellsPerPage, add, finish };
+}
+
+// Concatenate the objects into a PDF file with a cross-reference table
+function serializePDF(objects: PDFObject[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  push(strToU8('%PDF-1.4\n%âãÏÓ\n', true));
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    push(strToU8(`${index + 1} 0 obj\n${object.dict}\n`));
+    if (object.stream) {
+      push(strToU8('stream\n'));
+      push(object.stream);
+      push(strToU8('\nendstream\n'));
+    }
+    push(strToU8('endobj\n'));
+  });
+
+  const xrefOffset = length;
+  const entries = offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  push(
+    strToU8(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${entries}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+    )
+  );
+
+  const file = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    file.set(chunk, position);
+    position += chunk.length;
+  }
+  return file;
+}
+
+// Serialize one code to a vector PDF. With a sheet layout every cell on the page
+// gets a copy; otherwise the page holds the code alone.
+export function sceneToPDF(item: PrintItem, options: PDFExportOptions): Uint8Array {
+  const writer = createPrintSheetWriter(options);
+  const copies = options.layout ? writer.cellsPerPage : 1;
+  for (let i = 0; i < copies; i++) {
+    writer.add(item);
+  }
+  return writer.finish();
+}
@@ -0,0 +1,416 @@
+import type { QRScene, ScenePaint, PathCommand, SceneLayer, SceneShadow } from '@/lib/qr-renderer';
+import { fitLogo } from '@/lib/qr-renderer';
+
+// DOM-free rasterizer for QR scenes. It fills the same paths the canvas and
+// SVG backends draw, so server output matches the browser output.
+
+// Straight (non-premultiplied) RGBA pixels, row-major
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+type RGBA = [number, number, number, number];
+type PaintSampler = (x: number, y: number) => RGBA;
+
+interface Edge {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  dir: 1 | -1;
+}
+
+// Sub-scanlines per pixel row used for vertical anti-aliasing
+const SUBSAMPLES = 5;
+
+// Flatten a path into line edges, closing every subpath
+function flattenPath(path: PathCommand[]): Edge[] {
+  const edges: Edge[] = [];
+  let startX = 0;
+  let startY = 0;
+  let x = 0;
+  let y = 0;
+
+  const addEdge = (ax: number, ay: number, bx: number, by: number) => {
+    if (ay === by) return;
+    edges.push(ay < by ? { x0: ax, y0: ay, x1: bx, y1: by, dir: 1 } : { x0: bx, y0: by, x1: ax, y1: ay, dir: -1 });
+  };
+
+  for (const cmd of path) {
+    switch (cmd.op) {
+      case 'M':
+        addEdge(x, y, startX, startY);
+        x = startX = cmd.x;
+        y = startY = cmd.y;
+        break;
+      case 'L':
+        addEdge(x, y, cmd.x, cmd.y);
+        x = cmd.x;
+        y = cmd.y;
+        break;
+      case 'C': {
+        // Segment count grows with the curve's control polygon length
+        const length =
+          Math.hypot(cmd.x1 - x, cmd.y1 - y) + Math.hypot(cmd.x2 - cmd.x1, cmd.y2 - cmd.y1) + Math.hypot(cmd.x - cmd.x2, cmd.y - cmd.y2);
+        const segments = Math.max(2, Math.min(64, Math.ceil(length / 2)));
+        let px = x;
+        let py = y;
+        for (let i = 1; i <= segments; i++) {
+          const t = i / segments;
+          const mt = 1 - t;
+          const nx = mt * mt * mt * x + 3 * mt * mt * t * cmd.x1 + 3 * mt * t * t * cmd.x2 + t * t * t * cmd.x;
+          const ny = mt * mt * mt * y + 3 * mt * mt * t * cmd.y1 + 3 * mt * t * t * cmd.y2 + t * t * t * cmd.y;
+          addEdge(px, py, nx, ny);
+          px = nx;
+          py = ny;
+        }
+        x = cmd.x;
+        y = cmd.y;
+        break;
+      }
+      case 'Z':
+        addEdge(x, y, startX, startY);
+        x = startX;
+        y = startY;
+        break;
+    }
+  }
+  addEdge(x, y, startX, startY);
+
+  return edges;
+}
+
+// Add horizontal coverage for the span [xa, xb) with the given weight
+function addSpan(coverage: Float32Array, width: number, xa: number, xb: number, weight: number): void {
+  const a = Math.max(0, xa);
+  const b = Math.min(width, xb);
+  if (b <= a) return;
+
+  const ia = Math.floor(a);
+  const ib = Math.floor(b);
+  if (ia === ib) {
+    coverage[ia] = (coverage[ia] ?? 0) + (b - a) * weight;
+    return;
+  }
+
+  coverage[ia] = (coverage[ia] ?? 0) + (ia + 1 - a) * weight;
+  for (let i = ia + 1; i < ib; i++) {
+    coverage[i] = (coverage[i] ?? 0) + weight;
+  }
+  if (ib < width) {
+    coverage[ib] = (coverage[ib] ?? 0) + (b - ib) * weight;
+  }
+}
+
+// Scanline-fill a path, handing each row's coverage (0..1 per pixel) to onRow
+function fillPath(
+  path: PathCommand[],
+  fillRule: 'nonzero' | 'evenodd',
+  width: number,
+  height: number,
+  onRow: (y: number, coverage: Float32Array) => void
+): void {
+  const edges = flattenPath(path).sort((a, b) => a.y0 - b.y0);
+  if (edges.length === 0) return;
+
+  const coverage = new Float32Array(width);
+  const crossings: Array<{ x: number; dir: number }> = [];
+  let active: Edge[] = [];
+  let next = 0;
+
+  const firstRow = Math.max(0, Math.floor(edges[0]?.y0 ?? 0));
+  const lastRow = Math.min(height - 1, Math.ceil(edges.reduce((max, e) => Math.max(max, e.y1), 0)));
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    while (next < edges.length && (edges[next]?.y0 ?? Infinity) < row + 1) {
+      active.push(edges[next] as Edge);
+      next++;
+    }
+    active = active.filter((edge) => edge.y1 > row);
+    if (active.length === 0) continue;
+
+    let touched = false;
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const sy = row + (s + 0.5) / SUBSAMPLES;
+      crossings.length = 0;
+      for (const edge of active) {
+        if (edge.y0 <= sy && edge.y1 > sy) {
+          crossings.push({ x: edge.x0 + ((sy - edge.y0) * (edge.x1 - edge.x0)) / (edge.y1 - edge.y0), dir: edge.dir });
+        }
+      }
+      if (crossings.length === 0) continue;
+      crossings.sort((a, b) => a.x - b.x);
+
+      let winding = 0;
+      let spanStart = 0;
+      for (const crossing of crossings) {
+        const wasInside = fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+        winding += fillRule === 'evenodd' ? 1 : crossing.dir;
+        const isInside = fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+
+        if (!wasInside && isInside) {
+          spanStart = crossing.x;
+        } else if (wasInside && !isInside) {
+          addSpan(coverage, width, spanStart, crossing.x, 1 / SUBSAMPLES);
+          touched = true;
+        }
+      }
+    }
+
+    if (touched) {
+      onRow(row, coverage);
+      coverage.fill(0);
+    }
+  }
+}
+
+// Parse #rgb, #rrggbb, #rrggbbaa and rgb()/rgba() colors
+export function parseColor(color: string): RGBA {
+  const value = color.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return [0, 0, 0, 0];
+  }
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map((c) => c + c).join('');
+    }
+    const r = parseInt(hex.substr(0, 2), 16);
+    const g = parseInt(hex.substr(2, 2), 16);
+    const b = parseInt(hex.substr(4, 2), 16);
+    const a = hex.length === 8 ? parseInt(hex.substr(6, 2), 16) / 255 : 1;
+    return [isNaN(r) ? 0 : r, isNaN(g) ? 0 : g, isNaN(b) ? 0 : b, isNaN(a) ? 1 : a];
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match?.[1]) {
+    const parts = match[1].split(',').map((part) => parseFloat(part));
+    return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0, parts[3] ?? 1];
+  }
+
+  return [0, 0, 0, 1];
+}
+
+// Interpolate sorted gradient stops at t
+function sampleStops(stops: Array<{ offset: number; rgba: RGBA }>, t: number): RGBA {
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  if (!first || !last) return [0, 0, 0, 0];
+  if (t <= first.offset) return first.rgba;
+  if (t >= last.offset) return last.rgba;
+
+  for (let i = 1; i < stops.length; i++) {
+    const a = stops[i - 1] as { offset: number; rgba: RGBA };
+    const b = stops[i] as { offset: number; rgba: RGBA };
+    if (t <= b.offset) {
+      const f = b.offset === a.offset ? 1 : (t - a.offset) / (b.offset - a.offset);
+      return [
+        a.rgba[0] + (b.rgba[0] - a.rgba[0]) * f,
+        a.rgba[1] + (b.rgba[1] - a.rgba[1]) * f,
+        a.rgba[2] + (b.rgba[2] - a.rgba[2]) * f,
+        a.rgba[3] + (b.rgba[3] - a.rgba[3]) * f,
+      ];
+    }
+  }
+  return last.rgba;
+}
+
+// Build a per-pixel color lookup for a paint
+function createPaintSampler(paint: ScenePaint): PaintSampler {
+  switch (paint.type) {
+    case 'solid': {
+      const rgba = parseColor(paint.color);
+      return () => rgba;
+    }
+    case 'linear': {
+      const stops = paint.stops.map((stop) => ({ offset: stop.offset, rgba: parseColor(stop.color) }));
+      const dx = paint.x2 - paint.x1;
+      const dy = paint.y2 - paint.y1;
+      const lengthSquared = dx * dx + dy * dy || 1;
+      return (x, y) => sampleStops(stops, ((x - paint.x1) * dx + (y - paint.y1) * dy) / lengthSquared);
+    }
+    case 'radial': {
+      const stops = paint.stops.map((stop) => ({ offset: stop.offset, rgba: parseColor(stop.color) }));
+      return (x, y) => sampleStops(stops, Math.hypot(x - paint.cx, y - paint.cy) / (paint.r || 1));
+    }
+    case 'dots': {
+      const base = parseColor(paint.color);
+      const dot = parseColor(paint.dotColor);
+      const half = paint.spacing / 2;
+      return (x, y) => {
+        const lx = (((x % paint.spacing) + paint.spacing) % paint.spacing) - half;
+        const ly = (((y % paint.spacing) + paint.spacing) % paint.spacing) - half;
+        // Soften the dot edge over one pixel
+        const f = Math.max(0, Math.min(1, paint.radius + 0.5 - Math.hypot(lx, ly)));
+        if (f === 0) return base;
+        return [
+          base[0] + (dot[0] - base[0]) * f,
+          base[1] + (dot[1] - base[1]) * f,
+          base[2] + (dot[2] - base[2]) * f,
+          base[3] + (dot[3] - base[3]) * f,
+        ];
+      };
+    }
+  }
+}
+
+// Source-over blend of a straight-alpha color into the image
+function blendPixel(data: Uint8ClampedArray, index: number, rgba: RGBA, coverage: number): void {
+  const srcA = (rgba[3] ?? 1) * Math.min(1, coverage);
+  if (srcA <= 0) return;
+
+  const dstA = (data[index + 3] ?? 0) / 255;
+  const outA = srcA + dstA * (1 - srcA);
+  for (let c = 0; c < 3; c++) {
+    const src = rgba[c] ?? 0;
+    const dst = data[index + c] ?? 0;
+    data[index + c] = (src * srcA + dst * dstA * (1 - srcA)) / outA;
+  }
+  data[index + 3] = outA * 255;
+}
+
+// Approximate a gaussian blur with three box blur passes
+function blurCoverage(buffer: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  const radius = Math.max(1, Math.round(Math.sqrt((12 * sigma * sigma) / 3 + 1) / 2));
+  let src: Float32Array = buffer;
+  let dst: Float32Array = new Float32Array(buffer.length);
+
+  for (let pass = 0; pass < 3; pass++) {
+    for (const horizontal of [true, false]) {
+      const lines = horizontal ? height : width;
+      const length = horizontal ? width : height;
+      for (let line = 0; line < lines; line++) {
+        let sum = 0;
+        const at = (i: number) => (horizontal ? line * width + i : i * width + line);
+        for (let i = -radius; i <= radius; i++) {
+          sum += i >= 0 && i < length ? src[at(i)] ?? 0 : 0;
+        }
+        for (let i = 0; i < length; i++) {
+          dst[at(i)] = sum / (radius * 2 + 1);
+          const add = i + radius + 1;
+          const remove = i - radius;
+          sum += (add < length ? src[at(add)] ?? 0 : 0) - (remove >= 0 ? src[at(remove)] ?? 0 : 0);
+        }
+      }
+      [src, dst] = [dst, src];
+    }
+  }
+  return src;
+}
+
+// Paint a blurred, offset copy of the layer's shape underneath it
+function drawShadow(image: RasterImage, layer: SceneLayer, shadow: SceneShadow): void {
+  const { width, height, data } = image;
+  const mask = new Float32Array(width * height);
+  fillPath(layer.path, layer.fillRule ?? 'nonzero', width, height, (y, coverage) => {
+    mask.set(coverage, y * width);
+  });
+
+  const blurred = shadow.blur > 0 ? blurCoverage(mask, width, height, shadow.blur) : mask;
+  const rgba = parseColor(shadow.color);
+  const color: RGBA = [rgba[0], rgba[1], rgba[2], rgba[3] * shadow.opacity];
+  const dx = Math.round(shadow.offsetX);
+  const dy = Math.round(shadow.offsetY);
+
+  for (let y = 0; y < height; y++) {
+    const sy = y - dy;
+    if (sy < 0 || sy >= height) continue;
+    for (let x = 0; x < width; x++) {
+      const sx = x - dx;
+      if (sx < 0 || sx >= width) continue;
+      const coverage = blurred[sy * width + sx] ?? 0;
+      if (coverage > 0) {
+        blendPixel(data, (y * width + x) * 4, color, coverage);
+      }
+    }
+  }
+}
+
+// Draw an image into a box with bilinear sampling
+function drawImage(target: RasterImage, source: RasterImage, x: number, y: number, width: number, height: number): void {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(target.width, Math.ceil(x + width));
+  const y1 = Math.min(target.height, Math.ceil(y + height));
+
+  const texel = (sx: number, sy: number, c: number) =>
+    source.data[(Math.min(source.height - 1, Math.max(0, sy)) * source.width + Math.min(source.width - 1, Math.max(0, sx))) * 4 + c] ?? 0;
+
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const u = ((px + 0.5 - x) / width) * source.width - 0.5;
+      const v = ((py + 0.5 - y) / height) * source.height - 0.5;
+      if (u < -0.5 || v < -0.5 || u > source.width - 0.5 || v > source.height - 0.5) continue;
+
+      const iu = Math.floor(u);
+      const iv = Math.floor(v);
+      const fu = u - iu;
+      const fv = v - iv;
+      const rgba = [0, 0, 0, 0] as RGBA;
+      for (let c = 0; c < 4; c++) {
+        const top = texel(iu, iv, c) * (1 - fu) + texel(iu + 1, iv, c) * fu;
+        const bottom = texel(iu, iv + 1, c) * (1 - fu) + texel(iu + 1, iv + 1, c) * fu;
+        rgba[c] = top * (1 - fv) + bottom * fv;
+      }
+      rgba[3] = rgba[3] / 255;
+      blendPixel(target.data, (py * target.width + px) * 4, rgba, 1);
+    }
+  }
+}
+
+// Rasterize a scene. The logo is only drawn when its decoded pixels are passed in.
+export function rasterizeScene(scene: QRScene, logoImage?: RasterImage): RasterImage {
+  const width = Math.round(scene.width);
+  const height = Math.round(scene.height);
+  const image: RasterImage = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+
+  const background = createPaintSampler(scene.background);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      blendPixel(image.data, (y * width + x) * 4, background(x + 0.5, y + 0.5), 1);
+    }
+  }
+
+  for (const layer of scene.layers) {
+    if (layer.path.length === 0) continue;
+
+    if (layer.shadow) {
+      drawShadow(image, layer, layer.shadow);
+    }
+
+    const sampler = createPaintSampler(layer.paint);
+    fillPath(layer.path, layer.fillRule ?? 'nonzero', width, height, (y, coverage) => {
+      for (let x = 0; x < width; x++) {
+        const value = coverage[x] ?? 0;
+        if (value > 0) {
+          blendPixel(image.data, (y * width + x) * 4, sampler(x + 0.5, y + 0.5), value);
+        }
+      }
+    });
+  }
+
+  if (scene.logo && logoImage) {
+    const box = fitLogo(scene.logo, logoImage.width, logoImage.height);
+    drawImage(image, logoImage, box.x, box.y, box.width, box.height);
+  }
+
+  return image;
+}
+
+// Composite an image onto an opaque color, for formats without alpha
+export function flattenImage(image: RasterImage, color: string): RasterImage {
+  const [r, g, b] = parseColor(color);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = (image.data[i + 3] ?? 255) / 255;
+    data[i] = (image.data[i] ?? 0) * alpha + r * (1 - alpha);
+    data[i + 1] = (image.data[i + 1] ?? 0) * alpha + g * (1 - alpha);
+    data[i + 2] = (image.data[i + 2] ?? 0) * alpha + b * (1 - alpha);
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
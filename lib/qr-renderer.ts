@@ -0,0 +1,758 @@
+import type {
+  QRCodeConfig,
+  QRStyle,
+  QRPattern,
+  QRGradient,
+  GradientColorStop,
+  ErrorCorrectionLevel,
+  EyeShape,
+} from '@/types';
+import { createQRMatrix, isDarkModule, isReservedModule, isFinderModule, type QRMatrix } from '@/lib/qr-matrix';
+
+// Path commands in output pixel space, shared by every backend
+export type PathCommand =
+  | { op: 'M'; x: number; y: number }
+  | { op: 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+// 'dots' is a repeating fill: a base color with a grid of dots laid over it
+export type ScenePaint =
+  | { type: 'solid'; color: string }
+  | { type: 'linear'; x1: number; y1: number; x2: number; y2: number; stops: GradientColorStop[] }
+  | { type: 'radial'; cx: number; cy: number; r: number; stops: GradientColorStop[] }
+  | { type: 'dots'; color: string; dotColor: string; spacing: number; radius: number };
+
+export interface SceneShadow {
+  color: string;
+  opacity: number;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface SceneLayer {
+  paint: ScenePaint;
+  path: PathCommand[];
+  fillRule?: 'nonzero' | 'evenodd';
+  shadow?: SceneShadow;
+}
+
+// Square box an image is fitted into, keeping its aspect ratio
+export interface SceneImage {
+  href: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Backend-independent description of a rendered QR code
+export interface QRScene {
+  width: number;
+  height: number;
+  background: ScenePaint;
+  layers: SceneLayer[];
+  logo?: SceneImage;
+  matrix: QRMatrix;
+}
+
+interface LogoKnockout {
+  shape: 'square' | 'circle';
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Bump whenever a change alters the output for an existing config. History
+// entries record it, so a reopened entry can tell whether it still renders identically.
+export const QR_RENDERER_VERSION = 2;
+
+// Largest logo width, as a share of the symbol, each ECC level can absorb
+export const MAX_LOGO_SIZE: Record<ErrorCorrectionLevel, number> = {
+  L: 0.1,
+  M: 0.2,
+  Q: 0.25,
+  H: 0.3,
+};
+
+export const DEFAULT_LOGO_SIZE = 0.2;
+export const DEFAULT_LOGO_PADDING = 1;
+
+interface ModuleNeighbors {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+type ModuleShape = (
+  path: PathCommand[],
+  x: number,
+  y: number,
+  size: number,
+  neighbors: ModuleNeighbors
+) => void;
+
+// Bezier handle length for quarter circles
+const KAPPA = 0.5522847498;
+
+// Append a rectangle with individually rounded corners (clockwise)
+function addRoundedRect(
+  path: PathCommand[],
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  radii: [number, number, number, number]
+): void {
+  const [tl, tr, br, bl] = radii;
+
+  path.push({ op: 'M', x: x + tl, y });
+  path.push({ op: 'L', x: x + w - tr, y });
+  if (tr > 0) {
+    path.push({ op: 'C', x1: x + w - tr + KAPPA * tr, y1: y, x2: x + w, y2: y + tr - KAPPA * tr, x: x + w, y: y + tr });
+  }
+  path.push({ op: 'L', x: x + w, y: y + h - br });
+  if (br > 0) {
+    path.push({ op: 'C', x1: x + w, y1: y + h - br + KAPPA * br, x2: x + w - br + KAPPA * br, y2: y + h, x: x + w - br, y: y + h });
+  }
+  path.push({ op: 'L', x: x + bl, y: y + h });
+  if (bl > 0) {
+    path.push({ op: 'C', x1: x + bl - KAPPA * bl, y1: y + h, x2: x, y2: y + h - bl + KAPPA * bl, x, y: y + h - bl });
+  }
+  path.push({ op: 'L', x, y: y + tl });
+  if (tl > 0) {
+    path.push({ op: 'C', x1: x, y1: y + tl - KAPPA * tl, x2: x + tl - KAPPA * tl, y2: y, x: x + tl, y });
+  }
+  path.push({ op: 'Z' });
+}
+
+function addCircle(path: PathCommand[], cx: number, cy: number, r: number): void {
+  addRoundedRect(path, cx - r, cy - r, r * 2, r * 2, [r, r, r, r]);
+}
+
+// Only round corners that do not touch a neighbouring module
+function addConnectedRect(
+  path: PathCommand[],
+  x: number,
+  y: number,
+  size: number,
+  n: ModuleNeighbors,
+  r: number
+): void {
+  addRoundedRect(path, x, y, size, size, [
+    !n.top && !n.left ? r : 0,
+    !n.top && !n.right ? r : 0,
+    !n.bottom && !n.right ? r : 0,
+    !n.bottom && !n.left ? r : 0,
+  ]);
+}
+
+// Module shapes for each style
+const moduleShapes: Record<QRStyle, ModuleShape> = {
+  square: (path, x, y, size) => {
+    addRoundedRect(path, x, y, size, size, [0, 0, 0, 0]);
+  },
+  rounded: (path, x, y, size, n) => {
+    addConnectedRect(path, x, y, size, n, size / 2);
+  },
+  dots: (path, x, y, size) => {
+    addCircle(path, x + size / 2, y + size / 2, size * 0.5);
+  },
+  artistic: (path, x, y, size, n) => {
+    addConnectedRect(path, x, y, size, n, size * 0.3);
+  },
+};
+
+// Clamp the requested logo size to what the error correction level allows
+export function getLogoSize(config: Pick<QRCodeConfig, 'logoSize' | 'errorCorrectionLevel'>): number {
+  const max = MAX_LOGO_SIZE[config.errorCorrectionLevel ?? 'M'];
+  const requested = config.logoSize ?? DEFAULT_LOGO_SIZE;
+  return Math.max(0, Math.min(max, requested));
+}
+
+// Lower a stored logo size to what the config's ECC level allows, so lowering
+// the level keeps the config valid instead of only clamping what is drawn
+export function clampLogoSize<T extends Pick<QRCodeConfig, 'logoSize' | 'errorCorrectionLevel'>>(config: T): T {
+  if (config.logoSize === undefined) {
+    return config;
+  }
+  const logoSize = Math.min(config.logoSize, MAX_LOGO_SIZE[config.errorCorrectionLevel ?? 'M']);
+  return logoSize === config.logoSize ? config : { ...config, logoSize };
+}
+
+// Center the logo on the symbol and work out which area to clear behind it
+function layoutLogo(
+  config: QRCodeConfig,
+  matrix: QRMatrix,
+  margin: number,
+  moduleSize: number
+): { image: SceneImage; knockout?: LogoKnockout } | undefined {
+  if (!config.logoUrl) {
+    return undefined;
+  }
+
+  const symbolSize = matrix.size * moduleSize;
+  const logoSize = symbolSize * getLogoSize(config);
+  if (logoSize <= 0) {
+    return undefined;
+  }
+
+  const offset = margin * moduleSize + (symbolSize - logoSize) / 2;
+  const image: SceneImage = { href: config.logoUrl, x: offset, y: offset, width: logoSize, height: logoSize };
+
+  const shape = config.logoShape ?? 'square';
+  if (shape === 'none') {
+    return { image };
+  }
+
+  const padding = Math.max(0, config.logoPadding ?? DEFAULT_LOGO_PADDING) * moduleSize;
+  return {
+    image,
+    knockout: {
+      shape,
+      x: offset - padding,
+      y: offset - padding,
+      size: logoSize + padding * 2,
+    },
+  };
+}
+
+function isInKnockout(knockout: LogoKnockout, x: number, y: number): boolean {
+  if (knockout.shape === 'circle') {
+    const r = knockout.size / 2;
+    const dx = x - (knockout.x + r);
+    const dy = y - (knockout.y + r);
+    return dx * dx + dy * dy <= r * r;
+  }
+  return x >= knockout.x && x <= knockout.x + knockout.size && y >= knockout.y && y <= knockout.y + knockout.size;
+}
+
+// Corner radius, as a share of a module, at the ends of joined 'lines' runs
+const RUN_END_RADIUS: Record<QRStyle, number> = {
+  square: 0,
+  rounded: 0.5,
+  dots: 0.45,
+  artistic: 0.3,
+};
+
+// Bar thickness, as a share of a module, for joined 'lines' runs
+const RUN_THICKNESS: Record<QRStyle, number> = {
+  square: 1,
+  rounded: 1,
+  dots: 0.9,
+  artistic: 1,
+};
+
+// Join consecutive modules along a row or column into single bars
+function addModuleRuns(
+  path: PathCommand[],
+  size: number,
+  isDrawn: (row: number, col: number) => boolean,
+  margin: number,
+  moduleSize: number,
+  style: QRStyle,
+  vertical: boolean
+): void {
+  const thickness = moduleSize * RUN_THICKNESS[style];
+  const inset = (moduleSize - thickness) / 2;
+  const r = Math.min(thickness / 2, moduleSize * RUN_END_RADIUS[style]);
+
+  for (let line = 0; line < size; line++) {
+    let start = -1;
+    for (let pos = 0; pos <= size; pos++) {
+      const row = vertical ? pos : line;
+      const col = vertical ? line : pos;
+      const drawn = pos < size && isDrawn(row, col);
+
+      if (drawn && start < 0) {
+        start = pos;
+      } else if (!drawn && start >= 0) {
+        const length = (pos - start) * moduleSize - inset * 2;
+        const along = (start + margin) * moduleSize + inset;
+        const across = (line + margin) * moduleSize + inset;
+        if (vertical) {
+          addRoundedRect(path, across, along, thickness, length, [r, r, r, r]);
+        } else {
+          addRoundedRect(path, along, across, length, thickness, [r, r, r, r]);
+        }
+        start = -1;
+      }
+    }
+  }
+}
+
+// Default for the 'artistic' style: a diagonal light-to-dark sweep
+export function getArtisticGradient(foreground: string): QRGradient {
+  return {
+    type: 'linear',
+    angle: 45,
+    stops: [
+      { offset: 0, color: adjustColorBrightness(foreground, 30) },
+      { offset: 0.5, color: foreground },
+      { offset: 1, color: adjustColorBrightness(foreground, -30) },
+    ],
+  };
+}
+
+// Default for the 'gradient' pattern: foreground into the pattern color
+function getPatternGradient(config: QRCodeConfig, foreground: string): QRGradient {
+  return {
+    type: 'linear',
+    angle: config.patternDirection === 'vertical' ? 90 : 0,
+    stops: [
+      { offset: 0, color: foreground },
+      { offset: 1, color: config.patternColor || adjustColorBrightness(foreground, 80) },
+    ],
+  };
+}
+
+// Place a gradient over a box; returns undefined when it has no stops
+export function gradientToPaint(
+  gradient: QRGradient,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): ScenePaint | undefined {
+  const stops = gradient.stops
+    .map((stop) => ({ offset: Math.max(0, Math.min(1, stop.offset)), color: stop.color }))
+    .sort((a, b) => a.offset - b.offset);
+
+  const first = stops[0];
+  if (!first) {
+    return undefined;
+  }
+  if (stops.length === 1) {
+    return { type: 'solid', color: first.color };
+  }
+
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  if (gradient.type === 'radial') {
+    return { type: 'radial', cx, cy, r: Math.hypot(width, height) / 2, stops };
+  }
+
+  // Project the box onto the gradient line so both corners land on 0% and 100%
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+  return {
+    type: 'linear',
+    x1: cx - dx * half,
+    y1: cy - dy * half,
+    x2: cx + dx * half,
+    y2: cy + dy * half,
+    stops,
+  };
+}
+
+// Dot texture for the 'dots' pattern, four dots per module
+function getDotsPaint(config: QRCodeConfig, foreground: string, moduleSize: number): ScenePaint {
+  const spacing = moduleSize / 2;
+  return {
+    type: 'dots',
+    color: foreground,
+    dotColor: config.patternColor || adjustColorBrightness(foreground, 40),
+    spacing,
+    radius: spacing * 0.25,
+  };
+}
+
+// Eye shape used when the config leaves it unset, so eyes match the modules
+export const DEFAULT_EYE_SHAPES: Record<QRStyle, EyeShape> = {
+  square: 'square',
+  rounded: 'rounded',
+  dots: 'circle',
+  artistic: 'rounded',
+};
+
+type FinderCorner = 'top-left' | 'top-right' | 'bottom-left';
+
+// Corner radii for an eye shape of the given outer size
+function eyeRadii(shape: EyeShape, size: number, corner: FinderCorner): [number, number, number, number] {
+  switch (shape) {
+    case 'rounded': {
+      const r = size * 0.3;
+      return [r, r, r, r];
+    }
+    case 'circle': {
+      const r = size / 2;
+      return [r, r, r, r];
+    }
+    case 'leaf': {
+      // Mirror the leaf so every eye keeps its sharp corners on the same axis
+      const r = size / 2;
+      return corner === 'top-left' ? [r, 0, r, 0] : [0, r, 0, r];
+    }
+    default:
+      return [0, 0, 0, 0];
+  }
+}
+
+// Append the 7x7 frame (drawn as a ring with even-odd fill) and 3x3 ball of one finder pattern
+function addFinderEye(
+  framePath: PathCommand[],
+  ballPath: PathCommand[],
+  x: number,
+  y: number,
+  moduleSize: number,
+  frameShape: EyeShape,
+  ballShape: EyeShape,
+  corner: FinderCorner
+): void {
+  const outer = moduleSize * 7;
+  const inner = moduleSize * 5;
+  const ball = moduleSize * 3;
+
+  addRoundedRect(framePath, x, y, outer, outer, eyeRadii(frameShape, outer, corner));
+  addRoundedRect(framePath, x + moduleSize, y + moduleSize, inner, inner, eyeRadii(frameShape, inner, corner));
+  addRoundedRect(ballPath, x + moduleSize * 2, y + moduleSize * 2, ball, ball, eyeRadii(ballShape, ball, corner));
+}
+
+// Build the scene for a config from the real module matrix
+export function buildQRScene(config: QRCodeConfig): QRScene {
+  const matrix = createQRMatrix(config);
+  const margin = config.margin ?? 2;
+  const width = config.size || 400;
+  const moduleSize = width / (matrix.size + margin * 2);
+  const foreground = config.foregroundColor || '#000000';
+  const background = config.backgroundColor || '#ffffff';
+  const shape = moduleShapes[config.style] ?? moduleShapes.square;
+  const logo = layoutLogo(config, matrix, margin, moduleSize);
+
+  // Function patterns are always drawn, even under the logo
+  const isDrawn = (row: number, col: number): boolean => {
+    if (!isDarkModule(matrix, row, col)) return false;
+    if (!logo?.knockout || isReservedModule(matrix, row, col)) return true;
+    return !isInKnockout(logo.knockout, (col + margin + 0.5) * moduleSize, (row + margin + 0.5) * moduleSize);
+  };
+
+  const pattern = (config.pattern ?? 'solid') as QRPattern;
+  const isDataModule = (row: number, col: number): boolean =>
+    isDrawn(row, col) && !isFinderModule(matrix.size, row, col);
+
+  const path: PathCommand[] = [];
+  if (pattern === 'lines') {
+    addModuleRuns(path, matrix.size, isDataModule, margin, moduleSize, config.style, config.patternDirection === 'vertical');
+  } else {
+    for (let row = 0; row < matrix.size; row++) {
+      for (let col = 0; col < matrix.size; col++) {
+        if (!isDataModule(row, col)) continue;
+
+        shape(path, (col + margin) * moduleSize, (row + margin) * moduleSize, moduleSize, {
+          top: isDrawn(row - 1, col),
+          right: isDrawn(row, col + 1),
+          bottom: isDrawn(row + 1, col),
+          left: isDrawn(row, col - 1),
+        });
+      }
+    }
+  }
+
+  // Finder patterns are drawn whole so their frame and ball can be styled
+  const framePath: PathCommand[] = [];
+  const ballPath: PathCommand[] = [];
+  const frameShape = config.eyeFrameShape ?? DEFAULT_EYE_SHAPES[config.style] ?? 'square';
+  const ballShape = config.eyeBallShape ?? DEFAULT_EYE_SHAPES[config.style] ?? 'square';
+  const far = (matrix.size - 7 + margin) * moduleSize;
+  const near = margin * moduleSize;
+  addFinderEye(framePath, ballPath, near, near, moduleSize, frameShape, ballShape, 'top-left');
+  addFinderEye(framePath, ballPath, far, near, moduleSize, frameShape, ballShape, 'top-right');
+  addFinderEye(framePath, ballPath, near, far, moduleSize, frameShape, ballShape, 'bottom-left');
+
+  let shadow: SceneShadow | undefined;
+  if (config.style === 'artistic') {
+    shadow = {
+      color: foreground,
+      opacity: 0.3,
+      blur: moduleSize * 0.15,
+      offsetX: moduleSize * 0.1,
+      offsetY: moduleSize * 0.1,
+    };
+  }
+
+  // A configured gradient wins; the gradient pattern and artistic style bring their own
+  const gradient =
+    config.gradient ??
+    (pattern === 'gradient'
+      ? getPatternGradient(config, foreground)
+      : config.style === 'artistic'
+        ? getArtisticGradient(foreground)
+        : undefined);
+
+  let paint: ScenePaint = (gradient && gradientToPaint(gradient, 0, 0, width, width)) || { type: 'solid', color: foreground };
+
+  // The dots pattern keeps the module geometry and textures its fill
+  if (pattern === 'dots') {
+    paint = getDotsPaint(config, foreground, moduleSize);
+  }
+
+  // Eyes without their own color share the module paint. The dots texture would
+  // break up the finder patterns scanners look for first, so eyes stay solid under it.
+  const eyePaint: ScenePaint = pattern === 'dots' ? { type: 'solid', color: foreground } : paint;
+  const framePaint: ScenePaint = config.eyeFrameColor ? { type: 'solid', color: config.eyeFrameColor } : eyePaint;
+  const ballPaint: ScenePaint = config.eyeBallColor ? { type: 'solid', color: config.eyeBallColor } : framePaint;
+
+  return {
+    width,
+    height: width,
+    background: (config.backgroundGradient && gradientToPaint(config.backgroundGradient, 0, 0, width, width)) || {
+      type: 'solid',
+      color: background,
+    },
+    layers: [
+      { paint, path, shadow },
+      { paint: framePaint, path: framePath, fillRule: 'evenodd', shadow },
+      { paint: ballPaint, path: ballPath, shadow },
+    ],
+    logo: logo?.image,
+    matrix,
+  };
+}
+
+// Format numbers compactly for SVG output
+function fmt(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pathToSVGData(path: PathCommand[]): string {
+  return path
+    .map((cmd) => {
+      switch (cmd.op) {
+        case 'M':
+        case 'L':
+          return `${cmd.op}${fmt(cmd.x)} ${fmt(cmd.y)}`;
+        case 'C':
+          return `C${fmt(cmd.x1)} ${fmt(cmd.y1)} ${fmt(cmd.x2)} ${fmt(cmd.y2)} ${fmt(cmd.x)} ${fmt(cmd.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join('');
+}
+
+// Returns the fill attribute value, appending any gradient definition to defs
+function paintToSVG(paint: ScenePaint, id: string, defs: string[]): string {
+  if (paint.type === 'solid') {
+    return paint.color;
+  }
+
+  if (paint.type === 'dots') {
+    const s = fmt(paint.spacing);
+    const c = fmt(paint.spacing / 2);
+    defs.push(
+      `<pattern id="${id}" patternUnits="userSpaceOnUse" width="${s}" height="${s}"><rect width="${s}" height="${s}" fill="${paint.color}"/><circle cx="${c}" cy="${c}" r="${fmt(paint.radius)}" fill="${paint.dotColor}"/></pattern>`
+    );
+    return `url(#${id})`;
+  }
+
+  const stops = paint.stops
+    .map((stop) => `<stop offset="${fmt(stop.offset * 100)}%" stop-color="${stop.color}"/>`)
+    .join('');
+
+  if (paint.type === 'radial') {
+    defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(paint.cx)}" cy="${fmt(paint.cy)}" r="${fmt(paint.r)}">${stops}</radialGradient>`
+    );
+  } else {
+    defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(paint.x1)}" y1="${fmt(paint.y1)}" x2="${fmt(paint.x2)}" y2="${fmt(paint.y2)}">${stops}</linearGradient>`
+    );
+  }
+  return `url(#${id})`;
+}
+
+// Serialize a scene to a standalone SVG document
+export function sceneToSVG(scene: QRScene): string {
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  const background = paintToSVG(scene.background, 'qr-bg', defs);
+  body.push(`<rect width="${fmt(scene.width)}" height="${fmt(scene.height)}" fill="${background}"/>`);
+
+  scene.layers.forEach((layer, index) => {
+    if (layer.path.length === 0) return;
+
+    const fill = paintToSVG(layer.paint, `qr-fill-${index}`, defs);
+    let filter = '';
+    if (layer.shadow) {
+      const shadowId = `qr-shadow-${index}`;
+      defs.push(
+        `<filter id="${shadowId}" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="${fmt(layer.shadow.offsetX)}" dy="${fmt(layer.shadow.offsetY)}" stdDeviation="${fmt(layer.shadow.blur)}" flood-color="${layer.shadow.color}" flood-opacity="${layer.shadow.opacity}"/></filter>`
+      );
+      filter = ` filter="url(#${shadowId})"`;
+    }
+    const fillRule = layer.fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+    body.push(`<path fill="${fill}"${fillRule}${filter} d="${pathToSVGData(layer.path)}"/>`);
+  });
+
+  if (scene.logo) {
+    const { href, x, y, width, height } = scene.logo;
+    body.push(
+      `<image href="${escapeAttribute(href)}" x="${fmt(x)}" y="${fmt(y)}" width="${fmt(width)}" height="${fmt(height)}" preserveAspectRatio="xMidYMid meet"/>`
+    );
+  }
+
+  const defsBlock = defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(scene.width)}" height="${fmt(scene.height)}" viewBox="0 0 ${fmt(scene.width)} ${fmt(scene.height)}">${defsBlock}${body.join('')}</svg>`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// Fit an image of the given dimensions inside the logo box, centered
+export function fitLogo(logo: SceneImage, imageWidth: number, imageHeight: number): SceneImage {
+  if (imageWidth <= 0 || imageHeight <= 0) {
+    return logo;
+  }
+
+  const scale = Math.min(logo.width / imageWidth, logo.height / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return {
+    href: logo.href,
+    x: logo.x + (logo.width - width) / 2,
+    y: logo.y + (logo.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+// Dot fills are drawn as their base color here, with the dots added by drawDotsPattern
+function paintToCanvas(ctx: CanvasRenderingContext2D, paint: ScenePaint): string | CanvasGradient {
+  if (paint.type === 'solid' || paint.type === 'dots') {
+    return paint.color;
+  }
+
+  const gradient =
+    paint.type === 'radial'
+      ? ctx.createRadialGradient(paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r)
+      : ctx.createLinearGradient(paint.x1, paint.y1, paint.x2, paint.y2);
+  paint.stops.forEach((stop) => gradient.addColorStop(stop.offset, stop.color));
+  return gradient;
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, path: PathCommand[]): void {
+  ctx.beginPath();
+  for (const cmd of path) {
+    switch (cmd.op) {
+      case 'M':
+        ctx.moveTo(cmd.x, cmd.y);
+        break;
+      case 'L':
+        ctx.lineTo(cmd.x, cmd.y);
+        break;
+      case 'C':
+        ctx.bezierCurveTo(cmd.x1, cmd.y1, cmd.x2, cmd.y2, cmd.x, cmd.y);
+        break;
+      case 'Z':
+        ctx.closePath();
+        break;
+    }
+  }
+}
+
+// Lay the dot grid of a 'dots' paint over the current path, clipped to it
+function drawDotsPattern(
+  ctx: CanvasRenderingContext2D,
+  paint: Extract<ScenePaint, { type: 'dots' }>,
+  width: number,
+  height: number,
+  fillRule: CanvasFillRule
+): void {
+  ctx.save();
+  ctx.clip(fillRule);
+  ctx.shadowColor = 'transparent';
+  ctx.fillStyle = paint.dotColor;
+  ctx.beginPath();
+  for (let y = paint.spacing / 2; y < height; y += paint.spacing) {
+    for (let x = paint.spacing / 2; x < width; x += paint.spacing) {
+      ctx.moveTo(x + paint.radius, y);
+      ctx.arc(x, y, paint.radius, 0, Math.PI * 2);
+    }
+  }
+  ctx.fill();
+  ctx.restore();
+}
+
+// Draw a scene onto an existing 2D context sized to the scene. The logo is
+// only drawn when its already-loaded image is passed in.
+export function drawSceneToCanvas(
+  ctx: CanvasRenderingContext2D,
+  scene: QRScene,
+  logoImage?: HTMLImageElement
+): void {
+  ctx.save();
+  ctx.fillStyle = paintToCanvas(ctx, scene.background);
+  ctx.fillRect(0, 0, scene.width, scene.height);
+
+  for (const layer of scene.layers) {
+    if (layer.path.length === 0) continue;
+
+    ctx.save();
+    if (layer.shadow) {
+      ctx.shadowColor = withOpacity(layer.shadow.color, layer.shadow.opacity);
+      ctx.shadowBlur = layer.shadow.blur * 2;
+      ctx.shadowOffsetX = layer.shadow.offsetX;
+      ctx.shadowOffsetY = layer.shadow.offsetY;
+    }
+    ctx.fillStyle = paintToCanvas(ctx, layer.paint);
+    tracePath(ctx, layer.path);
+    ctx.fill(layer.fillRule ?? 'nonzero');
+    if (layer.paint.type === 'dots') {
+      drawDotsPattern(ctx, layer.paint, scene.width, scene.height, layer.fillRule ?? 'nonzero');
+    }
+    ctx.restore();
+  }
+
+  if (scene.logo && logoImage) {
+    const { x, y, width, height } = fitLogo(scene.logo, logoImage.naturalWidth, logoImage.naturalHeight);
+    ctx.drawImage(logoImage, x, y, width, height);
+  }
+
+  ctx.restore();
+}
+
+// Convert a hex color to rgba() with the given opacity
+function withOpacity(color: string, opacity: number): string {
+  const hex = color.replace('#', '');
+  const r = parseInt(hex.substr(0, 2), 16);
+  const g = parseInt(hex.substr(2, 2), 16);
+  const b = parseInt(hex.substr(4, 2), 16);
+
+  if (isNaN(r) || isNaN(g) || isNaN(b)) {
+    return color;
+  }
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+// Helper function to adjust color brightness
+export function adjustColorBrightness(color: string, amount: number): string {
+  try {
+    const hex = color.replace('#', '');
+
+    // Ensure we have valid hex values and handle potential NaN
+    const rHex = hex.substr(0, 2);
+    const gHex = hex.substr(2, 2);
+    const bHex = hex.substr(4, 2);
+
+    const rParsed = parseInt(rHex, 16);
+    const gParsed = parseInt(gHex, 16);
+    const bParsed = parseInt(bHex, 16);
+
+    // Check if parsing was successful (not NaN)
+    const r = isNaN(rParsed) ? 0 : Math.max(0, Math.min(255, rParsed + amount));
+    const g = isNaN(gParsed) ? 0 : Math.max(0, Math.min(255, gParsed + amount));
+    const b = isNaN(bParsed) ? 0 : Math.max(0, Math.min(255, bParsed + amount));
+
+    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+  } catch (error) {
+    return color; // Return original color if adjustment fails
+  }
+}
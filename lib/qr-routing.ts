@@ -0,0 +1,98 @@
+import type { DynamicQRCode, RedirectRule, ScanOS } from '@/types';
+
+// Conditional routing for dynamic codes: ordered rules pick a target per scan,
+// falling back to the code's own target_url
+
+export const MAX_REDIRECT_RULES = 20;
+
+// What is known about one scan when its target is chosen. scanNumber is the
+// scan's 1-based position among the code's scans, only counted when a rule needs it.
+export interface ScanContext {
+  now: Date;
+  os: ScanOS;
+  locale?: string;
+  scanNumber?: number;
+}
+
+export function createRedirectRule(targetUrl = ''): RedirectRule {
+  return { id: crypto.randomUUID(), target_url: targetUrl };
+}
+
+// Parse the rules, which Cosmic stores as a JSON string
+export function getRedirectRules(code: DynamicQRCode): RedirectRule[] {
+  const { rules } = code.metadata;
+  if (!rules) {
+    return [];
+  }
+  if (typeof rules !== 'string') {
+    return rules;
+  }
+
+  try {
+    const parsed = JSON.parse(rules);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to parse redirect rules:', error);
+    return [];
+  }
+}
+
+export function usesScanCount(rule: RedirectRule): boolean {
+  return rule.min_scans !== undefined || rule.max_scans !== undefined;
+}
+
+// "de" matches "de" and "de-AT"; "de-AT" only matches "de-AT"
+function matchesLanguage(language: string, locale: string): boolean {
+  const wanted = language.toLowerCase();
+  const actual = locale.toLowerCase();
+  return actual === wanted || actual.startsWith(`${wanted}-`);
+}
+
+export function matchesRule(rule: RedirectRule, context: ScanContext): boolean {
+  const time = context.now.getTime();
+  if (rule.starts_at && time < Date.parse(rule.starts_at)) return false;
+  if (rule.ends_at && time >= Date.parse(rule.ends_at)) return false;
+
+  if (rule.os && rule.os.length > 0 && !rule.os.includes(context.os)) return false;
+
+  if (rule.languages && rule.languages.length > 0) {
+    const { locale } = context;
+    if (!locale || !rule.languages.some((language) => matchesLanguage(language, locale))) return false;
+  }
+
+  if (usesScanCount(rule)) {
+    if (context.scanNumber === undefined) return false;
+    if (rule.min_scans !== undefined && context.scanNumber < rule.min_scans) return false;
+    if (rule.max_scans !== undefined && context.scanNumber > rule.max_scans) return false;
+  }
+
+  return true;
+}
+
+// Pick the target for one scan. Scans are only counted once a rule that
+// depends on the count is reached, so most scans cost a single lookup.
+export async function resolveRedirectTarget(
+  code: DynamicQRCode,
+  context: Omit<ScanContext, 'scanNumber'>,
+  countScans: () => Promise<number>
+): Promise<{ target: string; rule?: RedirectRule }> {
+  let scanNumber: number | undefined;
+  let counted = false;
+
+  for (const rule of getRedirectRules(code)) {
+    if (usesScanCount(rule) && !counted) {
+      counted = true;
+      try {
+        scanNumber = (await countScans()) + 1;
+      } catch (error) {
+        // Without a count, scan-count rules are skipped rather than failing the redirect
+        console.warn('Failed to count QR scans:', error);
+      }
+    }
+    if (matchesRule(rule, { ...context, scanNumber })) {
+      return { target: rule.target_url, rule };
+    }
+  }
+
+  return { target: code.metadata.target_url };
+}
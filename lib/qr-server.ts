@@ -0,0 +1,269 @@
+import type { QRCodeConfig, ExportFormat, PDFExportOptions } from '@/types';
+import { buildQRScene, sceneToSVG } from '@/lib/qr-renderer';
+import { rasterizeScene, flattenImage } from '@/lib/qr-raster';
+import { sceneToPDF, DEFAULT_PDF_OPTIONS } from '@/lib/qr-pdf';
+import { sceneToEPS } from '@/lib/qr-eps';
+import { decodeImageDataUrl, encodePNG, encodeJPEG, parseDataUrl, toDataUrl, getPNGSize, getJPEGSize, DEFAULT_LOSSY_OPTIONS } from '@/lib/image-codec';
+
+// Server-side rendering for route handlers, server actions and scripts.
+// Nothing here touches the DOM; it shares the scene builder with the client.
+
+// Logos are decoded into memory on the server, so it only takes small PNG and
+// JPEG logos: as data URLs, or as https URLs on the hosts in LOGO_ALLOWED_HOSTS
+// (comma separated), which are fetched with a timeout and a size cap.
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const MAX_SERVER_LOGO_BYTES = 192 * 1024;
+const MAX_SERVER_LOGO_URL_LENGTH = 256 * 1024;
+export const MAX_SERVER_LOGO_SIZE = 1024;
+const SERVER_LOGO_TYPES = ['image/png', 'image/jpeg', 'image/jpg'];
+
+function getAllowedLogoHosts(): string[] {
+  return (process.env.LOGO_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function getDataUrlMime(dataUrl: string): string {
+  return dataUrl.slice('data:'.length).split(/[;,]/)[0]?.trim().toLowerCase() ?? '';
+}
+
+// Why the server can't render a logo from this URL, or null when it can
+export function getServerLogoUrlIssue(logoUrl: string): string | null {
+  if (logoUrl.length > MAX_SERVER_LOGO_URL_LENGTH) {
+    return `Logo URL must be at most ${MAX_SERVER_LOGO_URL_LENGTH} characters`;
+  }
+  if (logoUrl.startsWith('data:')) {
+    return SERVER_LOGO_TYPES.includes(getDataUrlMime(logoUrl)) ? null : 'Logo must be a PNG or JPEG image';
+  }
+  try {
+    const { protocol, hostname } = new URL(logoUrl);
+    if (protocol === 'https:' && getAllowedLogoHosts().includes(hostname.toLowerCase())) {
+      return null;
+    }
+  } catch {
+    // Reported below like any other URL the server won't fetch
+  }
+  return 'Logo must be a PNG or JPEG data URL, or an https URL on a host in LOGO_ALLOWED_HOSTS';
+}
+
+// Check an inlined logo's size from its header, before any pixels are decoded
+function getLogoImageIssue(dataUrl: string): string | null {
+  let parsed: { mime: string; bytes: Uint8Array };
+  try {
+    parsed = parseDataUrl(dataUrl);
+  } catch {
+    return 'Logo is not a readable PNG or JPEG image';
+  }
+  const { bytes } = parsed;
+  const mime = parsed.mime.toLowerCase();
+  if (bytes.length > MAX_SERVER_LOGO_BYTES) {
+    return `Logo must be at most ${MAX_SERVER_LOGO_BYTES / 1024} KB`;
+  }
+  if (!SERVER_LOGO_TYPES.includes(mime)) {
+    return 'Logo must be a PNG or JPEG image';
+  }
+
+  let size: { width: number; height: number };
+  try {
+    size = mime === 'image/png' ? getPNGSize(bytes) : getJPEGSize(bytes);
+  } catch {
+    return 'Logo is not a readable PNG or JPEG image';
+  }
+  if (size.width === 0 || size.height === 0 || size.width > MAX_SERVER_LOGO_SIZE || size.height > MAX_SERVER_LOGO_SIZE) {
+    return `Logo must be at most ${MAX_SERVER_LOGO_SIZE}x${MAX_SERVER_LOGO_SIZE} pixels`;
+  }
+  return null;
+}
+
+// Read at most MAX_SERVER_LOGO_BYTES of a response body
+async function readLogoBody(response: Response): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_SERVER_LOGO_BYTES || !response.body) {
+    throw new Error(response.body ? `Logo must be at most ${MAX_SERVER_LOGO_BYTES / 1024} KB` : 'Logo response is empty');
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > MAX_SERVER_LOGO_BYTES) {
+      await reader.cancel();
+      throw new Error(`Logo must be at most ${MAX_SERVER_LOGO_BYTES / 1024} KB`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+async function fetchLogo(logoUrl: string): Promise<string> {
+  let response: Response;
+  try {
+    // Redirects are refused, since they could lead off the allowed hosts
+    response = await fetch(logoUrl, { redirect: 'error', signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    throw new Error(`Logo could not be fetched: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Logo request failed with status ${response.status}`);
+  }
+  const mime = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase() ?? '';
+  if (!SERVER_LOGO_TYPES.includes(mime)) {
+    throw new Error('Logo must be a PNG or JPEG image');
+  }
+  return toDataUrl(await readLogoBody(response), mime);
+}
+
+// Server counterpart of resolveLogoUrl: inline an allowed logo as a data URL and
+// check it is safe to decode. Throws with a message fit to show the caller.
+export async function resolveServerLogoUrl(logoUrl?: string): Promise<string | undefined> {
+  if (!logoUrl) {
+    return undefined;
+  }
+  const urlIssue = getServerLogoUrlIssue(logoUrl);
+  if (urlIssue) {
+    throw new Error(urlIssue);
+  }
+
+  const dataUrl = logoUrl.startsWith('data:') ? logoUrl : await fetchLogo(logoUrl);
+  const imageIssue = getLogoImageIssue(dataUrl);
+  if (imageIssue) {
+    throw new Error(imageIssue);
+  }
+  return dataUrl;
+}
+
+export interface RenderedQRCode {
+  body: Uint8Array;
+  contentType: string;
+}
+
+// Render a config to PNG bytes, tagged with the print resolution when a DPI is given
+export async function renderQRCodePNG(config: QRCodeConfig, dpi?: number): Promise<Uint8Array> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    const logoUrl = await resolveServerLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? decodeImageDataUrl(logoUrl) : undefined;
+
+    return encodePNG(rasterizeScene(scene, logoImage), dpi);
+  } catch (error) {
+    console.error('Error in renderQRCodePNG:', error);
+    throw new Error(`Failed to render QR code PNG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render a config to JPEG bytes, flattened onto an opaque color
+export async function renderQRCodeJPEG(
+  config: QRCodeConfig,
+  quality: number = DEFAULT_LOSSY_OPTIONS.quality,
+  flattenColor: string = DEFAULT_LOSSY_OPTIONS.flattenColor
+): Promise<Uint8Array> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    const logoUrl = await resolveServerLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? decodeImageDataUrl(logoUrl) : undefined;
+
+    return encodeJPEG(flattenImage(rasterizeScene(scene, logoImage), flattenColor), quality);
+  } catch (error) {
+    console.error('Error in renderQRCodeJPEG:', error);
+    throw new Error(`Failed to render QR code JPEG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render a config to an EPS document, one point per scene pixel
+export async function renderQRCodeEPS(config: QRCodeConfig): Promise<string> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    const logoUrl = await resolveServerLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? decodeImageDataUrl(logoUrl) : undefined;
+
+    return sceneToEPS(scene, logoImage);
+  } catch (error) {
+    console.error('Error in renderQRCodeEPS:', error);
+    throw new Error(`Failed to render QR code EPS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render a config to an SVG document
+export async function renderQRCodeSVG(config: QRCodeConfig): Promise<string> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    // Embed the logo as a data URL so the SVG stays self-contained
+    const logoUrl = await resolveServerLogoUrl(config.logoUrl);
+    return sceneToSVG(buildQRScene({ ...config, logoUrl }));
+  } catch (error) {
+    console.error('Error in renderQRCodeSVG:', error);
+    throw new Error(`Failed to render QR code SVG: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render a config to vector PDF bytes
+export async function renderQRCodePDF(
+  config: QRCodeConfig,
+  options: PDFExportOptions = DEFAULT_PDF_OPTIONS
+): Promise<Uint8Array> {
+  try {
+    if (!config.text || typeof config.text !== 'string') {
+      throw new Error('Invalid text input for QR code generation');
+    }
+
+    const logoUrl = await resolveServerLogoUrl(config.logoUrl);
+    const scene = buildQRScene({ ...config, logoUrl });
+    const logoImage = logoUrl ? decodeImageDataUrl(logoUrl) : undefined;
+
+    const caption = options.layout?.caption === 'payload' ? config.text : undefined;
+    return sceneToPDF({ scene, logoImage, caption, captionColor: config.foregroundColor }, options);
+  } catch (error) {
+    console.error('Error in renderQRCodePDF:', error);
+    throw new Error(`Failed to render QR code PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Render a config in the requested export format
+export async function renderQRCode(
+  config: QRCodeConfig,
+  format: ExportFormat,
+  pdfOptions?: PDFExportOptions,
+  dpi?: number,
+  quality?: number
+): Promise<RenderedQRCode> {
+  switch (format) {
+    case 'png':
+      return { body: await renderQRCodePNG(config, dpi), contentType: 'image/png' };
+    case 'svg':
+      return { body: new TextEncoder().encode(await renderQRCodeSVG(config)), contentType: 'image/svg+xml' };
+    case 'pdf':
+      return { body: await renderQRCodePDF(config, pdfOptions), contentType: 'application/pdf' };
+    case 'jpeg':
+      return { body: await renderQRCodeJPEG(config, quality), contentType: 'image/jpeg' };
+    case 'eps':
+      return { body: new TextEncoder().encode(await renderQRCodeEPS(config)), contentType: 'application/postscript' };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
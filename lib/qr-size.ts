@@ -0,0 +1,94 @@
+import type { ExportSizeOptions, PrintSizeCheck, SizeUnit } from '@/types';
+
+// Physical sizing for raster exports: convert between pixels, millimetres and
+// inches, and check that modules come out large enough to print and scan
+
+export const MM_PER_INCH = 25.4;
+
+export const DPI_OPTIONS = [72, 96, 150, 300, 600];
+export const PRINT_DPI_PRESETS = [300, 600];
+
+export const MIN_EXPORT_DPI = 72;
+export const MAX_EXPORT_DPI = 2400;
+
+export const MIN_EXPORT_PIXELS = 64;
+// Stays under the 16384px side limit of browser canvases
+export const MAX_EXPORT_PIXELS = 16000;
+
+// WebP and JPEG are encoded from a single canvas, which browsers cap by area
+export const MAX_LOSSY_EXPORT_PIXELS = 4096;
+
+export const DEFAULT_EXPORT_SIZE: ExportSizeOptions = {
+  value: 400,
+  unit: 'px',
+  dpi: 300,
+  scanDistance: 30,
+};
+
+// Smallest module, in millimetres, that print processes and phone cameras resolve reliably
+export const MIN_PRINT_MODULE_SIZE = 0.25;
+
+// A code scans from about ten times its width
+const SCAN_DISTANCE_RATIO = 10;
+
+// Below this, antialiasing smears module edges together
+const MIN_PIXELS_PER_MODULE = 2;
+
+export function toPixels(value: number, unit: SizeUnit, dpi: number): number {
+  switch (unit) {
+    case 'mm':
+      return (value / MM_PER_INCH) * dpi;
+    case 'in':
+      return value * dpi;
+    default:
+      return value;
+  }
+}
+
+export function fromPixels(pixels: number, unit: SizeUnit, dpi: number): number {
+  switch (unit) {
+    case 'mm':
+      return (pixels / dpi) * MM_PER_INCH;
+    case 'in':
+      return pixels / dpi;
+    default:
+      return pixels;
+  }
+}
+
+// Whole pixels the export will be rendered at, within the supported range
+export function getExportPixels(options: ExportSizeOptions): number {
+  const pixels = Math.round(toPixels(options.value, options.unit, options.dpi));
+  return Math.min(MAX_EXPORT_PIXELS, Math.max(MIN_EXPORT_PIXELS, pixels || MIN_EXPORT_PIXELS));
+}
+
+// Switch units while keeping the same output size; physical units keep two decimals
+export function convertExportSize(options: ExportSizeOptions, unit: SizeUnit): ExportSizeOptions {
+  const value = fromPixels(toPixels(options.value, options.unit, options.dpi), unit, options.dpi);
+  return { ...options, unit, value: unit === 'px' ? Math.round(value) : Math.round(value * 100) / 100 };
+}
+
+// Compare the printed module size with what the scan distance needs.
+// moduleCount is the symbol width in modules, margin the quiet zone on each side.
+export function checkPrintSize(options: ExportSizeOptions, moduleCount: number, margin: number): PrintSizeCheck {
+  const pixels = getExportPixels(options);
+  const pixelsPerModule = pixels / (moduleCount + margin * 2);
+  const moduleSize = fromPixels(pixelsPerModule, 'mm', options.dpi);
+  const minModuleSize = Math.max(
+    MIN_PRINT_MODULE_SIZE,
+    (options.scanDistance * 10) / SCAN_DISTANCE_RATIO / moduleCount
+  );
+
+  const warnings: string[] = [];
+  if (moduleSize < minModuleSize) {
+    const minWidth = minModuleSize * (moduleCount + margin * 2);
+    warnings.push(
+      `Modules print at ${moduleSize.toFixed(2)} mm; scanning from ${options.scanDistance} cm needs at least ${minModuleSize.toFixed(2)} mm, so print the code at least ${Math.ceil(minWidth)} mm wide`
+    );
+  }
+  if (pixelsPerModule < MIN_PIXELS_PER_MODULE) {
+    warnings.push(`Each module is only ${pixelsPerModule.toFixed(1)} pixels wide; increase the size or the DPI`);
+  }
+
+  return { pixels, pixelsPerModule, moduleSize, minModuleSize, warnings };
+}
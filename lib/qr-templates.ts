@@ -0,0 +1,48 @@
+import type { QRTemplate, QRStyle, UpdateQRConfigData } from '@/types';
+
+// Cosmic select-dropdown metafields come back either as the raw value or as { key, value }
+export function getSelectValue<T extends string>(field: T | { key: string; value: T } | undefined): T | undefined {
+  if (!field) {
+    return undefined;
+  }
+  return typeof field === 'object' ? field.value : field;
+}
+
+// Parse the template colors, which Cosmic stores as a JSON string
+export function getTemplateColors(template: QRTemplate): { foreground: string; background: string; accent?: string } {
+  const fallback = { foreground: '#000000', background: '#ffffff' };
+  const { colors } = template.metadata;
+
+  if (!colors) {
+    return fallback;
+  }
+  if (typeof colors !== 'string') {
+    return colors;
+  }
+
+  try {
+    return JSON.parse(colors);
+  } catch (error) {
+    console.warn('Failed to parse template colors:', error);
+    return fallback;
+  }
+}
+
+export function getTemplateStyle(template: QRTemplate): QRStyle | undefined {
+  return getSelectValue(template.metadata.style);
+}
+
+// Config changes a template applies; the accent color styles the finder pattern eyes
+export function getTemplateConfig(template: QRTemplate): UpdateQRConfigData {
+  const colors = getTemplateColors(template);
+
+  return {
+    foregroundColor: colors.foreground,
+    backgroundColor: colors.background,
+    pattern: getSelectValue(template.metadata.pattern),
+    eyeFrameShape: getSelectValue(template.metadata.eye_frame_shape),
+    eyeBallShape: getSelectValue(template.metadata.eye_ball_shape),
+    eyeFrameColor: colors.accent,
+    eyeBallColor: template.metadata.eye_ball_color || colors.accent,
+  };
+}
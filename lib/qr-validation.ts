@@ -0,0 +1,641 @@
+import type {
+  QRCodeConfig,
+  QRGradient,
+  ExportFormat,
+  ValidationIssue,
+  QRStyle,
+  QRPattern,
+  PatternDirection,
+  LogoShape,
+  EyeShape,
+  ErrorCorrectionLevel,
+  QRVersionMode,
+  GradientType,
+  QRMaskPattern,
+  PDFExportOptions,
+  PDFPageSize,
+  PDFOrientation,
+  DynamicQRCodeData,
+  RedirectRule,
+  QRTemplateData,
+  QRHistoryData,
+  UserPreferencesData,
+  QRPayload,
+} from '@/types';
+import { createQRMatrix, MIN_QR_VERSION, MAX_QR_VERSION } from '@/lib/qr-matrix';
+import { MAX_LOGO_SIZE } from '@/lib/qr-renderer';
+import { DEFAULT_PDF_OPTIONS, MIN_PDF_CODE_SIZE, getMaxPDFCodeSize } from '@/lib/qr-pdf';
+import { MIN_EXPORT_DPI, MAX_EXPORT_DPI } from '@/lib/qr-size';
+import { MAX_REDIRECT_RULES } from '@/lib/qr-routing';
+import { SCAN_OS_OPTIONS } from '@/lib/qr-analytics';
+import { encodePayload } from '@/lib/qr-payloads';
+
+// Validation for configs that arrive from outside the wizard (API routes, imports)
+
+export const QR_STYLES: QRStyle[] = ['square', 'rounded', 'dots', 'artistic'];
+export const QR_PATTERNS: QRPattern[] = ['solid', 'gradient', 'dots', 'lines'];
+// Formats the server can render; WebP needs a browser encoder
+export const EXPORT_FORMATS: ExportFormat[] = ['png', 'svg', 'pdf', 'jpeg', 'eps'];
+// Every format the wizard downloads, for history entries and preferences
+export const ALL_EXPORT_FORMATS: ExportFormat[] = ['png', 'svg', 'pdf', 'webp', 'jpeg', 'eps'];
+
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  png: 'PNG',
+  svg: 'SVG',
+  pdf: 'PDF',
+  webp: 'WebP',
+  jpeg: 'JPEG',
+  eps: 'EPS',
+};
+const PATTERN_DIRECTIONS: PatternDirection[] = ['horizontal', 'vertical'];
+const LOGO_SHAPES: LogoShape[] = ['none', 'square', 'circle'];
+const EYE_SHAPES: EyeShape[] = ['square', 'rounded', 'circle', 'leaf'];
+const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+const VERSION_MODES: QRVersionMode[] = ['auto', 'min', 'fixed'];
+const GRADIENT_TYPES: GradientType[] = ['linear', 'radial'];
+export const PDF_PAGE_SIZE_OPTIONS: PDFPageSize[] = ['a4', 'a5', 'letter', 'legal', 'fit'];
+const PDF_ORIENTATIONS: PDFOrientation[] = ['portrait', 'landscape'];
+
+export const MIN_QR_SIZE = 64;
+export const MAX_QR_SIZE = 2048;
+export const MAX_QR_MARGIN = 20;
+export const MAX_LOGO_PADDING = 4;
+export const MAX_GRADIENT_STOPS = 6;
+const MAX_LOGO_URL_LENGTH = 3 * 1024 * 1024;
+export const MAX_TARGET_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_TITLE_LENGTH = 100;
+const TEMPLATE_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_PREFERRED_COLORS = 12;
+const MAX_RULE_LANGUAGES = 20;
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// Defaults match the wizard's starting config
+export const DEFAULT_QR_CONFIG: Omit<QRCodeConfig, 'text'> = {
+  size: 400,
+  foregroundColor: '#000000',
+  backgroundColor: '#ffffff',
+  style: 'square',
+  margin: 2,
+  errorCorrectionLevel: 'M',
+  versionMode: 'auto',
+};
+
+const NUMBER_FIELDS = ['size', 'margin', 'logoSize', 'logoPadding', 'version', 'maskPattern', 'codeSize', 'dpi', 'quality'];
+const GRADIENT_FIELDS = ['gradient', 'backgroundGradient'];
+
+export type QRConfigValidationResult =
+  | { valid: true; config: QRCodeConfig }
+  | { valid: false; issues: ValidationIssue[] };
+
+export type PDFOptionsValidationResult =
+  | { valid: true; options: PDFExportOptions }
+  | { valid: false; issues: ValidationIssue[] };
+
+export type DataValidationResult<T> =
+  | { valid: true; data: T }
+  | { valid: false; issues: ValidationIssue[] };
+
+export type DynamicQRCodeValidationResult = DataValidationResult<Partial<DynamicQRCodeData>>;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+function isOneOf<T extends string>(value: unknown, options: T[]): value is T {
+  return typeof value === 'string' && (options as string[]).includes(value);
+}
+
+function isNumberInRange(value: unknown, min: number, max: number, integer = false): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max &&
+    (!integer || Number.isInteger(value));
+}
+
+function isLogoUrl(value: string): boolean {
+  if (value.startsWith('data:image/')) {
+    return value.length <= MAX_LOGO_URL_LENGTH;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function validateGradient(field: string, value: unknown, issues: ValidationIssue[]): QRGradient | undefined {
+  if (typeof value !== 'object' || value === null) {
+    issues.push({ field, message: 'Must be an object with type, angle and stops' });
+    return undefined;
+  }
+
+  const gradient = value as Record<string, unknown>;
+  const startCount = issues.length;
+
+  if (!isOneOf(gradient.type, GRADIENT_TYPES)) {
+    issues.push({ field: `${field}.type`, message: `Must be one of: ${GRADIENT_TYPES.join(', ')}` });
+  }
+  if (gradient.angle !== undefined && !isNumberInRange(gradient.angle, -360, 360)) {
+    issues.push({ field: `${field}.angle`, message: 'Must be a number of degrees between -360 and 360' });
+  }
+
+  const stops = gradient.stops;
+  if (!Array.isArray(stops) || stops.length < 2 || stops.length > MAX_GRADIENT_STOPS) {
+    issues.push({ field: `${field}.stops`, message: `Must be an array of 2 to ${MAX_GRADIENT_STOPS} stops` });
+  } else {
+    stops.forEach((stop: unknown, index) => {
+      const stopField = `${field}.stops[${index}]`;
+      if (typeof stop !== 'object' || stop === null) {
+        issues.push({ field: stopField, message: 'Must be an object with offset and color' });
+        return;
+      }
+      const { offset, color } = stop as Record<string, unknown>;
+      if (!isNumberInRange(offset, 0, 1)) {
+        issues.push({ field: `${stopField}.offset`, message: 'Must be a number between 0 and 1' });
+      }
+      if (!isHexColor(color)) {
+        issues.push({ field: `${stopField}.color`, message: 'Must be a hex color such as #1a2b3c' });
+      }
+    });
+  }
+
+  if (issues.length > startCount) {
+    return undefined;
+  }
+
+  return {
+    type: gradient.type as GradientType,
+    angle: typeof gradient.angle === 'number' ? gradient.angle : 0,
+    stops: (stops as Array<{ offset: number; color: string }>).map(({ offset, color }) => ({ offset, color })),
+  };
+}
+
+// Check an untrusted, QRCodeConfig-shaped object and return a clean config with defaults applied
+export function validateQRConfig(input: unknown): QRConfigValidationResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, issues: [{ field: '', message: 'Config must be a JSON object' }] };
+  }
+
+  const raw: Record<string, unknown> = { ...DEFAULT_QR_CONFIG, ...input };
+  const issues: ValidationIssue[] = [];
+
+  if (typeof raw.text !== 'string' || raw.text.trim().length === 0) {
+    issues.push({ field: 'text', message: 'Text is required' });
+  }
+  if (!isNumberInRange(raw.size, MIN_QR_SIZE, MAX_QR_SIZE, true)) {
+    issues.push({ field: 'size', message: `Must be an integer between ${MIN_QR_SIZE} and ${MAX_QR_SIZE}` });
+  }
+  if (!isNumberInRange(raw.margin, 0, MAX_QR_MARGIN, true)) {
+    issues.push({ field: 'margin', message: `Must be an integer between 0 and ${MAX_QR_MARGIN}` });
+  }
+  if (!isOneOf(raw.style, QR_STYLES)) {
+    issues.push({ field: 'style', message: `Must be one of: ${QR_STYLES.join(', ')}` });
+  }
+
+  for (const field of ['foregroundColor', 'backgroundColor'] as const) {
+    if (!isHexColor(raw[field])) {
+      issues.push({ field, message: 'Must be a hex color such as #1a2b3c' });
+    }
+  }
+  for (const field of ['patternColor', 'eyeFrameColor', 'eyeBallColor'] as const) {
+    if (raw[field] !== undefined && !isHexColor(raw[field])) {
+      issues.push({ field, message: 'Must be a hex color such as #1a2b3c' });
+    }
+  }
+
+  const optionalEnums: Array<[string, string[]]> = [
+    ['pattern', QR_PATTERNS],
+    ['patternDirection', PATTERN_DIRECTIONS],
+    ['logoShape', LOGO_SHAPES],
+    ['eyeFrameShape', EYE_SHAPES],
+    ['eyeBallShape', EYE_SHAPES],
+    ['errorCorrectionLevel', ERROR_CORRECTION_LEVELS],
+    ['versionMode', VERSION_MODES],
+  ];
+  for (const [field, options] of optionalEnums) {
+    const value = raw[field];
+    if (value !== undefined && !isOneOf(value, options)) {
+      issues.push({ field, message: `Must be one of: ${options.join(', ')}` });
+    }
+  }
+
+  const level = isOneOf(raw.errorCorrectionLevel, ERROR_CORRECTION_LEVELS) ? raw.errorCorrectionLevel : 'M';
+  if (raw.logoSize !== undefined && !isNumberInRange(raw.logoSize, 0, MAX_LOGO_SIZE[level])) {
+    issues.push({
+      field: 'logoSize',
+      message: `Must be between 0 and ${MAX_LOGO_SIZE[level]} at error correction level ${level}`,
+    });
+  }
+  if (raw.logoPadding !== undefined && !isNumberInRange(raw.logoPadding, 0, MAX_LOGO_PADDING)) {
+    issues.push({ field: 'logoPadding', message: `Must be between 0 and ${MAX_LOGO_PADDING} modules` });
+  }
+  if (raw.logoUrl !== undefined && (typeof raw.logoUrl !== 'string' || !isLogoUrl(raw.logoUrl))) {
+    issues.push({ field: 'logoUrl', message: 'Must be an http(s) URL or an image data URL under 3 MB' });
+  }
+  if (raw.version !== undefined && !isNumberInRange(raw.version, MIN_QR_VERSION, MAX_QR_VERSION, true)) {
+    issues.push({ field: 'version', message: `Must be an integer between ${MIN_QR_VERSION} and ${MAX_QR_VERSION}` });
+  }
+  if (raw.maskPattern !== undefined && !isNumberInRange(raw.maskPattern, 0, 7, true)) {
+    issues.push({ field: 'maskPattern', message: 'Must be an integer between 0 and 7' });
+  }
+
+  const gradient = raw.gradient === undefined ? undefined : validateGradient('gradient', raw.gradient, issues);
+  const backgroundGradient = raw.backgroundGradient === undefined
+    ? undefined
+    : validateGradient('backgroundGradient', raw.backgroundGradient, issues);
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const config: QRCodeConfig = {
+    text: raw.text as string,
+    size: raw.size as number,
+    foregroundColor: raw.foregroundColor as string,
+    backgroundColor: raw.backgroundColor as string,
+    gradient,
+    backgroundGradient,
+    style: raw.style as QRStyle,
+    pattern: raw.pattern as QRPattern | undefined,
+    patternColor: raw.patternColor as string | undefined,
+    patternDirection: raw.patternDirection as PatternDirection | undefined,
+    logoUrl: raw.logoUrl as string | undefined,
+    logoSize: raw.logoSize as number | undefined,
+    logoPadding: raw.logoPadding as number | undefined,
+    logoShape: raw.logoShape as LogoShape | undefined,
+    eyeFrameShape: raw.eyeFrameShape as EyeShape | undefined,
+    eyeBallShape: raw.eyeBallShape as EyeShape | undefined,
+    eyeFrameColor: raw.eyeFrameColor as string | undefined,
+    eyeBallColor: raw.eyeBallColor as string | undefined,
+    margin: raw.margin as number,
+    errorCorrectionLevel: level,
+    versionMode: raw.versionMode as QRVersionMode | undefined,
+    version: raw.version as number | undefined,
+    maskPattern: raw.maskPattern as QRMaskPattern | undefined,
+  };
+
+  // The text must also fit in the requested symbol
+  try {
+    createQRMatrix(config);
+  } catch (error) {
+    return {
+      valid: false,
+      issues: [{ field: 'text', message: error instanceof Error ? error.message : 'Text cannot be encoded' }],
+    };
+  }
+
+  // Drop unset optional fields so equal configs serialize identically
+  const cleanConfig = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as unknown as QRCodeConfig;
+
+  return { valid: true, config: cleanConfig };
+}
+
+// Turn query string parameters into a QRCodeConfig-shaped object.
+// Numbers are coerced and gradients are passed as JSON strings.
+export function parseConfigSearchParams(params: URLSearchParams, exclude: string[] = []): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+
+  params.forEach((value, key) => {
+    if (exclude.includes(key)) {
+      return;
+    }
+    if (NUMBER_FIELDS.includes(key)) {
+      input[key] = value.trim() === '' ? NaN : Number(value);
+    } else if (GRADIENT_FIELDS.includes(key)) {
+      try {
+        input[key] = JSON.parse(value);
+      } catch {
+        input[key] = value;
+      }
+    } else {
+      input[key] = value;
+    }
+  });
+
+  return input;
+}
+
+// Check PDF layout parameters; missing fields fall back to the defaults
+export function validatePDFOptions(input: Record<string, unknown>): PDFOptionsValidationResult {
+  const issues: ValidationIssue[] = [];
+  const pageSize = input.pageSize ?? DEFAULT_PDF_OPTIONS.pageSize;
+  const orientation = input.orientation ?? DEFAULT_PDF_OPTIONS.orientation;
+  const codeSize = input.codeSize ?? DEFAULT_PDF_OPTIONS.codeSize;
+
+  if (!isOneOf(pageSize, PDF_PAGE_SIZE_OPTIONS)) {
+    issues.push({ field: 'pageSize', message: `pageSize must be one of: ${PDF_PAGE_SIZE_OPTIONS.join(', ')}` });
+  }
+  if (!isOneOf(orientation, PDF_ORIENTATIONS)) {
+    issues.push({ field: 'orientation', message: `orientation must be one of: ${PDF_ORIENTATIONS.join(', ')}` });
+  }
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const layout = { pageSize: pageSize as PDFPageSize, orientation: orientation as PDFOrientation };
+  const maxCodeSize = getMaxPDFCodeSize(layout);
+  if (!isNumberInRange(codeSize, MIN_PDF_CODE_SIZE, maxCodeSize)) {
+    issues.push({ field: 'codeSize', message: `codeSize must be between ${MIN_PDF_CODE_SIZE} and ${maxCodeSize} mm` });
+    return { valid: false, issues };
+  }
+
+  return { valid: true, options: { ...layout, codeSize } };
+}
+
+// Check the optional PNG resolution; undefined leaves the PNG untagged
+export function validateDPI(dpi: unknown): ValidationIssue[] {
+  if (dpi === undefined || isNumberInRange(dpi, MIN_EXPORT_DPI, MAX_EXPORT_DPI, true)) {
+    return [];
+  }
+  return [{ field: 'dpi', message: `dpi must be an integer between ${MIN_EXPORT_DPI} and ${MAX_EXPORT_DPI}` }];
+}
+
+// Check the optional JPEG quality, from 1 to 100
+export function validateQuality(quality: unknown): ValidationIssue[] {
+  if (quality === undefined || isNumberInRange(quality, 1, 100, true)) {
+    return [];
+  }
+  return [{ field: 'quality', message: 'quality must be an integer between 1 and 100' }];
+}
+
+// Redirect targets must be absolute http(s) URLs, so a code can never point at script or data URLs
+export function isRedirectTarget(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_TARGET_URL_LENGTH) {
+    return false;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function validateRedirectRule(field: string, input: unknown, issues: ValidationIssue[]): RedirectRule | undefined {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    issues.push({ field, message: `${field} must be an object` });
+    return undefined;
+  }
+
+  const { id, target_url, starts_at, ends_at, os, languages, min_scans, max_scans } = input as Record<string, unknown>;
+  const count = issues.length;
+  const rule: Partial<RedirectRule> = {};
+
+  if (typeof id === 'string' && id.length > 0 && id.length <= 64) {
+    rule.id = id;
+  } else {
+    issues.push({ field: `${field}.id`, message: 'id must be a non-empty string of at most 64 characters' });
+  }
+  if (isRedirectTarget(target_url)) {
+    rule.target_url = target_url;
+  } else {
+    issues.push({ field: `${field}.target_url`, message: `target_url must be an http(s) URL of at most ${MAX_TARGET_URL_LENGTH} characters` });
+  }
+
+  for (const [name, value] of [['starts_at', starts_at], ['ends_at', ends_at]] as const) {
+    if (value === undefined) continue;
+    if (isTimestamp(value)) {
+      rule[name] = value;
+    } else {
+      issues.push({ field: `${field}.${name}`, message: `${name} must be an ISO date and time` });
+    }
+  }
+  if (rule.starts_at && rule.ends_at && Date.parse(rule.ends_at) <= Date.parse(rule.starts_at)) {
+    issues.push({ field: `${field}.ends_at`, message: 'ends_at must be after starts_at' });
+  }
+
+  if (os !== undefined) {
+    if (Array.isArray(os) && os.every((value) => isOneOf(value, SCAN_OS_OPTIONS))) {
+      rule.os = os;
+    } else {
+      issues.push({ field: `${field}.os`, message: `os must be a list of: ${SCAN_OS_OPTIONS.join(', ')}` });
+    }
+  }
+
+  if (languages !== undefined) {
+    if (
+      Array.isArray(languages) &&
+      languages.length <= MAX_RULE_LANGUAGES &&
+      languages.every((value) => typeof value === 'string' && LANGUAGE_TAG_PATTERN.test(value))
+    ) {
+      rule.languages = languages;
+    } else {
+      issues.push({ field: `${field}.languages`, message: `languages must be a list of up to ${MAX_RULE_LANGUAGES} language tags such as "de" or "pt-BR"` });
+    }
+  }
+
+  for (const [name, value] of [['min_scans', min_scans], ['max_scans', max_scans]] as const) {
+    if (value === undefined) continue;
+    if (isNumberInRange(value, 1, Number.MAX_SAFE_INTEGER, true)) {
+      rule[name] = value;
+    } else {
+      issues.push({ field: `${field}.${name}`, message: `${name} must be a whole number of at least 1` });
+    }
+  }
+  if (rule.min_scans !== undefined && rule.max_scans !== undefined && rule.max_scans < rule.min_scans) {
+    issues.push({ field: `${field}.max_scans`, message: 'max_scans must not be less than min_scans' });
+  }
+
+  return issues.length === count ? (rule as RedirectRule) : undefined;
+}
+
+// Creating a dynamic code needs a target; updates may send any subset of the fields
+export function validateDynamicQRCodeData(input: unknown, partial = false): DynamicQRCodeValidationResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, issues: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const { target_url, description, rules } = input as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const data: Partial<DynamicQRCodeData> = {};
+
+  if (target_url !== undefined || !partial) {
+    if (isRedirectTarget(target_url)) {
+      data.target_url = target_url;
+    } else {
+      issues.push({ field: 'target_url', message: `target_url must be an http(s) URL of at most ${MAX_TARGET_URL_LENGTH} characters` });
+    }
+  }
+
+  if (description !== undefined) {
+    if (typeof description === 'string' && description.length <= MAX_DESCRIPTION_LENGTH) {
+      data.description = description;
+    } else {
+      issues.push({ field: 'description', message: `description must be text of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+  }
+
+  if (rules !== undefined) {
+    if (!Array.isArray(rules) || rules.length > MAX_REDIRECT_RULES) {
+      issues.push({ field: 'rules', message: `rules must be a list of at most ${MAX_REDIRECT_RULES} rules` });
+    } else {
+      const validRules = rules.map((rule, index) => validateRedirectRule(`rules[${index}]`, rule, issues));
+      data.rules = validRules.filter((rule): rule is RedirectRule => rule !== undefined);
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, data };
+}
+
+function asObject(input: unknown): Record<string, unknown> | null {
+  return typeof input === 'object' && input !== null && !Array.isArray(input) ? (input as Record<string, unknown>) : null;
+}
+
+const BODY_ISSUE: ValidationIssue = { field: 'body', message: 'Request body must be a JSON object' };
+const HEX_MESSAGE = 'Must be a hex color such as #1a2b3c';
+
+// Only the known template fields are kept, so requests can't write arbitrary metadata
+export function validateTemplateData(input: unknown): DataValidationResult<QRTemplateData> {
+  const raw = asObject(input);
+  if (!raw) return { valid: false, issues: [BODY_ISSUE] };
+
+  const issues: ValidationIssue[] = [];
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (title.length === 0 || title.length > MAX_TITLE_LENGTH) {
+    issues.push({ field: 'title', message: `Must be between 1 and ${MAX_TITLE_LENGTH} characters` });
+  }
+  if (!isOneOf(raw.style, QR_STYLES)) {
+    issues.push({ field: 'style', message: `Must be one of: ${QR_STYLES.join(', ')}` });
+  }
+
+  const colors = asObject(raw.colors);
+  if (!colors || !isHexColor(colors.foreground) || !isHexColor(colors.background)) {
+    issues.push({ field: 'colors', message: 'Must have hex foreground and background colors' });
+  } else if (colors.accent !== undefined && !isHexColor(colors.accent)) {
+    issues.push({ field: 'colors.accent', message: HEX_MESSAGE });
+  }
+
+  const optionalEnums: Array<[string, string[]]> = [
+    ['pattern', QR_PATTERNS],
+    ['eye_frame_shape', EYE_SHAPES],
+    ['eye_ball_shape', EYE_SHAPES],
+  ];
+  for (const [field, options] of optionalEnums) {
+    if (raw[field] !== undefined && !isOneOf(raw[field], options)) {
+      issues.push({ field, message: `Must be one of: ${options.join(', ')}` });
+    }
+  }
+  if (raw.eye_ball_color !== undefined && !isHexColor(raw.eye_ball_color)) {
+    issues.push({ field: 'eye_ball_color', message: HEX_MESSAGE });
+  }
+  if (raw.description !== undefined && (typeof raw.description !== 'string' || raw.description.length > MAX_DESCRIPTION_LENGTH)) {
+    issues.push({ field: 'description', message: `Must be text of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+  }
+
+  if (issues.length > 0 || !colors) {
+    return { valid: false, issues };
+  }
+
+  const data: QRTemplateData = {
+    title,
+    style: raw.style as QRStyle,
+    colors: {
+      foreground: colors.foreground as string,
+      background: colors.background as string,
+      ...(colors.accent !== undefined ? { accent: colors.accent as string } : {}),
+    },
+  };
+  if (raw.pattern !== undefined) data.pattern = raw.pattern as QRPattern;
+  if (raw.eye_frame_shape !== undefined) data.eye_frame_shape = raw.eye_frame_shape as EyeShape;
+  if (raw.eye_ball_shape !== undefined) data.eye_ball_shape = raw.eye_ball_shape as EyeShape;
+  if (raw.eye_ball_color !== undefined) data.eye_ball_color = raw.eye_ball_color as string;
+  if (raw.description !== undefined) data.description = raw.description as string;
+  return { valid: true, data };
+}
+
+// The structured content is kept only when it still encodes to the config's text
+function getMatchingPayload(value: unknown, text: string): QRPayload | undefined {
+  const payload = asObject(value);
+  if (!payload || typeof payload.type !== 'string') return undefined;
+  try {
+    return encodePayload(payload as unknown as QRPayload) === text ? (payload as unknown as QRPayload) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function validateHistoryData(input: unknown): DataValidationResult<QRHistoryData> {
+  const raw = asObject(input);
+  if (!raw) return { valid: false, issues: [BODY_ISSUE] };
+
+  const issues: ValidationIssue[] = [];
+  const configResult = validateQRConfig(raw.config);
+  if (!configResult.valid) {
+    issues.push(...configResult.issues.map((issue) => ({
+      field: issue.field ? `config.${issue.field}` : 'config',
+      message: issue.message,
+    })));
+  }
+  if (!isOneOf(raw.export_format, ALL_EXPORT_FORMATS)) {
+    issues.push({ field: 'export_format', message: `Must be one of: ${ALL_EXPORT_FORMATS.join(', ')}` });
+  }
+  if (raw.template_slug !== undefined && (typeof raw.template_slug !== 'string' || !TEMPLATE_SLUG_PATTERN.test(raw.template_slug))) {
+    issues.push({ field: 'template_slug', message: 'Must be a template slug such as ocean-blue' });
+  }
+
+  if (issues.length > 0 || !configResult.valid) {
+    return { valid: false, issues };
+  }
+
+  const config = configResult.config;
+  const payload = getMatchingPayload(asObject(raw.config)?.payload, config.text);
+  const data: QRHistoryData = {
+    config: payload ? { ...config, payload } : config,
+    export_format: raw.export_format as ExportFormat,
+  };
+  if (raw.template_slug !== undefined) data.template_slug = raw.template_slug as string;
+  return { valid: true, data };
+}
+
+export function validatePreferencesData(input: unknown): DataValidationResult<UserPreferencesData> {
+  const raw = asObject(input);
+  if (!raw) return { valid: false, issues: [BODY_ISSUE] };
+
+  const issues: ValidationIssue[] = [];
+  const data: UserPreferencesData = {};
+
+  if (raw.preferred_colors !== undefined) {
+    if (
+      Array.isArray(raw.preferred_colors) &&
+      raw.preferred_colors.length <= MAX_PREFERRED_COLORS &&
+      raw.preferred_colors.every(isHexColor)
+    ) {
+      data.preferred_colors = raw.preferred_colors;
+    } else {
+      issues.push({ field: 'preferred_colors', message: `Must be a list of up to ${MAX_PREFERRED_COLORS} hex colors` });
+    }
+  }
+  if (raw.default_style !== undefined) {
+    if (isOneOf(raw.default_style, QR_STYLES)) {
+      data.default_style = raw.default_style;
+    } else {
+      issues.push({ field: 'default_style', message: `Must be one of: ${QR_STYLES.join(', ')}` });
+    }
+  }
+  if (raw.export_format !== undefined) {
+    if (isOneOf(raw.export_format, ALL_EXPORT_FORMATS)) {
+      data.export_format = raw.export_format;
+    } else {
+      issues.push({ field: 'export_format', message: `Must be one of: ${ALL_EXPORT_FORMATS.join(', ')}` });
+    }
+  }
+  if (raw.auto_download !== undefined) {
+    if (typeof raw.auto_download === 'boolean') {
+      data.auto_download = raw.auto_download;
+    } else {
+      issues.push({ field: 'auto_download', message: 'Must be true or false' });
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, data };
+}
@@ -0,0 +1,168 @@
+import jsQR from 'jsqr';
+import type { QRVerificationResult, QRRobustnessCheck } from '@/types';
+import type { RasterImage } from '@/lib/qr-raster';
+
+// Scannability checks: decode the rendered pixels the way a phone camera would,
+// then decode degraded copies to estimate how much abuse the code survives.
+
+// Larger renders are scaled down first since decoding cost grows with pixel count,
+// but never below a few pixels per module
+const MAX_VERIFY_SIZE = 400;
+const MIN_VERIFY_MODULE_PIXELS = 4;
+
+// Fixed seed so the same render always gets the same score
+const NOISE_SEED = 0x5eed;
+
+// Composite onto white so transparent backgrounds decode like they print
+function flattenImage(image: RasterImage): RasterImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const alpha = (image.data[i + 3] ?? 255) / 255;
+    data[i] = (image.data[i] ?? 0) * alpha + 255 * (1 - alpha);
+    data[i + 1] = (image.data[i + 1] ?? 0) * alpha + 255 * (1 - alpha);
+    data[i + 2] = (image.data[i + 2] ?? 0) * alpha + 255 * (1 - alpha);
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Area-average downscale, like a camera sensor seeing the code from further away
+function downscaleImage(image: RasterImage, scale: number): RasterImage {
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * image.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * image.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * image.width) / width));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          r += image.data[i] ?? 0;
+          g += image.data[i + 1] ?? 0;
+          b += image.data[i + 2] ?? 0;
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = r / count;
+      data[o + 1] = g / count;
+      data[o + 2] = b / count;
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+// Separable box blur, a cheap stand-in for an out-of-focus lens
+function blurImage(image: RasterImage, radius: number): RasterImage {
+  const { width, height } = image;
+  const size = radius * 2 + 1;
+  const temp = new Float32Array(width * height * 3);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k));
+          sum += image.data[(y * width + sx) * 4 + c] ?? 0;
+        }
+        temp[(y * width + x) * 3 + c] = sum / size;
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          sum += temp[(sy * width + x) * 3 + c] ?? 0;
+        }
+        data[(y * width + x) * 4 + c] = sum / size;
+      }
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+// Mulberry32: small deterministic PRNG
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Uniform sensor noise of +/- amplitude on every channel
+function addNoise(image: RasterImage, amplitude: number): RasterImage {
+  const random = createRandom(NOISE_SEED);
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < image.data.length; i += 4) {
+    data[i] = (image.data[i] ?? 0) + (random() * 2 - 1) * amplitude;
+    data[i + 1] = (image.data[i + 1] ?? 0) + (random() * 2 - 1) * amplitude;
+    data[i + 2] = (image.data[i + 2] ?? 0) + (random() * 2 - 1) * amplitude;
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Decode an image, returning the payload or null when no code is found
+export function decodeQRImage(image: RasterImage): string | null {
+  const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' });
+  return result ? result.data : null;
+}
+
+// Decode the rendered code, then score how many degraded copies still read back the expected text.
+// moduleCount includes the quiet zone and keeps dense symbols from being scaled into mush.
+export function verifyQRCode(image: RasterImage, expectedText: string, moduleCount = 0): QRVerificationResult {
+  let base = flattenImage(image);
+  const largestSide = Math.max(base.width, base.height);
+  const verifySize = Math.max(MAX_VERIFY_SIZE, moduleCount * MIN_VERIFY_MODULE_PIXELS);
+  if (largestSide > verifySize) {
+    base = downscaleImage(base, verifySize / largestSide);
+  }
+
+  const decodedText = decodeQRImage(base);
+  const status = decodedText === null ? 'unreadable' : decodedText === expectedText ? 'pass' : 'mismatch';
+
+  // Blur radii scale with the render so small and large codes are judged alike
+  const unit = Math.max(base.width, base.height) / 400;
+  const lightBlur = Math.max(1, Math.round(unit * 1.5));
+  const heavyBlur = Math.max(2, Math.round(unit * 3));
+
+  const variants: Array<{ name: string; create: () => RasterImage }> = [
+    { name: 'Downscaled to 50%', create: () => downscaleImage(base, 0.5) },
+    { name: 'Downscaled to 25%', create: () => downscaleImage(base, 0.25) },
+    { name: 'Light blur', create: () => blurImage(base, lightBlur) },
+    { name: 'Heavy blur', create: () => blurImage(base, heavyBlur) },
+    { name: 'Light noise', create: () => addNoise(base, 32) },
+    { name: 'Heavy noise', create: () => addNoise(base, 72) },
+    { name: 'Downscaled, blurred and noisy', create: () => addNoise(blurImage(downscaleImage(base, 0.5), lightBlur), 40) },
+  ];
+
+  const checks: QRRobustnessCheck[] = variants.map(({ name, create }) => ({
+    name,
+    passed: status === 'pass' && decodeQRImage(create()) === expectedText,
+  }));
+
+  const passedCount = checks.filter((check) => check.passed).length;
+  const robustnessScore = Math.round((passedCount / checks.length) * 100);
+
+  return { status, decodedText, robustnessScore, checks };
+}
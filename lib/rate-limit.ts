@@ -0,0 +1,90 @@
+import type { NextRequest } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+
+// Fixed-window rate limits for the write routes and the CPU-bound /api/qr
+// renderer, per client IP and bucket.
+// Counts live in this server instance's memory: enough to stop a runaway
+// script, while a multi-instance deployment would need a shared store.
+
+export type RateLimitBucket = 'history' | 'templates' | 'preferences' | 'dynamic-codes' | 'qr';
+
+interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const RATE_LIMITS: Record<RateLimitBucket, RateLimitRule> = {
+  history: { limit: 60, windowMs: MINUTE },
+  templates: { limit: 10, windowMs: MINUTE },
+  preferences: { limit: 20, windowMs: MINUTE },
+  'dynamic-codes': { limit: 20, windowMs: MINUTE },
+  qr: { limit: 30, windowMs: MINUTE },
+};
+
+// Stale windows are swept once the map grows past this many clients
+const MAX_TRACKED_WINDOWS = 10000;
+
+const windows = new Map<string, { start: number; count: number }>();
+
+// Clients can put anything at the start of X-Forwarded-For, so only the entries
+// appended by our own proxies are trusted. TRUSTED_PROXY_HOPS is how many proxies
+// sit in front of the app (default 1, as on Vercel, Netlify or behind one nginx);
+// the client is the address the outermost of them added. With 0 nothing
+// identifies clients and they all share one counter.
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+export function getClientIp(request: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (hops === 0 || forwarded.length < hops) {
+    return 'unknown';
+  }
+  return forwarded[forwarded.length - hops] ?? 'unknown';
+}
+
+function sweepExpired(now: number) {
+  windows.forEach((window, key) => {
+    const bucket = key.slice(0, key.indexOf(':')) as RateLimitBucket;
+    if (now - window.start >= RATE_LIMITS[bucket].windowMs) {
+      windows.delete(key);
+    }
+  });
+}
+
+// Count one request; returns seconds until the window resets when over the limit
+export function consumeRateLimit(bucket: RateLimitBucket, client: string, now: number = Date.now()): number | null {
+  const { limit, windowMs } = RATE_LIMITS[bucket];
+  const key = `${bucket}:${client}`;
+  const window = windows.get(key);
+
+  if (!window || now - window.start >= windowMs) {
+    if (windows.size >= MAX_TRACKED_WINDOWS) {
+      sweepExpired(now);
+    }
+    windows.set(key, { start: now, count: 1 });
+    return null;
+  }
+
+  window.count++;
+  return window.count > limit ? Math.ceil((window.start + windowMs - now) / 1000) : null;
+}
+
+// 429 response when the request's client is over the bucket's limit, otherwise null
+export function rateLimit(request: NextRequest, bucket: RateLimitBucket) {
+  const retryAfter = consumeRateLimit(bucket, getClientIp(request));
+  if (retryAfter === null) {
+    return null;
+  }
+
+  const response = errorResponse(429, 'rate_limited', `Too many requests, try again in ${retryAfter} seconds`);
+  response.headers.set('Retry-After', String(retryAfter));
+  return response;
+}
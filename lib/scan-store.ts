@@ -0,0 +1,10 @@
+import 'server-only';
+import type { ScanStore } from '@/types';
+import { cosmicScanStore } from '@/lib/cosmic';
+import { localScanStore } from '@/lib/local-scan-store';
+
+// Scans go to Cosmic unless SCAN_STORE=local picks the file store for development.
+// Server-only: the local store reads and writes files.
+export function getScanStore(): ScanStore {
+  return process.env.SCAN_STORE === 'local' ? localScanStore : cosmicScanStore;
+}
@@ -21,11 +21,15 @@ interface QRTemplate extends CosmicObject {
     };
     style: QRStyle | { key: string; value: QRStyle };
     pattern?: QRPattern | { key: string; value: QRPattern };
+    eye_frame_shape?: EyeShape | { key: string; value: EyeShape };
+    eye_ball_shape?: EyeShape | { key: string; value: EyeShape };
+    eye_ball_color?: string;
     description?: string;
     preview_image?: {
       url: string;
       imgix_url: string;
     };
+    owner_id?: string;
   };
 }
 
@@ -39,7 +43,9 @@ interface ColorPalette extends CosmicObject {
   };
 }
 
-// User Preferences
+// User Preferences. The wizard starts from default_style and the first two
+// preferred_colors as foreground and background; export_format is highlighted
+// among the downloads, and auto_download fetches it once the preview is ready.
 interface UserPreferences extends CosmicObject {
   type: 'user-preferences';
   metadata: {
@@ -47,10 +53,13 @@ interface UserPreferences extends CosmicObject {
     default_style?: QRStyle;
     export_format?: ExportFormat;
     auto_download?: boolean;
+    owner_id?: string;
   };
 }
 
-// QR Generation History
+// QR Generation History. url, style_used and colors_used are kept for search
+// and filters; config holds the complete render config as a JSON string.
+// Entries written before config_version 1 carry only those summary fields.
 interface QRHistory extends CosmicObject {
   type: 'qr-history';
   metadata: {
@@ -62,6 +71,23 @@ interface QRHistory extends CosmicObject {
     };
     export_format: ExportFormat;
     generated_at: string;
+    config?: string | QRCodeConfig;
+    config_version?: number;
+    renderer_version?: number;
+    template_slug?: string;
+    owner_id?: string;
+  };
+}
+
+// Dynamic QR code: the printed code encodes /r/[slug] on this app, and the
+// redirect route sends scanners to target_url, which can change at any time
+interface DynamicQRCode extends CosmicObject {
+  type: 'dynamic-qr-codes';
+  metadata: {
+    target_url: string;
+    description?: string;
+    rules?: string | RedirectRule[];
+    owner_id?: string;
   };
 }
 
@@ -69,18 +95,321 @@ interface QRHistory extends CosmicObject {
 type QRStyle = 'square' | 'rounded' | 'dots' | 'artistic';
 type QRPattern = 'solid' | 'gradient' | 'dots' | 'lines';
 type PaletteCategory = 'vibrant' | 'pastel' | 'monochrome' | 'nature' | 'sunset';
-type ExportFormat = 'png' | 'svg' | 'pdf';
+type ExportFormat = 'png' | 'svg' | 'pdf' | 'webp' | 'jpeg' | 'eps';
+type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+type QRVersionMode = 'auto' | 'min' | 'fixed';
+type QRMaskPattern = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
+type LogoShape = 'none' | 'square' | 'circle';
+type EyeShape = 'square' | 'rounded' | 'circle' | 'leaf';
+type PatternDirection = 'horizontal' | 'vertical';
+type GradientType = 'linear' | 'radial';
+
+// Gradient stop with an offset from 0 to 1 along the gradient
+interface GradientColorStop {
+  offset: number;
+  color: string;
+}
+
+// Linear gradients run at `angle` degrees clockwise from left-to-right;
+// radial gradients spread out from the center and ignore the angle
+interface QRGradient {
+  type: GradientType;
+  angle: number;
+  stops: GradientColorStop[];
+}
+
+// Structured content a code can carry; each type is encoded into QRCodeConfig.text
+type PayloadType =
+  | 'url' | 'wifi' | 'vcard' | 'mecard' | 'email' | 'sms' | 'geo' | 'event' | 'text'
+  | 'epc' | 'upi' | 'bitcoin';
+type WifiSecurity = 'WPA' | 'WEP' | 'nopass';
+
+interface UrlPayload {
+  type: 'url';
+  url: string;
+}
+
+interface WifiPayload {
+  type: 'wifi';
+  ssid: string;
+  password: string;
+  security: WifiSecurity;
+  hidden: boolean;
+}
+
+// vCard 3.0 and MeCard share the same contact fields
+interface ContactPayload {
+  type: 'vcard' | 'mecard';
+  firstName: string;
+  lastName: string;
+  organization: string;
+  jobTitle: string;
+  phone: string;
+  email: string;
+  website: string;
+  address: string;
+  note: string;
+}
+
+interface EmailPayload {
+  type: 'email';
+  to: string;
+  subject: string;
+  body: string;
+}
+
+interface SmsPayload {
+  type: 'sms';
+  phone: string;
+  message: string;
+}
+
+// Coordinates are kept as typed so half-finished input survives re-renders
+interface GeoPayload {
+  type: 'geo';
+  latitude: string;
+  longitude: string;
+}
+
+// Start and end use the datetime-local format (YYYY-MM-DDTHH:mm), or YYYY-MM-DD for all-day events
+interface EventPayload {
+  type: 'event';
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  location: string;
+  description: string;
+}
+
+interface TextPayload {
+  type: 'text';
+  text: string;
+}
+
+// EPC069-12 SEPA credit transfer ("GiroCode"); amount is in euros
+interface EpcPayload {
+  type: 'epc';
+  bic: string;
+  name: string;
+  iban: string;
+  amount: string;
+  purpose: string;
+  reference: string;
+  remittance: string;
+  information: string;
+}
+
+// UPI deep link (upi://pay); amount is in rupees
+interface UpiPayload {
+  type: 'upi';
+  vpa: string;
+  name: string;
+  amount: string;
+  note: string;
+  reference: string;
+}
+
+// BIP21 bitcoin: URI; amount is in BTC
+interface BitcoinPayload {
+  type: 'bitcoin';
+  address: string;
+  amount: string;
+  label: string;
+  message: string;
+}
+
+type QRPayload =
+  | UrlPayload
+  | WifiPayload
+  | ContactPayload
+  | EmailPayload
+  | SmsPayload
+  | GeoPayload
+  | EventPayload
+  | TextPayload
+  | EpcPayload
+  | UpiPayload
+  | BitcoinPayload;
 
 // QR Code Configuration
 interface QRCodeConfig {
   text: string;
+  payload?: QRPayload;
   size: number;
   foregroundColor: string;
   backgroundColor: string;
+  gradient?: QRGradient;
+  backgroundGradient?: QRGradient;
   style: QRStyle;
   pattern?: QRPattern | string;
+  patternColor?: string;
+  patternDirection?: PatternDirection;
   logoUrl?: string;
+  logoSize?: number;
+  logoPadding?: number;
+  logoShape?: LogoShape;
+  eyeFrameShape?: EyeShape;
+  eyeBallShape?: EyeShape;
+  eyeFrameColor?: string;
+  eyeBallColor?: string;
   margin: number;
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+  versionMode?: QRVersionMode;
+  version?: number;
+  maskPattern?: QRMaskPattern;
+}
+
+// Parameters the symbol was actually encoded with
+interface QREncodingInfo {
+  version: number;
+  moduleCount: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: QRMaskPattern;
+}
+
+// How likely a color scheme is to scan
+type ContrastGrade = 'safe' | 'risky' | 'unscannable';
+
+// Contrast between one foreground and one background color, as a WCAG ratio from 1 to 21
+interface ContrastPair {
+  foreground: string;
+  background: string;
+  ratio: number;
+}
+
+interface ContrastAnalysis {
+  grade: ContrastGrade;
+  worstPair: ContrastPair;
+  pairs: ContrastPair[];
+  inverted: boolean;
+}
+
+// Outcome of decoding a rendered code and comparing it with the encoded text
+type QRVerificationStatus = 'pass' | 'mismatch' | 'unreadable';
+
+// One degraded copy of the rendered code and whether it still decoded correctly
+interface QRRobustnessCheck {
+  name: string;
+  passed: boolean;
+}
+
+interface QRVerificationResult {
+  status: QRVerificationStatus;
+  decodedText: string | null;
+  robustnessScore: number;
+  checks: QRRobustnessCheck[];
+}
+
+// A single problem found while validating request input
+interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// Error body returned by the QR code API routes
+interface QRApiErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    issues?: ValidationIssue[];
+  };
+}
+
+// PDF page layout; codeSize is the printed code width in millimetres
+type PDFPageSize = 'a4' | 'a5' | 'letter' | 'legal' | 'fit';
+type PDFOrientation = 'portrait' | 'landscape';
+
+// Units a raster export size can be given in
+type SizeUnit = 'px' | 'mm' | 'in';
+
+// Raster output size. Millimetres and inches convert to pixels at dpi, which is
+// also written into the PNG; scanDistance (cm) sets the smallest usable module.
+interface ExportSizeOptions {
+  value: number;
+  unit: SizeUnit;
+  dpi: number;
+  scanDistance: number;
+}
+
+// Module size at an export size, in pixels and millimetres, against the
+// smallest module that prints and scans at the intended distance
+interface PrintSizeCheck {
+  pixels: number;
+  pixelsPerModule: number;
+  moduleSize: number;
+  minModuleSize: number;
+  warnings: string[];
+}
+
+type PrintLayoutPreset = 'grid' | 'avery-5160' | 'avery-l7160';
+type PrintCaptionSource = 'none' | 'payload' | 'field';
+
+// A sheet of codes; gutter and bleed are in millimetres. captionField names
+// the CSV column shown when caption is 'field'.
+interface PDFSheetLayout {
+  preset: PrintLayoutPreset;
+  columns: number;
+  rows: number;
+  gutter: number;
+  bleed: number;
+  cropMarks: boolean;
+  caption: PrintCaptionSource;
+  captionField?: string;
+}
+
+// Without a layout the page holds a single centered code
+interface PDFExportOptions {
+  pageSize: PDFPageSize;
+  orientation: PDFOrientation;
+  codeSize: number;
+  layout?: PDFSheetLayout;
+}
+
+// WebP and JPEG encoding; quality runs from 1 to 100. JPEG has no alpha
+// channel, so transparent areas are flattened onto flattenColor.
+interface LossyExportOptions {
+  quality: number;
+  flattenColor: string;
+}
+
+// Format-specific settings for a download
+interface ExportSettings {
+  size?: ExportSizeOptions;
+  pdf?: PDFExportOptions;
+  lossy?: LossyExportOptions;
+}
+
+// Batch generation types
+interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+}
+
+interface BatchMapping {
+  payloadType: PayloadType;
+  // Payload field name -> CSV column header
+  fields: Record<string, string>;
+  // e.g. "product-{sku}"; {row} is the 1-based row number
+  filenamePattern: string;
+}
+
+interface BatchRowError {
+  row: number;
+  message: string;
+}
+
+interface BatchProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+// A ZIP of files, or one PDF when the batch is printed as sheets
+interface BatchResult {
+  file: Blob;
+  succeeded: number;
+  errors: BatchRowError[];
 }
 
 // API response types
@@ -91,10 +420,142 @@ interface CosmicResponse<T> {
   skip: number;
 }
 
+// Operating system and form factor read from a scanner's user agent
+type ScanOS = 'ios' | 'android' | 'windows' | 'macos' | 'linux' | 'other';
+type ScanDevice = 'mobile' | 'tablet' | 'desktop';
+
+// One scan of a dynamic code. Only coarse details are kept: no IP address or
+// raw user agent, just the referrer's host and the preferred language tag.
+// owner_id is the code's owner, not the scanner.
+interface ScanEvent {
+  code_slug: string;
+  owner_id?: string;
+  scanned_at: string;
+  os: ScanOS;
+  device: ScanDevice;
+  referrer?: string;
+  locale?: string;
+}
+
+// Scan stored as a Cosmic object
+interface QRScan extends CosmicObject {
+  type: 'qr-scans';
+  metadata: ScanEvent;
+}
+
+// Scans of one code, or all of an owner's codes, between two ISO timestamps
+interface ScanQuery {
+  owner_id?: string;
+  code_slug?: string;
+  since?: string;
+  until?: string;
+}
+
+// Where scans are recorded and read back from
+interface ScanStore {
+  recordScan: (event: ScanEvent) => Promise<void>;
+  getScans: (query?: ScanQuery) => Promise<ScanEvent[]>;
+  countScans: (codeSlug: string) => Promise<number>;
+}
+
+interface ScanCount {
+  key: string;
+  count: number;
+}
+
+// Scans over a date range; byDay has one entry per UTC day (YYYY-MM-DD),
+// the other breakdowns are sorted by count
+interface ScanSummary {
+  total: number;
+  byDay: ScanCount[];
+  byCode: ScanCount[];
+  byOS: ScanCount[];
+  byDevice: ScanCount[];
+  byLocale: ScanCount[];
+  byReferrer: ScanCount[];
+}
+
+// Sends matching scans of a dynamic code to its own target. Rules are checked
+// in order and the first match wins; scans no rule matches go to target_url.
+// Every condition that is set must hold, and an unset condition matches any scan:
+// - starts_at / ends_at: ISO timestamps, start inclusive and end exclusive
+// - os: operating systems read from the user agent
+// - languages: tags such as "de" or "pt-BR", compared with the scanner's
+//   preferred Accept-Language tag; "de" also matches "de-AT"
+// - min_scans / max_scans: 1-based position of this scan among all scans of
+//   the code, inclusive, so max_scans 100 covers the first hundred scans
+interface RedirectRule {
+  id: string;
+  target_url: string;
+  starts_at?: string;
+  ends_at?: string;
+  os?: ScanOS[];
+  languages?: string[];
+  min_scans?: number;
+  max_scans?: number;
+}
+
+// Who is making a request. ownerId is stored as owner_id on everything they
+// save, and the Cosmic queries for templates, history, preferences and
+// dynamic codes filter by it.
+interface Identity {
+  ownerId: string;
+}
+
+// Works out the signed-in user from a request's headers; null when nobody is signed in
+interface IdentityProvider {
+  getIdentity: (headers: Headers) => Promise<Identity | null>;
+}
+
+// Fields the app writes when saving a template, history entry or preferences
+interface QRTemplateData {
+  title: string;
+  colors: { foreground: string; background: string; accent?: string };
+  style: QRStyle;
+  pattern?: QRPattern | string;
+  eye_frame_shape?: EyeShape;
+  eye_ball_shape?: EyeShape;
+  eye_ball_color?: string;
+  description?: string;
+}
+
+// The summary fields and versions are filled in when the entry is saved
+interface QRHistoryData {
+  config: QRCodeConfig;
+  export_format: ExportFormat;
+  template_slug?: string;
+}
+
+// Filters and paging for the history browser. search matches the encoded
+// text; since and until are ISO timestamps compared with generated_at.
+interface QRHistoryQuery {
+  search?: string;
+  style?: QRStyle;
+  export_format?: ExportFormat;
+  since?: string;
+  until?: string;
+  limit?: number;
+  skip?: number;
+}
+
+type UserPreferencesData = Omit<UserPreferences['metadata'], 'owner_id'>;
+
+// Fields a dynamic code can be created or updated with
+interface DynamicQRCodeData {
+  target_url: string;
+  description?: string;
+  rules?: RedirectRule[];
+}
+
 // Component prop types
+// initialConfig reopens an earlier code, starting the wizard at the customize
+// step; initialTemplateSlug is the template that code was built from
 interface QRGeneratorProps {
   templates: QRTemplate[];
   colorPalettes: ColorPalette[];
+  preferences?: UserPreferencesData | null;
+  initialConfig?: QRCodeConfig;
+  initialTemplateSlug?: string;
 }
 
 interface QRPreviewProps {
@@ -136,11 +597,76 @@ export type {
   ColorPalette,
   UserPreferences,
   QRHistory,
+  DynamicQRCode,
+  DynamicQRCodeData,
+  QRTemplateData,
+  QRHistoryData,
+  QRHistoryQuery,
+  Identity,
+  IdentityProvider,
+  UserPreferencesData,
+  ScanOS,
+  ScanDevice,
+  ScanEvent,
+  QRScan,
+  ScanQuery,
+  ScanStore,
+  RedirectRule,
+  ScanCount,
+  ScanSummary,
   QRStyle,
   QRPattern,
   PaletteCategory,
   ExportFormat,
+  ErrorCorrectionLevel,
+  QRVersionMode,
+  QRMaskPattern,
+  LogoShape,
+  EyeShape,
+  PatternDirection,
+  GradientType,
+  GradientColorStop,
+  QRGradient,
+  PayloadType,
+  WifiSecurity,
+  UrlPayload,
+  WifiPayload,
+  ContactPayload,
+  EmailPayload,
+  SmsPayload,
+  GeoPayload,
+  EventPayload,
+  TextPayload,
+  EpcPayload,
+  UpiPayload,
+  BitcoinPayload,
+  QRPayload,
   QRCodeConfig,
+  QREncodingInfo,
+  ContrastGrade,
+  ContrastPair,
+  ContrastAnalysis,
+  QRVerificationStatus,
+  QRRobustnessCheck,
+  QRVerificationResult,
+  ValidationIssue,
+  QRApiErrorResponse,
+  PDFPageSize,
+  PDFOrientation,
+  SizeUnit,
+  ExportSizeOptions,
+  PrintSizeCheck,
+  LossyExportOptions,
+  ExportSettings,
+  PrintLayoutPreset,
+  PrintCaptionSource,
+  PDFSheetLayout,
+  PDFExportOptions,
+  ParsedCSV,
+  BatchMapping,
+  BatchRowError,
+  BatchProgress,
+  BatchResult,
   CosmicResponse,
   QRGeneratorProps,
   QRPreviewProps,
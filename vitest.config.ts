@@ -0,0 +1,13 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the DOM-free modules in lib/
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node',
+  },
+});